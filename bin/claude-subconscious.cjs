@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+/**
+ * npx entry point for the Claude Subconscious CLI.
+ *
+ * Runs scripts/cli.ts through the plugin's own tsx so the CLI resolves the
+ * same dependencies as the hooks.
+ */
+const { spawnSync } = require('child_process');
+const path = require('path');
+
+const cliScript = path.join(__dirname, '..', 'scripts', 'cli.ts');
+
+let tsxCli;
+try {
+  tsxCli = require.resolve('tsx/cli');
+} catch {
+  console.error('Error: tsx is not installed. Run `npm install` in the plugin directory.');
+  process.exit(1);
+}
+
+const result = spawnSync(process.execPath, [tsxCli, cliScript, ...process.argv.slice(2)], {
+  stdio: 'inherit',
+  env: process.env,
+});
+
+process.exit(result.status === null ? 1 : result.status);
@@ -7,8 +7,12 @@
  *
  * Tests findModel() for model lookup in the available models list.
  * Tests buildLlmConfig() for correct llm_config construction.
+ * Tests getAgentId() importing the bundled agent against the fake server.
  */
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { describe, it, expect, vi, afterEach } from 'vitest';
 import { isValidAgentId, findModel, buildLlmConfig } from './agent_config.js';
 
@@ -195,3 +199,47 @@ describe('buildLlmConfig', () => {
     expect(config.provider_name).toBe('openai');
   });
 });
+
+describe('getAgentId', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  it('imports, renames, tags and configures the bundled agent on first use', async () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-config-test-'));
+    vi.stubEnv('HOME', home);
+    vi.stubEnv('TMPDIR', home);
+    vi.stubEnv('LETTA_AGENT_ID', '');
+    vi.stubEnv('LETTA_MODEL', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.resetModules();
+
+    // Fresh module instances so the config path picks up the stubbed HOME
+    const { FakeLettaServer } = await import('./fake_letta_server.js');
+    const { setLettaTransport } = await import('./letta_client.js');
+    const { getAgentId, readConfig } = await import('./agent_config.js');
+    const server = new FakeLettaServer();
+    setLettaTransport(server.fetch);
+
+    try {
+      const agentId = await getAgentId('test-key', () => {});
+      const agent = server.agents.get(agentId)!;
+
+      expect(agent.name).toBe('Subconscious');
+      expect(agent.tags).toEqual(expect.arrayContaining(['git-memory-enabled', 'origin:claude-subconcious']));
+      expect(agent.blocks.length).toBeGreaterThan(0);
+      // The bundled model isn't offered by the fake server, so one is auto-selected
+      expect(agent.llm_config.handle).toBe('anthropic/claude-sonnet-4-5');
+      expect(readConfig()).toMatchObject({ agentId, model: 'anthropic/claude-sonnet-4-5' });
+
+      // Second run reuses the saved agent
+      expect(await getAgentId('test-key', () => {})).toBe(agentId);
+      expect(server.agents.size).toBe(1);
+    } finally {
+      setLettaTransport(null);
+      fs.rmSync(home, { recursive: true, force: true });
+    }
+  });
+});
@@ -15,7 +15,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { buildLettaApiUrl } from './letta_api_url.js';
+import { writeJsonFileAtomic } from './conversation_utils.js';
+import { cachedGet, getCacheTtlMs, invalidateCache, readCacheEntry } from './letta_cache.js';
+import { createLettaClient, LettaApiError } from './letta_client.js';
+import { CONFIG_VERSION, migrateConfig } from './state_migrations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -37,7 +40,8 @@ const PREFERRED_MODELS = [
   'minimax/MiniMax-M2.7',        // MiniMax flagship, 1M context
 ];
 
-interface Config {
+export interface Config {
+  version?: number; // Stamped on save, see state_migrations.ts
   agentId?: string;
   importedAt?: string;
   model?: string; // Track which model was configured
@@ -66,7 +70,7 @@ interface LlmConfig {
   [key: string]: unknown;
 }
 
-interface AgentDetails {
+export interface AgentDetails {
   id: string;
   name: string;
   llm_config?: LlmConfig;
@@ -112,12 +116,16 @@ function getInvalidAgentIdMessage(agentId: string): string {
 }
 
 /**
- * Read saved config
+ * Read saved config, upgrading an older file in place
  */
-function readConfig(): Config {
+export function readConfig(): Config {
   if (fs.existsSync(CONFIG_FILE)) {
     try {
-      return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
+      const { value: config, migrated } = migrateConfig(JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8')));
+      if (migrated) {
+        saveConfig(config);
+      }
+      return config;
     } catch {
       return {};
     }
@@ -129,10 +137,7 @@ function readConfig(): Config {
  * Save config
  */
 function saveConfig(config: Config): void {
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true });
-  }
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+  writeJsonFileAtomic(CONFIG_FILE, { ...config, version: CONFIG_VERSION });
 }
 
 /**
@@ -162,105 +167,87 @@ const REQUIRED_AGENT_TAGS = ['git-memory-enabled', 'origin:claude-subconcious'];
  * - origin:claude-subconcious: identifies agent origin for tracking
  */
 async function ensureRequiredAgentTags(apiKey: string, agentId: string, log: (msg: string) => void = console.log): Promise<void> {
-  // First GET the agent to read current tags
-  const getUrl = buildLettaApiUrl(`/agents/${agentId}`);
-  const getResponse = await fetch(getUrl, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-  });
+  const client = createLettaClient(apiKey);
 
-  if (!getResponse.ok) {
-    log(`Warning: Could not fetch agent tags: ${getResponse.status}`);
+  // First GET the agent to read current tags
+  let agent: { tags?: string[] };
+  try {
+    agent = await client.getAgent(agentId);
+  } catch (error) {
+    log(`Warning: Could not fetch agent tags: ${error instanceof LettaApiError ? error.status : error}`);
     return;
   }
 
-  const agent = await getResponse.json();
   const existingTags = agent.tags || [];
   const missingTags = REQUIRED_AGENT_TAGS.filter(tag => !existingTags.includes(tag));
 
   if (missingTags.length === 0) return;
 
-  const patchUrl = buildLettaApiUrl(`/agents/${agentId}`);
-  const response = await fetch(patchUrl, {
-    method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ tags: [...existingTags, ...missingTags] }),
-  });
-
-  if (!response.ok) {
+  try {
+    await client.updateAgent(agentId, { tags: [...existingTags, ...missingTags] });
+  } catch (error) {
     // Non-fatal - agent still works without required tags
-    log(`Warning: Could not update agent tags: ${response.status}`);
+    log(`Warning: Could not update agent tags: ${error instanceof LettaApiError ? error.status : error}`);
   }
 }
 
 async function renameAgent(apiKey: string, agentId: string, name: string): Promise<void> {
-  const url = buildLettaApiUrl(`/agents/${agentId}`);
-  
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ name }),
-  });
-
-  if (!response.ok) {
+  try {
+    await createLettaClient(apiKey).updateAgent(agentId, { name });
+  } catch (error) {
     // Non-fatal - agent still works with _copy name
-    console.error(`Warning: Could not rename agent: ${response.status}`);
+    console.error(`Warning: Could not rename agent: ${error instanceof LettaApiError ? error.status : error}`);
   }
 }
 
 /**
- * List available models from Letta server
+ * List available models from Letta server (cached, since every hook checks)
  */
 async function listAvailableModels(apiKey: string): Promise<LettaModel[]> {
-  const url = buildLettaApiUrl('/models/');
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to list models: ${response.status}`);
-  }
-
-  return response.json();
+  return cachedGet<LettaModel[]>(createLettaClient(apiKey), 'models', '/models/', {
+    action: 'list models',
+  }, getCacheTtlMs());
 }
 
 /**
- * Get agent details including current model configuration
+ * Get agent details including current model configuration (cached)
  */
 async function getAgentDetails(apiKey: string, agentId: string): Promise<AgentDetails> {
-  const url = buildLettaApiUrl(`/agents/${agentId}`);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-  });
+  return cachedGet<AgentDetails>(createLettaClient(apiKey), `agent-${agentId}-details`, `/agents/${agentId}`, {
+    action: 'fetch agent',
+  }, getCacheTtlMs());
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to get agent details: ${response.status}`);
+/**
+ * Get the agent's context window without contacting the server:
+ * LETTA_CONTEXT_WINDOW, else the cached agent details (refreshed whenever
+ * getAgentId checks the model)
+ */
+export function getKnownContextWindow(agentId: string): number | undefined {
+  const envContextWindow = parseInt(process.env.LETTA_CONTEXT_WINDOW || '', 10);
+  if (envContextWindow > 0) {
+    return envContextWindow;
   }
+  return readCacheEntry<AgentDetails>(`agent-${agentId}-details`)?.data.llm_config?.context_window;
+}
 
-  return response.json();
+/**
+ * Get the agent's model handle without contacting the server: LETTA_MODEL,
+ * else the cached agent details
+ */
+export function getKnownModelHandle(agentId: string): string | null {
+  if (process.env.LETTA_MODEL) {
+    return process.env.LETTA_MODEL;
+  }
+  const agent = readCacheEntry<AgentDetails>(`agent-${agentId}-details`)?.data;
+  return agent ? getAgentModelHandle(agent) : null;
 }
 
 /**
  * Get model handle from agent details
  * The handle format is "provider/model" (e.g., "openai/gpt-4o-mini")
  */
-function getAgentModelHandle(agent: AgentDetails): string | null {
+export function getAgentModelHandle(agent: AgentDetails): string | null {
   const llmConfig = agent.llm_config;
   if (!llmConfig) return null;
   
@@ -453,8 +440,6 @@ async function updateAgentModel(
   currentConfig: LlmConfig | undefined,
   log: (msg: string) => void = console.log
 ): Promise<void> {
-  const url = buildLettaApiUrl(`/agents/${agentId}`);
-
   log(`Updating agent model to: ${modelHandle}`);
 
   const llmConfig = buildLlmConfig(modelHandle, models, currentConfig);
@@ -467,19 +452,8 @@ async function updateAgentModel(
     }
   }
 
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to update agent model: ${response.status} ${errorText}`);
-  }
+  await createLettaClient(apiKey).updateAgent(agentId, body);
+  invalidateCache(`agent-${agentId}`);
 
   log(`Agent model updated to: ${modelHandle}`);
 }
@@ -488,39 +462,20 @@ async function updateAgentModel(
  * Import agent from .af file
  */
 async function importDefaultAgent(apiKey: string): Promise<string> {
-  const url = buildLettaApiUrl('/agents/import');
-  
   // Read the agent file
   const agentFileContent = fs.readFileSync(DEFAULT_AGENT_FILE);
   
   // Get original name for later rename
   const originalName = getAgentNameFromFile();
   
-  // Create form data with the file
-  const formData = new FormData();
   const blob = new Blob([agentFileContent], { type: 'application/json' });
-  formData.append('file', blob, 'Subconscious.af');
+  const agentIds = await createLettaClient(apiKey).importAgent(blob, 'Subconscious.af');
   
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to import agent: ${response.status} ${errorText}`);
-  }
-
-  const result = await response.json();
-  
-  if (!result.agent_ids || result.agent_ids.length === 0) {
+  if (agentIds.length === 0) {
     throw new Error('Import succeeded but no agent ID returned');
   }
   
-  const agentId = result.agent_ids[0];
+  const agentId = agentIds[0];
   
   // Rename to original name (removes "_copy" suffix added by import)
   await renameAgent(apiKey, agentId, originalName);
@@ -645,6 +600,18 @@ export function needsImport(): boolean {
   return !config.agentId;
 }
 
+/**
+ * Get the configured agent ID without importing or contacting the server.
+ * Returns null when the next hook would auto-import the default agent.
+ */
+export function getConfiguredAgentId(): { agentId: string; source: 'env' | 'saved' } | null {
+  if (process.env.LETTA_AGENT_ID) {
+    return { agentId: process.env.LETTA_AGENT_ID, source: 'env' };
+  }
+  const config = readConfig();
+  return config.agentId ? { agentId: config.agentId, source: 'saved' } : null;
+}
+
 /**
  * Get config file path (for logging/debugging)
  */
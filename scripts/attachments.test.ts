@@ -0,0 +1,133 @@
+/**
+ * Tests for attachments.ts
+ *
+ * Covers reading image dimensions from headers, describing image and
+ * document blocks, how attachments appear in transcripts, and which images
+ * are picked for upload.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { describeAttachment, imageDimensions, modelSupportsImages } from './attachments.js';
+import { collectImageUploads } from './session_updates.js';
+import { createToolFormatterRegistry } from './tool_formatters.js';
+import { formatAsXmlTranscript, formatMessagesForLetta, TRANSCRIPT_START, TranscriptMessage } from './transcript_utils.js';
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function imageBlock(data: Buffer, mediaType = 'image/png') {
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data: data.toString('base64') } };
+}
+
+describe('imageDimensions', () => {
+  it('reads PNG, GIF, JPEG and WebP headers', () => {
+    expect(imageDimensions(png(1280, 720))).toEqual({ width: 1280, height: 720 });
+
+    const gif = Buffer.alloc(10);
+    gif.write('GIF89a', 0, 'latin1');
+    gif.writeUInt16LE(32, 6);
+    gif.writeUInt16LE(16, 8);
+    expect(imageDimensions(gif)).toEqual({ width: 32, height: 16 });
+
+    // APP0 segment, then a baseline start-of-frame
+    const jpeg = Buffer.from([
+      0xff, 0xd8,
+      0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+      0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x03, 0x01,
+    ]);
+    expect(imageDimensions(jpeg)).toEqual({ width: 640, height: 480 });
+
+    const webp = Buffer.alloc(30);
+    webp.write('RIFF', 0, 'latin1');
+    webp.write('WEBPVP8X', 8, 'latin1');
+    webp.writeUIntLE(799, 24, 3);
+    webp.writeUIntLE(599, 27, 3);
+    expect(imageDimensions(webp)).toEqual({ width: 800, height: 600 });
+
+    expect(imageDimensions(Buffer.from('not an image'))).toBeNull();
+  });
+});
+
+describe('describeAttachment', () => {
+  it('describes inline images, linked images and documents', () => {
+    expect(describeAttachment(imageBlock(png(100, 50)))).toMatchObject({
+      type: 'image',
+      mediaType: 'image/png',
+      width: 100,
+      height: 50,
+      bytes: 24,
+    });
+    expect(describeAttachment({ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }))
+      .toEqual({ type: 'image', file: 'https://example.com/a.png' });
+    expect(describeAttachment({
+      type: 'document',
+      title: 'Design spec',
+      source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' },
+    })).toMatchObject({ type: 'document', mediaType: 'application/pdf', description: 'Design spec' });
+    expect(describeAttachment({ type: 'text', text: 'hi' })).toBeNull();
+  });
+
+  it('knows which models accept images', () => {
+    expect(modelSupportsImages('anthropic/claude-sonnet-4-5')).toBe(true);
+    expect(modelSupportsImages('openai/o3-mini')).toBe(true);
+    expect(modelSupportsImages('openai/gpt-3.5-turbo')).toBe(false);
+    expect(modelSupportsImages(null)).toBe(false);
+  });
+});
+
+describe('attachments in transcripts', () => {
+  const messages: TranscriptMessage[] = [
+    {
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'text', text: 'Why does this fail? [Image #1]' }, imageBlock(png(800, 600))] },
+      uuid: 'u1',
+    },
+    {
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_r', name: 'Read', input: { file_path: '/shots/error.gif' } }] },
+      uuid: 'a1',
+    },
+    {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_r', content: [imageBlock(Buffer.from('GIF89a'), 'image/gif')] }],
+      },
+      uuid: 'u2',
+    },
+  ];
+
+  afterEach(() => {
+    delete process.env.LETTA_IMAGE_UPLOAD;
+  });
+
+  it('describes pasted and returned images without their content', () => {
+    const xml = formatAsXmlTranscript(formatMessagesForLetta(messages, -1, undefined, createToolFormatterRegistry()));
+
+    expect(xml).toContain('<attachment type="image" media_type="image/png" width="800" height="600" size="24" turn="1" uuid="u1"/>');
+    expect(xml).toContain('<tool_result tool_use_id="toolu_r" name="Read" turn="1" uuid="u2"/>');
+    expect(xml).toContain('<attachment type="image" media_type="image/gif" size="6" file="/shots/error.gif" tool_use_id="toolu_r" name="Read" turn="1" uuid="u2"/>');
+    expect(xml).not.toContain(png(800, 600).toString('base64'));
+  });
+
+  it('uploads images only when enabled and the model accepts them', () => {
+    const slice = {
+      messages,
+      start: TRANSCRIPT_START,
+      end: { ...TRANSCRIPT_START, index: 2 },
+      rescanned: false,
+    };
+
+    expect(collectImageUploads(slice, 'anthropic/claude-sonnet-4-5')).toEqual([]);
+
+    process.env.LETTA_IMAGE_UPLOAD = 'on';
+    expect(collectImageUploads(slice, 'openai/gpt-3.5-turbo')).toEqual([]);
+    expect(collectImageUploads(slice, 'anthropic/claude-sonnet-4-5').map(image => image.mediaType)).toEqual(['image/png', 'image/gif']);
+  });
+});
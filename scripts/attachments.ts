@@ -0,0 +1,178 @@
+/**
+ * Attachments
+ *
+ * Describes the image and document blocks of a transcript (pasted
+ * screenshots, images returned by Read, attached PDFs) so Sub knows they
+ * were there: their type, size, image dimensions and where they came from.
+ * Nothing is described from the pixels themselves; there is no OCR.
+ *
+ * With LETTA_IMAGE_UPLOAD=on, images are also sent to Sub as multimodal
+ * content when its model accepts images (see collectImageUploads in
+ * session_updates.ts).
+ */
+
+// Image media types Letta models accept as multimodal content
+const UPLOADABLE_MEDIA_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+// Per update: larger images are described but not uploaded
+export const IMAGE_UPLOAD_MAX_COUNT = 5;
+export const IMAGE_UPLOAD_MAX_BYTES = 5 * 1024 * 1024;
+
+const DESCRIPTION_MAX_CHARS = 500;
+
+// Model handles known to accept image input
+const VISION_MODEL_PATTERNS = [
+  /claude/i,
+  /gpt-4o/i,
+  /gpt-4\.1/i,
+  /gpt-5/i,
+  /(^|\/)o[134](-|$)/i,
+  /gemini/i,
+  /pixtral/i,
+  /vision/i,
+];
+
+export interface Attachment {
+  type: 'image' | 'document';
+  mediaType?: string;
+  width?: number;
+  height?: number;
+  /** Decoded size in bytes, for inline (base64) content */
+  bytes?: number;
+  /** Where it came from: a URL, an uploaded file ID or a local path */
+  file?: string;
+  /** Title or leading text, when the block carries one */
+  description?: string;
+  /** Base64 content, kept for uploading and never put in the transcript */
+  data?: string;
+}
+
+/**
+ * An image to send to Sub along with an update message
+ */
+export interface ImageUpload {
+  mediaType: string;
+  data: string;
+}
+
+export type ImageUploadMode = 'on' | 'off';
+
+/**
+ * Get the image upload mode from LETTA_IMAGE_UPLOAD env var.
+ * - off (default): images are only described in the transcript
+ * - on: images are also uploaded when the agent's model accepts them
+ */
+export function getImageUploadMode(): ImageUploadMode {
+  return process.env.LETTA_IMAGE_UPLOAD?.toLowerCase() === 'on' ? 'on' : 'off';
+}
+
+/**
+ * Whether a model handle (e.g. "anthropic/claude-sonnet-4-5") is known to
+ * accept images
+ */
+export function modelSupportsImages(modelHandle: string | null | undefined): boolean {
+  return !!modelHandle && VISION_MODEL_PATTERNS.some(pattern => pattern.test(modelHandle));
+}
+
+function base64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.max(Math.floor(data.length * 3 / 4) - padding, 0);
+}
+
+/**
+ * Read width and height from a PNG, GIF, JPEG or WebP header
+ */
+export function imageDimensions(image: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR is always the first chunk
+  if (image.length >= 24 && image.readUInt32BE(0) === 0x89504e47) {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (image.length >= 10 && image.toString('latin1', 0, 4) === 'GIF8') {
+    return { width: image.readUInt16LE(6), height: image.readUInt16LE(8) };
+  }
+
+  // JPEG: size is in the first start-of-frame segment
+  if (image.length >= 4 && image[0] === 0xff && image[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < image.length && image[offset] === 0xff) {
+      const marker = image[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: image.readUInt16BE(offset + 7), height: image.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + image.readUInt16BE(offset + 2);
+    }
+    return null;
+  }
+
+  // WebP: lossy, lossless and extended formats keep the size differently
+  if (image.length >= 30 && image.toString('latin1', 0, 4) === 'RIFF' && image.toString('latin1', 8, 12) === 'WEBP') {
+    const format = image.toString('latin1', 12, 16);
+    if (format === 'VP8 ') {
+      return { width: image.readUInt16LE(26) & 0x3fff, height: image.readUInt16LE(28) & 0x3fff };
+    }
+    if (format === 'VP8L') {
+      const bits = image.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (format === 'VP8X') {
+      return { width: image.readUIntLE(24, 3) + 1, height: image.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describe an image or document content block, or return null for other
+ * blocks. `file` is the local path it was read from, if known.
+ */
+export function describeAttachment(block: any, file?: string): Attachment | null {
+  if (!block || (block.type !== 'image' && block.type !== 'document')) {
+    return null;
+  }
+
+  const attachment: Attachment = { type: block.type };
+  const source = block.source ?? {};
+  if (typeof source.media_type === 'string') attachment.mediaType = source.media_type;
+
+  if (source.type === 'base64' && typeof source.data === 'string') {
+    attachment.data = source.data;
+    attachment.bytes = base64Bytes(source.data);
+    if (block.type === 'image') {
+      const dimensions = imageDimensions(Buffer.from(source.data, 'base64'));
+      if (dimensions) Object.assign(attachment, dimensions);
+    }
+  } else if (source.type === 'url' && typeof source.url === 'string') {
+    attachment.file = source.url;
+  } else if (source.type === 'file' && typeof source.file_id === 'string') {
+    attachment.file = source.file_id;
+  } else if (source.type === 'text' && typeof source.data === 'string') {
+    attachment.mediaType ??= 'text/plain';
+    attachment.description = source.data;
+  }
+
+  if (file) attachment.file = file;
+  if (typeof block.title === 'string' && block.title) attachment.description = block.title;
+  if (attachment.description && attachment.description.length > DESCRIPTION_MAX_CHARS) {
+    attachment.description = `${attachment.description.slice(0, DESCRIPTION_MAX_CHARS)}...`;
+  }
+
+  return attachment;
+}
+
+/**
+ * The upload for an attachment, or null if it isn't an image Letta accepts
+ * or is too large
+ */
+export function toImageUpload(attachment: Attachment): ImageUpload | null {
+  if (attachment.type !== 'image' || !attachment.data || !attachment.mediaType) {
+    return null;
+  }
+  if (!UPLOADABLE_MEDIA_TYPES.has(attachment.mediaType) || attachment.data.length > IMAGE_UPLOAD_MAX_BYTES) {
+    return null;
+  }
+  return { mediaType: attachment.mediaType, data: attachment.data };
+}
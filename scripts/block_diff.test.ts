@@ -0,0 +1,100 @@
+/**
+ * Tests for block_diff.ts
+ *
+ * Covers context lines, moved and duplicate lines, word-level changes in
+ * long lines, escaping and the fallback to the whole block.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffBlock, formatBlockChange, formatWordDiff } from './block_diff.js';
+
+const notes = [
+  '## Conventions',
+  'Use pnpm, not npm',
+  'Run the unit tests before pushing',
+  'Keep commits small',
+  '## Open questions',
+  'Why does the billing webhook retry twice?',
+  'Who owns the deploy pipeline?',
+];
+
+describe('diffBlock', () => {
+  it('shows changes with a line of context, split into hunks', () => {
+    const updated = [...notes];
+    updated[1] = 'Use pnpm';
+    updated.push('Is the staging database shared?');
+
+    expect(diffBlock(notes.join('\n'), updated.join('\n'))).toEqual([
+      '  ## Conventions',
+      '- Use pnpm, not npm',
+      '+ Use pnpm',
+      '  Run the unit tests before pushing',
+      '...',
+      '  Who owns the deploy pipeline?',
+      '+ Is the staging database shared?',
+    ]);
+  });
+
+  it('shows moved and duplicated lines', () => {
+    const moved = [notes[0], notes[2], notes[1], ...notes.slice(3)];
+    expect(diffBlock(notes.join('\n'), moved.join('\n'))).toEqual([
+      '  ## Conventions',
+      '- Use pnpm, not npm',
+      '  Run the unit tests before pushing',
+      '+ Use pnpm, not npm',
+      '  Keep commits small',
+    ]);
+
+    const duplicated = [...notes.slice(0, 4), notes[3], ...notes.slice(4)];
+    expect(diffBlock(notes.join('\n'), duplicated.join('\n'))).toEqual([
+      '  Keep commits small',
+      '+ Keep commits small',
+      '  ## Open questions',
+    ]);
+  });
+
+  it('marks the words changed in a long line', () => {
+    const oldValue = [...notes, 'The retry queue drains every five minutes and drops jobs older than a day'];
+    const newValue = [...notes, 'The retry queue drains every minute and drops jobs older than a week'];
+
+    expect(diffBlock(oldValue.join('\n'), newValue.join('\n'))).toEqual([
+      '  Who owns the deploy pipeline?',
+      '~ The retry queue drains every [-five minutes-]{+minute+} and drops jobs older than a [-day-]{+week+}',
+    ]);
+  });
+
+  it('returns null when the diff is no shorter than the block', () => {
+    expect(diffBlock('Use npm', 'Use pnpm')).toBeNull();
+    expect(diffBlock(notes.join('\n'), notes.join('\n'))).toBeNull();
+  });
+});
+
+describe('formatWordDiff', () => {
+  it('leaves short or mostly rewritten lines to line diffs', () => {
+    expect(formatWordDiff('Use npm', 'Use pnpm')).toBeNull();
+    expect(formatWordDiff(
+      'The retry queue drains every five minutes and drops jobs older than a day',
+      'Billing webhooks are signed with the key stored in the vault under payments',
+    )).toBeNull();
+  });
+
+  it('escapes XML in changed and unchanged words', () => {
+    expect(formatWordDiff(
+      'Wrap calls to fetch<T>() in retry() and log every failure with its status',
+      'Wrap calls to fetch<T>() in withBackoff() and log every failure with its status',
+    )).toBe('Wrap calls to fetch&lt;T&gt;() in [-retry()-]{+withBackoff()+} and log every failure with its status');
+  });
+});
+
+describe('formatBlockChange', () => {
+  it('shows new and rewritten blocks whole and other changes as diffs', () => {
+    expect(formatBlockChange({ label: 'notes', value: 'a < b' }, undefined))
+      .toBe('<notes status="new">\na &lt; b\n</notes>');
+    expect(formatBlockChange({ label: 'notes', value: 'Use pnpm' }, 'Use npm'))
+      .toBe('<notes status="rewritten">\nUse pnpm\n</notes>');
+
+    const updated = [...notes.slice(0, 6)].join('\n');
+    expect(formatBlockChange({ label: 'notes', value: updated }, notes.join('\n')))
+      .toBe('<notes status="modified">\n  Why does the billing webhook retry twice?\n- Who owns the deploy pipeline?\n</notes>');
+  });
+});
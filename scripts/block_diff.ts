@@ -0,0 +1,126 @@
+/**
+ * Memory Block Diffs
+ *
+ * How a changed memory block is shown to Claude on later prompts
+ * (sync_letta_memory.ts) and before tool calls (pretool_sync.ts): an LCS line
+ * diff (line_diff.ts) with a line of context around each change, so moved and
+ * duplicate lines line up. A long line with a small edit is shown once with
+ * the edited words marked, `~ keep [-old-]{+new+} keep`, instead of removed
+ * and re-added. When the diff would be longer than the block itself, the
+ * whole block is shown instead, marked status="rewritten".
+ */
+
+import { escapeXmlContent } from './conversation_utils.js';
+import { DiffOp, diffHunks, diffLines, diffWords } from './line_diff.js';
+
+export const BLOCK_DIFF_CONTEXT_LINES = 1;
+
+// Lines this long get a word diff against the line they replace...
+const WORD_DIFF_MIN_CHARS = 60;
+// ...when at least this share of their words is unchanged
+const WORD_DIFF_MIN_SHARED = 0.5;
+
+function isWhitespace(token: string): boolean {
+  return token.trim() === '';
+}
+
+/**
+ * Mark the words changed between two lines inline, or return null when the
+ * lines are too short or too different for that to read better than a
+ * removed and an added line
+ */
+export function formatWordDiff(oldLine: string, newLine: string): string | null {
+  if (oldLine.length < WORD_DIFF_MIN_CHARS && newLine.length < WORD_DIFF_MIN_CHARS) {
+    return null;
+  }
+
+  const ops = diffWords(oldLine, newLine);
+  const countWords = (skip: DiffOp['type']) => ops.filter(o => o.type !== skip && !isWhitespace(o.line)).length;
+  const shared = ops.filter(o => o.type === 'equal' && !isWhitespace(o.line)).length;
+  if (shared < Math.max(countWords('add'), countWords('remove')) * WORD_DIFF_MIN_SHARED) {
+    return null;
+  }
+
+  let formatted = '';
+  let removed = '';
+  let added = '';
+  const flush = () => {
+    if (removed) formatted += `[-${escapeXmlContent(removed)}-]`;
+    if (added) formatted += `{+${escapeXmlContent(added)}+}`;
+    removed = '';
+    added = '';
+  };
+  ops.forEach((o, k) => {
+    if (o.type === 'remove') {
+      removed += o.line;
+    } else if (o.type === 'add') {
+      added += o.line;
+    } else if (isWhitespace(o.line) && (removed || added) && ops[k + 1]?.type !== 'equal') {
+      // A space between two changed words joins them into one change
+      removed += o.line;
+      added += o.line;
+    } else {
+      flush();
+      formatted += escapeXmlContent(o.line);
+    }
+  });
+  flush();
+  return formatted;
+}
+
+function formatHunk(hunk: DiffOp[]): string[] {
+  const lines: string[] = [];
+  let k = 0;
+  while (k < hunk.length) {
+    if (hunk[k].type === 'equal') {
+      lines.push(`  ${escapeXmlContent(hunk[k++].line)}`);
+      continue;
+    }
+
+    // Pair each removed line with the added line in its place
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < hunk.length && hunk[k].type === 'remove') removed.push(hunk[k++].line);
+    while (k < hunk.length && hunk[k].type === 'add') added.push(hunk[k++].line);
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const inline = n < removed.length && n < added.length ? formatWordDiff(removed[n], added[n]) : null;
+      if (inline !== null) {
+        lines.push(`~ ${inline}`);
+        continue;
+      }
+      if (n < removed.length) lines.push(`- ${escapeXmlContent(removed[n])}`);
+      if (n < added.length) lines.push(`+ ${escapeXmlContent(added[n])}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Diff lines between two values of a block, with `...` between hunks.
+ * Returns null when nothing changed or the diff is no shorter than the new
+ * value.
+ */
+export function diffBlock(oldValue: string, newValue: string): string[] | null {
+  const hunks = diffHunks(diffLines(oldValue, newValue), BLOCK_DIFF_CONTEXT_LINES);
+  const lines = hunks.flatMap((hunk, i) => [...(i > 0 ? ['...'] : []), ...formatHunk(hunk)]);
+  if (lines.length === 0 || lines.join('\n').length >= escapeXmlContent(newValue).length) {
+    return null;
+  }
+  return lines;
+}
+
+/**
+ * Format a new or changed block as an element for a <letta_memory_update>
+ */
+export function formatBlockChange(block: { label: string; value: string }, previousValue: string | undefined): string {
+  const value = block.value || '';
+  if (previousValue === undefined) {
+    return `<${block.label} status="new">\n${escapeXmlContent(value)}\n</${block.label}>`;
+  }
+
+  const diff = diffBlock(previousValue, value);
+  if (!diff) {
+    return `<${block.label} status="rewritten">\n${escapeXmlContent(value)}\n</${block.label}>`;
+  }
+  return `<${block.label} status="modified">\n${diff.join('\n')}\n</${block.label}>`;
+}
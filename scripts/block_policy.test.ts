@@ -0,0 +1,39 @@
+/**
+ * Tests for block_policy.ts
+ *
+ * Covers the default policy, each injection setting and malformed entries.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createBlockPolicy } from './block_policy.js';
+
+describe('createBlockPolicy', () => {
+  it('injects every block on the first prompt and on change by default', () => {
+    const policy = createBlockPolicy();
+    expect(policy.injection('guidance')).toBe('always');
+    expect(policy.onFirstPrompt('guidance')).toBe(true);
+    expect(policy.onChange('guidance')).toBe(true);
+  });
+
+  it('applies the injection set for each label', () => {
+    const policy = createBlockPolicy({
+      core_directives: { inject: 'never' },
+      project_context: { inject: 'first-prompt' },
+      session_notes: { inject: 'diffs' },
+    });
+
+    expect([policy.onFirstPrompt('core_directives'), policy.onChange('core_directives')]).toEqual([false, false]);
+    expect([policy.onFirstPrompt('project_context'), policy.onChange('project_context')]).toEqual([true, false]);
+    expect([policy.onFirstPrompt('session_notes'), policy.onChange('session_notes')]).toEqual([false, true]);
+  });
+
+  it('ignores malformed entries', () => {
+    const logs: string[] = [];
+    const policy = createBlockPolicy({ core_directives: { inject: 'hidden' as any }, guidance: 'never' as any }, (msg) => logs.push(msg));
+
+    expect(policy.injection('core_directives')).toBe('always');
+    expect(policy.injection('guidance')).toBe('always');
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toContain('Ignoring block settings for core_directives');
+  });
+});
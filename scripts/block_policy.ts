@@ -0,0 +1,67 @@
+/**
+ * Memory Block Injection Policy
+ *
+ * Decides, per block label, when a memory block is shown to Claude in full
+ * mode. Some blocks (core_directives, tool_guidelines, self_improvement) are
+ * there for Sub's own use and only cost Claude context. Set in the settings
+ * file under "blocks":
+ *
+ *   never        - never injected
+ *   first-prompt - injected on the first prompt only; later changes are not shown
+ *   diffs        - not injected on the first prompt; changes are shown as diffs
+ *   always       - injected on the first prompt, then changes as diffs (default)
+ */
+
+import { LogFn } from './conversation_utils.js';
+import { BlockSettings, loadSettings } from './settings.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+export type BlockInjection = NonNullable<BlockSettings['inject']>;
+
+const INJECTIONS: BlockInjection[] = ['never', 'first-prompt', 'diffs', 'always'];
+
+export interface BlockPolicy {
+  /** How a block is injected */
+  injection(label: string): BlockInjection;
+  /** Whether a block is injected on the first prompt of a session */
+  onFirstPrompt(label: string): boolean;
+  /** Whether changes to a block are injected on later prompts and tool calls */
+  onChange(label: string): boolean;
+}
+
+/**
+ * Build a policy from per-label settings; labels without one are `always`
+ */
+export function createBlockPolicy(
+  overrides: { [label: string]: BlockSettings } = {},
+  log: LogFn = noopLog,
+): BlockPolicy {
+  const injections = new Map<string, BlockInjection>();
+  for (const [label, settings] of Object.entries(overrides)) {
+    const inject = settings && typeof settings === 'object' ? settings.inject : undefined;
+    if (inject === undefined) {
+      continue;
+    }
+    if (!INJECTIONS.includes(inject)) {
+      log(`Ignoring block settings for ${label}: inject must be one of ${INJECTIONS.join(', ')}`);
+      continue;
+    }
+    injections.set(label, inject);
+  }
+
+  const injection = (label: string): BlockInjection => injections.get(label) || 'always';
+  return {
+    injection,
+    onFirstPrompt: (label) => injection(label) === 'first-prompt' || injection(label) === 'always',
+    onChange: (label) => injection(label) === 'diffs' || injection(label) === 'always',
+  };
+}
+
+/**
+ * Build the policy from the user's settings file
+ */
+export function loadBlockPolicy(log: LogFn = noopLog): BlockPolicy {
+  return createBlockPolicy(loadSettings(log).blocks, log);
+}
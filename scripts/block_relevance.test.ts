@@ -0,0 +1,63 @@
+/**
+ * Tests for block_relevance.ts
+ *
+ * Covers tokenizing, ranking sections against a prompt and recent files,
+ * the token budget and the fallback when nothing matches.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { selectRelevantBlocks, tokenize } from './block_relevance.js';
+import { MemoryBlock } from './conversation_utils.js';
+
+const blocks: MemoryBlock[] = [
+  {
+    label: 'project_context',
+    description: 'What this project is',
+    value: [
+      'The billing service charges customers through Stripe webhooks.',
+      'Database migrations live in db/migrations and run with knex.',
+      'The frontend is a React app under web/.',
+    ].join('\n\n'),
+  },
+  { label: 'user_preferences', description: 'How the user works', value: 'Prefers small commits and pnpm over npm.' },
+  { label: 'pending_items', description: 'Unfinished work', value: 'Flaky webhook retry test in billing.' },
+];
+
+describe('tokenize', () => {
+  it('splits names and paths and drops stopwords', () => {
+    expect(tokenize('Fix the parseConfig bug in src/config_loader.ts')).toEqual(['fix', 'parse', 'config', 'bug', 'src', 'config', 'loader', 'ts']);
+    expect(tokenize('migrations')).toEqual(['migration']);
+  });
+});
+
+describe('selectRelevantBlocks', () => {
+  it('keeps everything when it fits the budget', () => {
+    const selection = selectRelevantBlocks(blocks, { prompt: 'anything' }, 1000);
+
+    expect(selection).toEqual({ blocks, partial: [], omitted: [] });
+  });
+
+  it('injects the sections that match the prompt and lists the rest', () => {
+    const selection = selectRelevantBlocks(blocks, { prompt: 'Why is the billing webhook retry failing?' }, 30);
+
+    expect(selection.blocks.map(b => [b.label, b.value])).toEqual([
+      ['project_context', 'The billing service charges customers through Stripe webhooks.'],
+      ['pending_items', 'Flaky webhook retry test in billing.'],
+    ]);
+    expect(selection.partial).toEqual(['project_context']);
+    expect(selection.omitted.map(b => b.label)).toEqual(['user_preferences']);
+  });
+
+  it('uses recently touched files as weaker query terms', () => {
+    const selection = selectRelevantBlocks(blocks, { prompt: 'add a column', files: ['/repo/db/migrations/004_users.ts'] }, 20);
+
+    expect(selection.blocks.map(b => b.value)).toEqual(['Database migrations live in db/migrations and run with knex.']);
+  });
+
+  it('falls back to block order when nothing matches', () => {
+    const selection = selectRelevantBlocks(blocks, { prompt: 'hello' }, 20);
+
+    expect(selection.blocks.map(b => b.value)).toEqual(['The billing service charges customers through Stripe webhooks.']);
+    expect(selection.omitted.map(b => b.label)).toEqual(['user_preferences', 'pending_items']);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Memory Block Relevance
+ *
+ * Picks the parts of Sub's memory blocks worth injecting on the first prompt
+ * in full mode, instead of every block whatever the user asked. Blocks are
+ * split into sections (paragraphs) and scored with BM25 against the prompt
+ * and the files recent tool calls touched. The best sections are injected
+ * within a token budget (LETTA_MEMORY_TOKENS); the blocks left out are listed
+ * so Claude knows they exist.
+ *
+ * Everything runs locally; nothing is sent anywhere to rank blocks.
+ */
+
+import { MemoryBlock } from './conversation_utils.js';
+import { estimateTokens } from './transcript_packer.js';
+
+export const DEFAULT_MEMORY_TOKENS = 3000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Terms from file paths count less than terms the user typed
+const FILE_TERM_WEIGHT = 0.5;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'this', 'to', 'up', 'us', 'was', 'we', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+export interface RelevanceQuery {
+  /** The user's prompt */
+  prompt?: string;
+  /** Files touched by recent tool calls */
+  files?: string[];
+}
+
+export interface SectionMatch {
+  /** Label of the block the section is from */
+  label: string;
+  text: string;
+  score: number;
+}
+
+export interface BlockSelection {
+  /** Blocks to inject, in their original order, cut to their chosen sections */
+  blocks: MemoryBlock[];
+  /** Labels of blocks injected with some sections left out */
+  partial: string[];
+  /** Blocks left out entirely */
+  omitted: MemoryBlock[];
+}
+
+interface Section {
+  block: number;
+  text: string;
+  terms: Map<string, number>;
+  length: number;
+  tokens: number;
+}
+
+/**
+ * Get the memory injection budget from LETTA_MEMORY_TOKENS
+ */
+export function getMemoryTokenBudget(): number {
+  const configured = parseInt(process.env.LETTA_MEMORY_TOKENS || '', 10);
+  return configured > 0 ? configured : DEFAULT_MEMORY_TOKENS;
+}
+
+/**
+ * Lowercase terms of a text, with camelCase and snake_case names and paths
+ * split into words, stopwords dropped and plurals folded
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Split a block's value into paragraphs
+ */
+function splitSections(value: string): string[] {
+  return value.split(/\n\s*\n/).map(s => s.trim()).filter(Boolean);
+}
+
+function queryWeights(query: RelevanceQuery): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const term of tokenize(query.prompt || '')) {
+    weights.set(term, 1);
+  }
+  for (const term of tokenize((query.files || []).join(' '))) {
+    if (!weights.has(term)) weights.set(term, FILE_TERM_WEIGHT);
+  }
+  return weights;
+}
+
+/**
+ * BM25 score of every section against the query terms
+ */
+function scoreSections(sections: Section[], weights: Map<string, number>): number[] {
+  const avgLength = sections.reduce((sum, s) => sum + s.length, 0) / Math.max(sections.length, 1) || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const section of sections) {
+    for (const term of section.terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return sections.map(section => {
+    let score = 0;
+    for (const [term, weight] of weights) {
+      const tf = section.terms.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (sections.length - df + 0.5) / (df + 0.5));
+      score += weight * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * section.length / avgLength));
+    }
+    return score;
+  });
+}
+
+function buildSections(blocks: MemoryBlock[]): Section[] {
+  return blocks.flatMap((block, blockIndex) =>
+    splitSections(block.value || '').map(text => {
+      const terms = tokenize(text);
+      return { block: blockIndex, text, terms: countTerms(terms), length: terms.length, tokens: estimateTokens(text) };
+    }),
+  );
+}
+
+/**
+ * Find the block sections that best match a query, best first. Used by the
+ * search_memory tool of the MCP server.
+ */
+export function searchBlocks(blocks: MemoryBlock[], query: RelevanceQuery, limit: number): SectionMatch[] {
+  const sections = buildSections(blocks);
+  const scores = scoreSections(sections, queryWeights(query));
+  return sections
+    .map((section, i) => ({ label: blocks[section.block].label, text: section.text, score: scores[i], order: i }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ label, text, score }) => ({ label, text, score }));
+}
+
+/**
+ * Choose the block sections to inject for a query within a token budget.
+ * Everything is kept when it fits. Otherwise the best-scoring sections are
+ * taken until the budget is spent; if nothing matches the query, sections
+ * are taken in block order instead.
+ */
+export function selectRelevantBlocks(
+  blocks: MemoryBlock[],
+  query: RelevanceQuery,
+  budgetTokens: number = getMemoryTokenBudget(),
+): BlockSelection {
+  const total = blocks.reduce((sum, b) => sum + estimateTokens(b.value || ''), 0);
+  if (total <= budgetTokens) {
+    return { blocks, partial: [], omitted: [] };
+  }
+
+  const sections = buildSections(blocks);
+  const scores = scoreSections(sections, queryWeights(query));
+  const matched = scores.some(score => score > 0);
+  const ranked = sections
+    .map((section, i) => ({ section, score: scores[i], order: i }))
+    .filter(({ score }) => !matched || score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const chosen = new Set<Section>();
+  let remaining = budgetTokens;
+  for (const { section } of ranked) {
+    if (section.tokens <= remaining) {
+      chosen.add(section);
+      remaining -= section.tokens;
+    }
+  }
+
+  const selection: BlockSelection = { blocks: [], partial: [], omitted: [] };
+  blocks.forEach((block, blockIndex) => {
+    const own = sections.filter(s => s.block === blockIndex);
+    const kept = own.filter(s => chosen.has(s));
+    if (own.length === 0) {
+      selection.blocks.push(block);
+      return;
+    }
+    if (kept.length === 0) {
+      selection.omitted.push(block);
+      return;
+    }
+    if (kept.length < own.length) {
+      selection.partial.push(block.label);
+    }
+    selection.blocks.push({ ...block, value: kept.map(s => s.text).join('\n\n') });
+  });
+  return selection;
+}
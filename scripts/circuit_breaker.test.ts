@@ -0,0 +1,84 @@
+/**
+ * Tests for circuit_breaker.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  assertCircuitClosed,
+  CircuitOpenError,
+  getCircuitBreakerFile,
+  getCircuitState,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+} from './circuit_breaker.js';
+
+const KEY = 'https://letta.test/v1';
+
+let tmpDir: string;
+
+describe('circuit breaker', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuit-test-'));
+    vi.stubEnv('TMPDIR', tmpDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('opens after the failure threshold and stays open for the cool-down', () => {
+    const now = Date.parse('2026-01-01T00:00:00.000Z');
+    recordCircuitFailure(KEY, 'timed out', now);
+    recordCircuitFailure(KEY, 'timed out', now);
+    expect(() => assertCircuitClosed(KEY, now)).not.toThrow();
+
+    const state = recordCircuitFailure(KEY, '503 Service Unavailable', now);
+    expect(state.openedUntil).toBe('2026-01-01T00:01:00.000Z');
+    expect(() => assertCircuitClosed(KEY, now + 59_000)).toThrow(CircuitOpenError);
+    expect(() => assertCircuitClosed(KEY, now + 59_000)).toThrow('last error: 503 Service Unavailable');
+
+    // Other servers are unaffected
+    expect(() => assertCircuitClosed('http://localhost:8283/v1', now)).not.toThrow();
+  });
+
+  it('lets a request through after the cool-down and closes on success', () => {
+    const now = Date.now();
+    for (let i = 0; i < 3; i++) recordCircuitFailure(KEY, 'down', now);
+
+    expect(() => assertCircuitClosed(KEY, now + 60_000)).not.toThrow();
+
+    // A failed trial request reopens it straight away
+    recordCircuitFailure(KEY, 'still down', now + 60_000);
+    expect(() => assertCircuitClosed(KEY, now + 61_000)).toThrow(CircuitOpenError);
+
+    recordCircuitSuccess(KEY);
+    expect(getCircuitState(KEY)).toEqual({ failures: 0 });
+  });
+
+  it('uses LETTA_CIRCUIT_THRESHOLD and LETTA_CIRCUIT_COOLDOWN', () => {
+    vi.stubEnv('LETTA_CIRCUIT_THRESHOLD', '1');
+    vi.stubEnv('LETTA_CIRCUIT_COOLDOWN', '5');
+    const now = Date.now();
+
+    recordCircuitFailure(KEY, 'down', now);
+
+    expect(() => assertCircuitClosed(KEY, now + 4_000)).toThrow(CircuitOpenError);
+    expect(() => assertCircuitClosed(KEY, now + 5_000)).not.toThrow();
+  });
+
+  it('never opens with a threshold of 0', () => {
+    vi.stubEnv('LETTA_CIRCUIT_THRESHOLD', '0');
+    for (let i = 0; i < 5; i++) recordCircuitFailure(KEY, 'down');
+
+    expect(() => assertCircuitClosed(KEY)).not.toThrow();
+  });
+
+  it('does not write state while requests succeed', () => {
+    recordCircuitSuccess(KEY);
+    expect(fs.existsSync(getCircuitBreakerFile())).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Circuit Breaker
+ *
+ * Remembers repeated Letta API failures across hook processes, so that once
+ * the server looks down every hook stops waiting on it for a cool-down
+ * instead of each one burning its own timeout. State lives in
+ * $TMPDIR/letta-claude-sync-$UID/circuit-breaker.json, keyed by API base URL.
+ *
+ * After LETTA_CIRCUIT_THRESHOLD consecutive failures (default 3) the circuit
+ * opens for LETTA_CIRCUIT_COOLDOWN seconds (default 60). The first request
+ * after the cool-down is let through: success closes the circuit, failure
+ * opens it again.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getTempStateDir, writeJsonFileAtomic } from './conversation_utils.js';
+
+const DEFAULT_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_SECONDS = 60;
+
+export interface CircuitState {
+  failures: number;
+  openedUntil?: string;
+  lastError?: string;
+}
+
+type CircuitStates = Record<string, CircuitState>;
+
+/**
+ * Thrown instead of making a request while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAt: string, lastError?: string) {
+    super(`Letta API unavailable, skipping requests until ${retryAt}${lastError ? ` (last error: ${lastError})` : ''}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export function getCircuitBreakerFile(): string {
+  return path.join(getTempStateDir(), 'circuit-breaker.json');
+}
+
+/**
+ * Get the threshold and cool-down from LETTA_CIRCUIT_THRESHOLD /
+ * LETTA_CIRCUIT_COOLDOWN. A threshold of 0 disables the breaker.
+ */
+export function getCircuitPolicy(): { threshold: number; cooldownMs: number } {
+  const threshold = parseInt(process.env.LETTA_CIRCUIT_THRESHOLD || '', 10);
+  const cooldown = parseInt(process.env.LETTA_CIRCUIT_COOLDOWN || '', 10);
+  return {
+    threshold: threshold >= 0 ? threshold : DEFAULT_THRESHOLD,
+    cooldownMs: (cooldown > 0 ? cooldown : DEFAULT_COOLDOWN_SECONDS) * 1000,
+  };
+}
+
+function loadStates(): CircuitStates {
+  try {
+    return JSON.parse(fs.readFileSync(getCircuitBreakerFile(), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function saveStates(states: CircuitStates): void {
+  writeJsonFileAtomic(getCircuitBreakerFile(), states);
+}
+
+/**
+ * Get the circuit state for an API base
+ */
+export function getCircuitState(key: string): CircuitState {
+  return loadStates()[key] || { failures: 0 };
+}
+
+/**
+ * Throw CircuitOpenError if requests to this API base should be skipped
+ */
+export function assertCircuitClosed(key: string, now: number = Date.now()): void {
+  if (getCircuitPolicy().threshold === 0) {
+    return;
+  }
+  const state = getCircuitState(key);
+  if (state.openedUntil && new Date(state.openedUntil).getTime() > now) {
+    throw new CircuitOpenError(state.openedUntil, state.lastError);
+  }
+}
+
+/**
+ * Record a successful request, closing the circuit
+ */
+export function recordCircuitSuccess(key: string): void {
+  const states = loadStates();
+  // Skip the write on the common path where nothing has failed
+  if (!states[key]) {
+    return;
+  }
+  delete states[key];
+  saveStates(states);
+}
+
+/**
+ * Record a failed request; opens the circuit once the threshold is reached.
+ * Returns the updated state.
+ */
+export function recordCircuitFailure(key: string, error: string, now: number = Date.now()): CircuitState {
+  const { threshold, cooldownMs } = getCircuitPolicy();
+  const states = loadStates();
+  const state: CircuitState = {
+    failures: (states[key]?.failures || 0) + 1,
+    lastError: error,
+  };
+  if (threshold > 0 && state.failures >= threshold) {
+    state.openedUntil = new Date(now + cooldownMs).toISOString();
+  }
+  states[key] = state;
+  saveStates(states);
+  return state;
+}
@@ -0,0 +1,192 @@
+/**
+ * Tests for cli.ts
+ *
+ * Covers the status, sessions, agent, reset and link commands against temp
+ * state dirs and the fake Letta server.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+let home: string;
+let cwd: string;
+let output: string[];
+
+// Fresh module instances so the config path picks up the stubbed HOME
+async function loadModules() {
+  const cli = await import('./cli.js');
+  const utils = await import('./conversation_utils.js');
+  const outbox = await import('./outbox.js');
+  const { FakeLettaServer } = await import('./fake_letta_server.js');
+  const { setLettaTransport } = await import('./letta_client.js');
+  const { getConfigPath } = await import('./agent_config.js');
+  return { cli, utils, outbox, FakeLettaServer, setLettaTransport, getConfigPath };
+}
+
+function printed(): string {
+  return output.join('\n');
+}
+
+describe('cli', () => {
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'));
+    cwd = path.join(home, 'project');
+    fs.mkdirSync(cwd);
+    output = [];
+    vi.stubEnv('HOME', home);
+    vi.stubEnv('TMPDIR', home);
+    vi.stubEnv('LETTA_HOME', '');
+    vi.stubEnv('LETTA_AGENT_ID', '');
+    vi.stubEnv('LETTA_DAEMON', '');
+    vi.spyOn(console, 'log').mockImplementation((...args) => {
+      output.push(args.join(' '));
+    });
+    vi.resetModules();
+  });
+
+  afterEach(async () => {
+    const { setLettaTransport } = await import('./letta_client.js');
+    setLettaTransport(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.resetModules();
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('reports status with no agent or sessions', async () => {
+    const { cli } = await loadModules();
+
+    await cli.cmdStatus(cwd);
+
+    expect(printed()).toContain('Agent:       not configured (imported on next hook)');
+    expect(printed()).toContain('Sessions:    0');
+    expect(printed()).toContain('Outbox:      0 pending');
+    expect(printed()).toContain('Daemon:      off');
+  });
+
+  it('reports the agent, sessions and failing outbox entries in status', async () => {
+    vi.stubEnv('LETTA_AGENT_ID', 'agent-env');
+    const { cli, utils, outbox } = await loadModules();
+    utils.saveSyncState(cwd, { sessionId: 's1', conversationId: 'conv-1', lastProcessedIndex: 4 });
+    const entry = outbox.enqueueOutboxEntry(cwd, {
+      sessionId: 's1',
+      conversationId: 'conv-1',
+      agentId: 'agent-env',
+      cwd,
+      message: 'hello',
+      sdkToolsMode: 'read-only',
+    });
+    outbox.recordOutboxFailure(cwd, entry, 'Letta API error (503)');
+
+    await cli.cmdStatus(cwd);
+
+    expect(printed()).toContain('Agent:       agent-env (LETTA_AGENT_ID)');
+    expect(printed()).toContain('Sessions:    1');
+    expect(printed()).toContain('Outbox:      1 pending');
+    expect(printed()).toContain('1 retrying, last error: Letta API error (503)');
+  });
+
+  it('lists sessions from state files and the conversations map', async () => {
+    const { cli, utils } = await loadModules();
+
+    cli.cmdSessions(cwd);
+    expect(printed()).toContain('No sessions found');
+
+    output = [];
+    utils.saveSyncState(cwd, { sessionId: 's1', conversationId: 'conv-1', lastProcessedIndex: 7 });
+    utils.saveConversationsMap(cwd, { version: 1, sessions: { s2: { conversationId: 'conv-2', agentId: 'agent-1' } } });
+    cli.cmdSessions(cwd);
+
+    expect(output).toContain('s1');
+    expect(output).toContain('  Conversation:  conv-1');
+    expect(output).toContain('  Last index:    7');
+    expect(output).toContain('s2');
+    expect(output).toContain('  Conversation:  conv-2');
+    expect(output).toContain('  Agent:         agent-1');
+  });
+
+  it('shows the configured agent and its blocks', async () => {
+    vi.stubEnv('LETTA_API_KEY', 'test-key');
+    const { cli, FakeLettaServer, setLettaTransport } = await loadModules();
+    const server = new FakeLettaServer();
+    const agent = server.addAgent({ name: 'Sub', blocks: [{ label: 'guidance', value: 'be brief' }] });
+    setLettaTransport(server.fetch);
+    vi.stubEnv('LETTA_AGENT_ID', agent.id);
+
+    await cli.cmdAgent();
+
+    expect(output[0]).toBe(`Sub (${agent.id})`);
+    expect(output[1]).toBe('  Model: anthropic/claude-sonnet-4-5');
+    expect(printed()).toContain('Memory blocks (1):');
+    expect(printed()).toContain('be brief');
+  });
+
+  it('does not import an agent when none is configured', async () => {
+    vi.stubEnv('LETTA_API_KEY', 'test-key');
+    const { cli, FakeLettaServer, setLettaTransport, getConfigPath } = await loadModules();
+    const server = new FakeLettaServer();
+    setLettaTransport(server.fetch);
+
+    await cli.cmdAgent();
+
+    expect(printed()).toBe('No agent configured (imported on next hook)');
+    expect(server.requests).toHaveLength(0);
+    expect(server.agents.size).toBe(0);
+    expect(fs.existsSync(getConfigPath())).toBe(false);
+  });
+
+  it('resets a session and drops its pending deliveries', async () => {
+    const { cli, utils, outbox } = await loadModules();
+    utils.saveSyncState(cwd, { sessionId: 's1', conversationId: 'conv-1', lastProcessedIndex: 3 });
+    utils.saveConversationsMap(cwd, { version: 1, sessions: { s1: { conversationId: 'conv-1', agentId: 'agent-1' } } });
+    const fields = { conversationId: 'conv-1', agentId: 'agent-1', cwd, message: 'hello', sdkToolsMode: 'read-only' as const };
+    outbox.enqueueOutboxEntry(cwd, { ...fields, sessionId: 's1' });
+    outbox.enqueueOutboxEntry(cwd, { ...fields, sessionId: 's2' });
+
+    await cli.cmdReset(cwd, 's1');
+
+    expect(output[0]).toBe('Reset session s1 (dropped 1 pending outbox entries)');
+    expect(fs.existsSync(utils.getSyncStateFile(cwd, 's1'))).toBe(false);
+    expect(utils.loadConversationsMap(cwd).sessions).toEqual({});
+    expect(outbox.listOutboxEntries(cwd).map(e => e.sessionId)).toEqual(['s2']);
+
+    output = [];
+    await cli.cmdReset(cwd, 's1');
+    expect(printed()).toBe('No state found for session s1');
+
+    await expect(cli.cmdReset(cwd, undefined)).rejects.toThrow('Usage: claude-subconscious reset <session_id>');
+  });
+
+  it('waits for the session lock before resetting', async () => {
+    const { cli, utils } = await loadModules();
+    const { tryAcquireSessionLock, releaseSessionLock } = await import('./session_lock.js');
+    utils.saveSyncState(cwd, { sessionId: 's1', conversationId: 'conv-1', lastProcessedIndex: 3 });
+    expect(tryAcquireSessionLock(cwd, 's1')).toBe(true);
+
+    const reset = cli.cmdReset(cwd, 's1');
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(fs.existsSync(utils.getSyncStateFile(cwd, 's1'))).toBe(true);
+
+    releaseSessionLock(cwd, 's1');
+    await reset;
+    expect(fs.existsSync(utils.getSyncStateFile(cwd, 's1'))).toBe(false);
+    expect(output[0]).toBe('Reset session s1');
+  });
+
+  it('links a session to an existing conversation', async () => {
+    const { cli, utils } = await loadModules();
+
+    expect(() => cli.cmdLink(cwd, 's1', 'conv-9')).toThrow('No agent configured yet');
+
+    vi.stubEnv('LETTA_AGENT_ID', 'agent-env');
+    cli.cmdLink(cwd, 's1', 'conv-9');
+
+    expect(printed()).toBe('Linked session s1 to conversation conv-9');
+    expect(utils.loadConversationsMap(cwd).sessions.s1).toEqual({ conversationId: 'conv-9', agentId: 'agent-env' });
+    expect(utils.loadSyncState(cwd, 's1').conversationId).toBe('conv-9');
+
+    expect(() => cli.cmdLink(cwd, 's1', undefined)).toThrow('Usage: claude-subconscious link <session_id> <conversation_id>');
+  });
+});
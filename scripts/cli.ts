@@ -0,0 +1,298 @@
+#!/usr/bin/env npx tsx
+/**
+ * Claude Subconscious CLI
+ *
+ * Inspect and manage the plugin's local state without digging through
+ * ~/.letta/claude-subconscious/config.json and .letta/claude/ by hand.
+ *
+ * Usage:
+ *   npx claude-subconscious status                     Agent, mode and state overview
+ *   npx claude-subconscious sessions                   List sessions and their conversations
+ *   npx claude-subconscious agent                      Show the agent and its memory blocks
+ *   npx claude-subconscious reset <session_id>         Forget a session (next hook starts fresh)
+ *   npx claude-subconscious link <session_id> <conversation_id>
+ *                                                      Re-link a session to an existing conversation
+ *
+ * Options:
+ *   --cwd <dir>  Project directory (defaults to the current directory)
+ *
+ * Environment Variables:
+ *   LETTA_API_KEY - Required for `agent`
+ *   LETTA_HOME, LETTA_AGENT_ID, LETTA_BASE_URL - Same meaning as in the hooks
+ */
+
+import * as fs from 'fs';
+import {
+  getAgentModelHandle,
+  getConfiguredAgentId,
+  getConfigPath,
+  readConfig,
+  AgentDetails,
+} from './agent_config.js';
+import {
+  deleteSyncState,
+  getDurableStateDir,
+  getMode,
+  getSdkToolsMode,
+  getSyncStateFile,
+  isMainModule,
+  listSessionIds,
+  loadConversationsMap,
+  loadSyncState,
+  saveConversationsMap,
+  saveSyncState,
+  Agent,
+  LETTA_API_BASE,
+} from './conversation_utils.js';
+import { getDaemonStatus, isDaemonEnabled } from './daemon_client.js';
+import { createLettaClient } from './letta_client.js';
+import {
+  getOutboxDir,
+  listOutboxEntries,
+  removeOutboxEntry,
+} from './outbox.js';
+import { withSessionLock } from './session_lock.js';
+
+interface CliArgs {
+  command: string;
+  positional: string[];
+  cwd: string;
+}
+
+const USAGE = `Usage: claude-subconscious <command> [options]
+
+Commands:
+  status                                 Agent, mode and state overview
+  sessions                               List sessions and their conversations
+  agent                                  Show the agent and its memory blocks
+  reset <session_id>                     Forget a session (next hook starts fresh)
+  link <session_id> <conversation_id>    Re-link a session to an existing conversation
+
+Options:
+  --cwd <dir>  Project directory (defaults to the current directory)`;
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  let cwd = process.env.CLAUDE_PROJECT_DIR || process.cwd();
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--cwd' && argv[i + 1]) {
+      cwd = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { command: positional.shift() || 'help', positional, cwd };
+}
+
+/**
+ * Look up the conversation for a session from state or the conversations map
+ */
+function describeSession(cwd: string, sessionId: string) {
+  const state = loadSyncState(cwd, sessionId);
+  const entry = loadConversationsMap(cwd).sessions[sessionId];
+  const statePath = getSyncStateFile(cwd, sessionId);
+  const updatedAt = fs.existsSync(statePath) ? fs.statSync(statePath).mtime : null;
+  const pending = listOutboxEntries(cwd).filter(e => e.sessionId === sessionId).length;
+
+  return {
+    sessionId,
+    conversationId: state.conversationId || entry?.conversationId || null,
+    agentId: entry?.agentId || null,
+    lastProcessedIndex: state.lastProcessedIndex,
+    updatedAt,
+    pending,
+  };
+}
+
+function listSessions(cwd: string) {
+  const ids = new Set([...listSessionIds(cwd), ...Object.keys(loadConversationsMap(cwd).sessions)]);
+  return Array.from(ids)
+    .map(id => describeSession(cwd, id))
+    .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0));
+}
+
+export async function cmdStatus(cwd: string): Promise<void> {
+  const configured = getConfiguredAgentId();
+  const config = readConfig();
+  const sessions = listSessions(cwd);
+  const pending = listOutboxEntries(cwd);
+
+  console.log('Claude Subconscious');
+  console.log('');
+  console.log(`  Agent:       ${configured ? `${configured.agentId} (${configured.source === 'env' ? 'LETTA_AGENT_ID' : 'saved config'})` : 'not configured (imported on next hook)'}`);
+  if (config.model) {
+    console.log(`  Model:       ${config.model}`);
+  }
+  console.log(`  Mode:        ${getMode()}`);
+  console.log(`  SDK Tools:   ${getSdkToolsMode()}`);
+  console.log(`  Server:      ${LETTA_API_BASE}`);
+  console.log(`  Config:      ${getConfigPath()}`);
+  console.log(`  State dir:   ${getDurableStateDir(cwd)}`);
+  console.log(`  Sessions:    ${sessions.length}`);
+  console.log(`  Outbox:      ${pending.length} pending${pending.length > 0 ? ` (${getOutboxDir(cwd)})` : ''}`);
+
+  const failing = pending.filter(e => e.attempts > 0);
+  if (failing.length > 0) {
+    const last = failing[failing.length - 1];
+    console.log(`               ${failing.length} retrying, last error: ${last.lastError}`);
+  }
+
+  const daemon = await getDaemonStatus();
+  if (daemon) {
+    console.log(`  Daemon:      running (PID ${daemon.pid}, since ${daemon.startedAt}), ${daemon.sessions.length} warm session(s), ${daemon.sent} sent, ${daemon.failed} failed`);
+    if (daemon.lastError) {
+      console.log(`               last error: ${daemon.lastError}`);
+    }
+  } else {
+    console.log(`  Daemon:      ${isDaemonEnabled() ? 'not running (starts on next delivery)' : 'off'}`);
+  }
+}
+
+export function cmdSessions(cwd: string): void {
+  const sessions = listSessions(cwd);
+  if (sessions.length === 0) {
+    console.log(`No sessions found in ${getDurableStateDir(cwd)}`);
+    return;
+  }
+
+  for (const session of sessions) {
+    console.log(session.sessionId);
+    console.log(`  Conversation:  ${session.conversationId || '(none)'}`);
+    if (session.agentId) {
+      console.log(`  Agent:         ${session.agentId}`);
+    }
+    console.log(`  Last index:    ${session.lastProcessedIndex}`);
+    console.log(`  Updated:       ${session.updatedAt ? session.updatedAt.toISOString() : 'unknown'}`);
+    if (session.pending > 0) {
+      console.log(`  Outbox:        ${session.pending} pending`);
+    }
+  }
+}
+
+export async function cmdAgent(): Promise<void> {
+  const apiKey = process.env.LETTA_API_KEY;
+  if (!apiKey) {
+    throw new Error('LETTA_API_KEY must be set');
+  }
+
+  // Only look at the configured agent; importing one is the hooks' job
+  const configured = getConfiguredAgentId();
+  if (!configured) {
+    console.log('No agent configured (imported on next hook)');
+    return;
+  }
+
+  const agent = await createLettaClient(apiKey).getAgent<Agent & AgentDetails>(configured.agentId, { includeBlocks: true });
+  const modelHandle = getAgentModelHandle(agent) || 'unknown';
+
+  console.log(`${agent.name || 'Unnamed Agent'} (${agent.id})`);
+  console.log(`  Model: ${modelHandle}`);
+  if (agent.description) {
+    console.log(`  ${agent.description}`);
+  }
+
+  const blocks = agent.blocks || [];
+  console.log('');
+  console.log(`Memory blocks (${blocks.length}):`);
+  for (const block of blocks) {
+    console.log('');
+    console.log(`── ${block.label} (${(block.value || '').length} chars) ──`);
+    if (block.description) {
+      console.log(`   ${block.description}`);
+    }
+    console.log(block.value || '(empty)');
+  }
+}
+
+export async function cmdReset(cwd: string, sessionId: string | undefined): Promise<void> {
+  if (!sessionId) {
+    throw new Error('Usage: claude-subconscious reset <session_id>');
+  }
+
+  // Hold the session lock so a running hook or worker can't write it back
+  return withSessionLock(cwd, sessionId, () => {
+    const map = loadConversationsMap(cwd);
+    const hadMapping = sessionId in map.sessions;
+    delete map.sessions[sessionId];
+    saveConversationsMap(cwd, map);
+
+    const hadState = deleteSyncState(cwd, sessionId);
+
+    // Pending deliveries target the old conversation; drop them too
+    const dropped = listOutboxEntries(cwd).filter(e => e.sessionId === sessionId);
+    for (const entry of dropped) {
+      removeOutboxEntry(cwd, entry.id);
+    }
+
+    if (!hadMapping && !hadState && dropped.length === 0) {
+      console.log(`No state found for session ${sessionId}`);
+      return;
+    }
+    console.log(`Reset session ${sessionId}${dropped.length > 0 ? ` (dropped ${dropped.length} pending outbox entries)` : ''}`);
+    console.log('The next hook will create a new conversation and resend the transcript.');
+  });
+}
+
+export function cmdLink(cwd: string, sessionId: string | undefined, conversationId: string | undefined): void {
+  if (!sessionId || !conversationId) {
+    throw new Error('Usage: claude-subconscious link <session_id> <conversation_id>');
+  }
+
+  const configured = getConfiguredAgentId();
+  if (!configured) {
+    throw new Error('No agent configured yet; run a Claude Code session first or set LETTA_AGENT_ID');
+  }
+
+  const map = loadConversationsMap(cwd);
+  map.sessions[sessionId] = { conversationId, agentId: configured.agentId };
+  saveConversationsMap(cwd, map);
+
+  const state = loadSyncState(cwd, sessionId);
+  state.conversationId = conversationId;
+  saveSyncState(cwd, state);
+
+  console.log(`Linked session ${sessionId} to conversation ${conversationId}`);
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    switch (args.command) {
+      case 'status':
+        await cmdStatus(args.cwd);
+        break;
+      case 'sessions':
+        cmdSessions(args.cwd);
+        break;
+      case 'agent':
+        await cmdAgent();
+        break;
+      case 'reset':
+        await cmdReset(args.cwd, args.positional[0]);
+        break;
+      case 'link':
+        cmdLink(args.cwd, args.positional[0], args.positional[1]);
+        break;
+      case 'help':
+      case '--help':
+      case '-h':
+        console.log(USAGE);
+        break;
+      default:
+        console.error(`Unknown command: ${args.command}\n`);
+        console.error(USAGE);
+        process.exit(1);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  main();
+}
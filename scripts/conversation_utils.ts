@@ -8,10 +8,16 @@ import * as os from 'os';
 import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
 import { fileURLToPath } from 'url';
+import { BlockPolicy } from './block_policy.js';
+import { LETTA_API_BASE } from './letta_api_url.js';
+import { createLettaClient } from './letta_client.js';
+import { TranscriptCursor } from './transcript_utils.js';
 import {
-  buildLettaApiUrl,
-  LETTA_API_BASE,
-} from './letta_api_url.js';
+  CONVERSATIONS_MAP_VERSION,
+  migrateConversationsMap,
+  migrateSyncState,
+  SYNC_STATE_VERSION,
+} from './state_migrations.js';
 
 // ESM-compatible __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -88,20 +94,25 @@ export function getSdkToolsMode(): SdkToolsMode {
 
 // Types
 export interface SyncState {
+  version?: number;  // Stamped on save, see state_migrations.ts
   lastProcessedIndex: number;
+  lastQueuedIndex?: number;  // Highest transcript index already handed to the outbox
+  transcriptCursor?: TranscriptCursor;  // Where reading resumes, at lastQueuedIndex
   sessionId: string;
   conversationId?: string;
   lastBlockValues?: { [label: string]: string };
   lastSeenMessageId?: string;  // Track last message ID we've shown to avoid duplicates
+  subagentTranscripts?: string[];  // Separate subagent transcripts, recorded by the SubagentStop hook
 }
 
 export interface ConversationEntry {
   conversationId: string;
-  agentId: string;
+  agentId: string | null;  // null for mappings saved before the agent was recorded
 }
 
 export interface ConversationsMap {
-  [sessionId: string]: string | ConversationEntry;
+  version: number;
+  sessions: { [sessionId: string]: ConversationEntry };
 }
 
 export interface Conversation {
@@ -153,6 +164,17 @@ export function getSyncStateFile(cwd: string, sessionId: string): string {
   return path.join(getDurableStateDir(cwd), `session-${sessionId}.json`);
 }
 
+/**
+ * Write JSON to a temp file and rename it into place, so a concurrent
+ * reader or a crash mid-write never sees a half-written file
+ */
+export function writeJsonFileAtomic(filePath: string, data: unknown, indent: number = 2): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, indent), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
 /**
  * Ensure durable state directory exists
  */
@@ -164,14 +186,19 @@ export function ensureDurableStateDir(cwd: string): void {
 }
 
 /**
- * Load sync state for a session
+ * Load sync state for a session, upgrading an older file in place
  */
 export function loadSyncState(cwd: string, sessionId: string, log: LogFn = noopLog): SyncState {
   const statePath = getSyncStateFile(cwd, sessionId);
   
   if (fs.existsSync(statePath)) {
     try {
-      const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+      const { value: state, migrated, fromVersion } = migrateSyncState(JSON.parse(fs.readFileSync(statePath, 'utf-8')));
+      state.sessionId = sessionId;
+      if (migrated) {
+        log(`Migrated state from version ${fromVersion} to ${SYNC_STATE_VERSION}`);
+        saveSyncState(cwd, state);
+      }
       log(`Loaded state: lastProcessedIndex=${state.lastProcessedIndex}`);
       return state;
     } catch (e) {
@@ -187,57 +214,69 @@ export function loadSyncState(cwd: string, sessionId: string, log: LogFn = noopL
  * Save sync state for a session
  */
 export function saveSyncState(cwd: string, state: SyncState, log: LogFn = noopLog): void {
-  ensureDurableStateDir(cwd);
-  const statePath = getSyncStateFile(cwd, state.sessionId);
-  fs.writeFileSync(statePath, JSON.stringify(state, null, 2), 'utf-8');
+  writeJsonFileAtomic(getSyncStateFile(cwd, state.sessionId), { ...state, version: SYNC_STATE_VERSION });
   log(`Saved state: lastProcessedIndex=${state.lastProcessedIndex}, conversationId=${state.conversationId}`);
 }
 
 /**
- * Load conversations mapping
+ * Delete sync state for a session
+ */
+export function deleteSyncState(cwd: string, sessionId: string): boolean {
+  const statePath = getSyncStateFile(cwd, sessionId);
+  if (!fs.existsSync(statePath)) {
+    return false;
+  }
+  fs.unlinkSync(statePath);
+  return true;
+}
+
+/**
+ * List session IDs that have sync state in this project
+ */
+export function listSessionIds(cwd: string): string[] {
+  const dir = getDurableStateDir(cwd);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(f => f.startsWith('session-') && f.endsWith('.json'))
+    .map(f => f.slice('session-'.length, -'.json'.length));
+}
+
+/**
+ * Load conversations mapping, upgrading an older file in place
  */
 export function loadConversationsMap(cwd: string, log: LogFn = noopLog): ConversationsMap {
   const filePath = getConversationsFile(cwd);
   if (fs.existsSync(filePath)) {
     try {
-      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const { value: map, migrated, fromVersion } = migrateConversationsMap(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+      if (migrated) {
+        log(`Migrated conversations map from version ${fromVersion} to ${CONVERSATIONS_MAP_VERSION}`);
+        saveConversationsMap(cwd, map);
+      }
+      return map;
     } catch (e) {
       log(`Failed to load conversations map: ${e}`);
     }
   }
-  return {};
+  return { version: CONVERSATIONS_MAP_VERSION, sessions: {} };
 }
 
 /**
  * Save conversations mapping
  */
 export function saveConversationsMap(cwd: string, map: ConversationsMap): void {
-  ensureDurableStateDir(cwd);
-  fs.writeFileSync(getConversationsFile(cwd), JSON.stringify(map, null, 2), 'utf-8');
+  writeJsonFileAtomic(getConversationsFile(cwd), { ...map, version: CONVERSATIONS_MAP_VERSION });
 }
 
 /**
  * Create a new conversation for an agent
  */
 export async function createConversation(apiKey: string, agentId: string, log: LogFn = noopLog): Promise<string> {
-  const url = buildLettaApiUrl('/conversations/', { agent_id: agentId });
-  
   log(`Creating new conversation for agent ${agentId}`);
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to create conversation: ${response.status} ${errorText}`);
-  }
 
-  const conversation: Conversation = await response.json();
+  const conversation = await createLettaClient(apiKey).createConversation<Conversation>(agentId);
   log(`Created conversation: ${conversation.id}`);
   return conversation.id;
 }
@@ -261,32 +300,15 @@ export async function getOrCreateConversation(
 
   // Check the conversations map
   const conversationsMap = loadConversationsMap(cwd, log);
-  const cached = conversationsMap[sessionId];
-
-  if (cached) {
-    // Parse both old format (string) and new format (object)
-    const entry = typeof cached === 'string'
-      ? { conversationId: cached, agentId: null as string | null }
-      : cached;
+  const entry = conversationsMap.sessions[sessionId];
 
+  if (entry) {
     if (entry.agentId && entry.agentId !== agentId) {
       // Agent ID changed - clear stale entry and create new conversation
       log(`Agent ID changed (${entry.agentId} -> ${agentId}), clearing stale conversation`);
-      delete conversationsMap[sessionId];
-      const conversationId = await createConversation(apiKey, agentId, log);
-      conversationsMap[sessionId] = { conversationId, agentId };
-      saveConversationsMap(cwd, conversationsMap);
-      state.conversationId = conversationId;
-      return conversationId;
     } else if (!entry.agentId) {
-      // Old format without agentId - upgrade by recreating
-      log(`Upgrading old format entry (no agentId stored), creating new conversation`);
-      delete conversationsMap[sessionId];
-      const conversationId = await createConversation(apiKey, agentId, log);
-      conversationsMap[sessionId] = { conversationId, agentId };
-      saveConversationsMap(cwd, conversationsMap);
-      state.conversationId = conversationId;
-      return conversationId;
+      // Legacy entry without agentId - upgrade by recreating
+      log(`Upgrading legacy entry (no agentId stored), creating new conversation`);
     } else {
       // Valid entry with matching agentId - reuse
       log(`Found conversation in map: ${entry.conversationId}`);
@@ -295,11 +317,11 @@ export async function getOrCreateConversation(
     }
   }
 
-  // No existing entry - create a new conversation
+  // No usable entry - create a new conversation
   const conversationId = await createConversation(apiKey, agentId, log);
 
   // Save to map and state
-  conversationsMap[sessionId] = { conversationId, agentId };
+  conversationsMap.sessions[sessionId] = { conversationId, agentId };
   saveConversationsMap(cwd, conversationsMap);
   state.conversationId = conversationId;
 
@@ -310,26 +332,7 @@ export async function getOrCreateConversation(
  * Look up an existing conversation from conversations.json without creating a new one
  */
 export function lookupConversation(cwd: string, sessionId: string): string | null {
-  const conversationsFile = getConversationsFile(cwd);
-
-  if (!fs.existsSync(conversationsFile)) {
-    return null;
-  }
-
-  try {
-    const content = fs.readFileSync(conversationsFile, 'utf-8');
-    const conversationsMap: ConversationsMap = JSON.parse(content);
-    const cached = conversationsMap[sessionId];
-
-    if (!cached) {
-      return null;
-    }
-
-    // Handle both legacy (string) and current (object) formats
-    return typeof cached === 'string' ? cached : cached.conversationId;
-  } catch {
-    return null;
-  }
+  return loadConversationsMap(cwd).sessions[sessionId]?.conversationId ?? null;
 }
 
 // ============================================
@@ -357,24 +360,7 @@ export interface Agent {
  * Fetch agent data from Letta API
  */
 export async function fetchAgent(apiKey: string, agentId: string): Promise<Agent> {
-  const url = buildLettaApiUrl(`/agents/${agentId}`, {
-    include: 'agent.blocks',
-  });
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Letta API error (${response.status}): ${errorText}`);
-  }
-
-  return response.json();
+  return createLettaClient(apiKey).getAgent<Agent>(agentId, { includeBlocks: true });
 }
 
 // ============================================
@@ -571,11 +557,22 @@ export function cleanLettaFromClaudeMd(projectDir: string): void {
 }
 
 /**
- * Format all memory blocks for stdout injection (whisper mode, first prompt)
+ * Format all memory blocks for stdout injection (full mode, first prompt).
+ * Blocks cut down to their relevant sections are marked `excerpt`, and
+ * blocks left out are listed with their descriptions (see block_relevance.ts).
+ * Blocks the injection policy doesn't show on the first prompt are skipped
+ * (see block_policy.ts).
  */
-export function formatAllBlocksForStdout(agent: Agent, conversationId: string | null): string {
+export function formatAllBlocksForStdout(
+  agent: Agent,
+  conversationId: string | null,
+  leftOut: { partial?: string[]; omitted?: MemoryBlock[] } = {},
+  policy?: BlockPolicy,
+): string {
   const agentName = agent.name || 'Unnamed Agent';
-  const blocks = agent.blocks;
+  // Blocks the policy keeps for Sub are neither shown nor listed as omitted
+  const injected = (block: MemoryBlock) => !policy || policy.onFirstPrompt(block.label);
+  const blocks = agent.blocks?.filter(injected);
 
   // Build agent info header
   let locationInfo: string;
@@ -601,21 +598,31 @@ ${capabilityLine}
 ${locationInfo}
 </letta_context>`;
 
+  const omitted = (leftOut.omitted || []).filter(injected);
+  const omittedList = omitted.length === 0 ? '' : `
+
+<omitted_memory_blocks>
+<!-- Left out as less relevant to this prompt; ask Sub if you need them -->
+${omitted.map(block => `${block.label}: ${escapeXmlContent(block.description || '')}`).join('\n')}
+</omitted_memory_blocks>`;
+
   if (!blocks || blocks.length === 0) {
-    return header;
+    return header + omittedList;
   }
 
+  const partial = new Set(leftOut.partial || []);
   const formattedBlocks = blocks.map(block => {
     const escapedDescription = escapeXmlAttribute(block.description || '');
     const escapedContent = escapeXmlContent(block.value || '');
-    return `<${block.label} description="${escapedDescription}">\n${escapedContent}\n</${block.label}>`;
+    const excerpt = partial.has(block.label) ? ' excerpt="true"' : '';
+    return `<${block.label} description="${escapedDescription}"${excerpt}>\n${escapedContent}\n</${block.label}>`;
   }).join('\n');
 
   return `${header}
 
 <letta_memory_blocks>
 ${formattedBlocks}
-</letta_memory_blocks>`;
+</letta_memory_blocks>${omittedList}`;
 }
 
 // ============================================
@@ -636,7 +643,7 @@ const NPX_CMD = process.platform === 'win32' ? 'npx.cmd' : 'npx';
  */
 export function spawnSilentWorker(
   workerScript: string,
-  payloadFile: string,
+  workerArg: string,
   cwd: string,
 ): ChildProcess {
   const isWindows = process.platform === 'win32';
@@ -655,7 +662,7 @@ export function spawnSilentWorker(
     delete workerEnv.SL_STDOUT_FILE;
 
     if (fs.existsSync(silentLauncher) && fs.existsSync(tsxCli)) {
-      child = spawn(silentLauncher, ['node', tsxCli, workerScript, payloadFile], {
+      child = spawn(silentLauncher, ['node', tsxCli, workerScript, workerArg], {
         detached: true,
         stdio: 'ignore',
         cwd,
@@ -664,7 +671,7 @@ export function spawnSilentWorker(
       });
     } else if (fs.existsSync(tsxCli)) {
       // Fallback: direct node (may be killed when PseudoConsole closes)
-      child = spawn(process.execPath, [tsxCli, workerScript, payloadFile], {
+      child = spawn(process.execPath, [tsxCli, workerScript, workerArg], {
         stdio: 'ignore',
         cwd,
         env: workerEnv,
@@ -672,7 +679,7 @@ export function spawnSilentWorker(
       });
     } else {
       // Fallback: use npx through shell (may flash console window)
-      child = spawn(NPX_CMD, ['tsx', workerScript, payloadFile], {
+      child = spawn(NPX_CMD, ['tsx', workerScript, workerArg], {
         stdio: 'ignore',
         cwd,
         env: workerEnv,
@@ -685,7 +692,7 @@ export function spawnSilentWorker(
     // npx tsx resolves to a global cache that can't find @letta-ai/letta-code-sdk.
     const tsxCli = path.join(__dirname, '..', 'node_modules', 'tsx', 'dist', 'cli.mjs');
     if (fs.existsSync(tsxCli)) {
-      child = spawn(process.execPath, [tsxCli, workerScript, payloadFile], {
+      child = spawn(process.execPath, [tsxCli, workerScript, workerArg], {
         detached: true,
         stdio: 'ignore',
         cwd,
@@ -693,7 +700,7 @@ export function spawnSilentWorker(
       });
     } else {
       // Fallback: npx (may fail if dependencies aren't in global cache)
-      child = spawn(NPX_CMD, ['tsx', workerScript, payloadFile], {
+      child = spawn(NPX_CMD, ['tsx', workerScript, workerArg], {
         detached: true,
         stdio: 'ignore',
         cwd,
@@ -704,3 +711,19 @@ export function spawnSilentWorker(
   child.unref();
   return child;
 }
+
+/**
+ * Check whether a module is the script being run, rather than imported
+ * (e.g. by a test). Hook scripts only call main() when this is true.
+ */
+export function isMainModule(moduleUrl: string): boolean {
+  const entry = process.argv[1];
+  if (!entry) {
+    return false;
+  }
+  try {
+    return fs.realpathSync(entry) === fs.realpathSync(fileURLToPath(moduleUrl));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * SDK Daemon Client
+ *
+ * How the hooks talk to the optional background daemon (sdk_daemon.ts).
+ * With LETTA_DAEMON=on, hooks hand outbox deliveries to the daemon, which
+ * keeps Letta Code SDK sessions warm, instead of spawning a cold
+ * send_worker_sdk.ts process each time. The daemon is started on demand by
+ * the first hook that needs it.
+ *
+ * Protocol: one newline-terminated JSON request per connection on a unix
+ * socket (a named pipe on Windows), answered with one JSON line.
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { getTempStateDir, LogFn, spawnSilentWorker } from './conversation_utils.js';
+import { DrainResult } from './outbox.js';
+import { PooledSessionInfo } from './sdk_sender.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+// ESM-compatible __dirname
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 2000;
+
+export type DaemonRequest =
+  | { type: 'drain'; cwd: string; sessionId?: string; ignoreBackoff?: boolean; wait?: boolean }
+  | { type: 'status' }
+  | { type: 'shutdown' };
+
+export interface DaemonProjectStatus {
+  cwd: string;
+  /** Drains running or waiting for this project */
+  queued: number;
+  lastDrainAt?: string;
+  lastResult?: DrainResult;
+}
+
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+  lastActivityAt: string;
+  sent: number;
+  failed: number;
+  lastError?: string;
+  projects: DaemonProjectStatus[];
+  sessions: PooledSessionInfo[];
+}
+
+export type DaemonResponse =
+  | { ok: true; result?: DrainResult; status?: DaemonStatus }
+  | { ok: false; error: string };
+
+/**
+ * Whether hooks should deliver through the daemon (LETTA_DAEMON=on)
+ */
+export function isDaemonEnabled(): boolean {
+  return process.env.LETTA_DAEMON?.toLowerCase() === 'on';
+}
+
+/**
+ * Get the daemon's socket path (one daemon per user)
+ */
+export function getDaemonSocketPath(): string {
+  if (process.platform === 'win32') {
+    const user = os.userInfo().username.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `\\\\.\\pipe\\letta-claude-sync-${user}-daemon`;
+  }
+  return path.join(getTempStateDir(), 'daemon.sock');
+}
+
+/**
+ * Send a request to the daemon. Resolves null if no daemon is listening or
+ * it doesn't answer within the timeout.
+ */
+export function requestDaemon(
+  request: DaemonRequest,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS,
+  socketPath: string = getDaemonSocketPath(),
+): Promise<DaemonResponse | null> {
+  return new Promise((resolve) => {
+    let data = '';
+    let settled = false;
+    const finish = (response: DaemonResponse | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(response);
+    };
+
+    const socket = net.createConnection(socketPath, () => {
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      data += chunk;
+      const newline = data.indexOf('\n');
+      if (newline === -1) return;
+      try {
+        finish(JSON.parse(data.slice(0, newline)));
+      } catch {
+        finish(null);
+      }
+    });
+    socket.on('error', () => finish(null));
+    socket.on('close', () => finish(null));
+  });
+}
+
+/**
+ * Get the running daemon's status, or null if it isn't running
+ */
+export async function getDaemonStatus(timeoutMs?: number): Promise<DaemonStatus | null> {
+  const response = await requestDaemon({ type: 'status' }, timeoutMs);
+  return response?.ok ? response.status || null : null;
+}
+
+/**
+ * Get a delivery started for the project's outbox: through the daemon when
+ * enabled (starting it if needed), otherwise by spawning a one-shot worker.
+ */
+export async function deliverOutbox(cwd: string, log: LogFn = noopLog): Promise<void> {
+  if (!isDaemonEnabled()) {
+    const child = spawnSilentWorker(path.join(__dirname, 'send_worker_sdk.ts'), cwd, cwd);
+    log(`Spawned SDK worker (PID: ${child.pid})`);
+    return;
+  }
+
+  const response = await requestDaemon({ type: 'drain', cwd });
+  if (response?.ok) {
+    log('Handed outbox to SDK daemon');
+    return;
+  }
+  if (response) {
+    log(`SDK daemon rejected drain: ${response.error}`);
+  }
+
+  // The new daemon drains this project as soon as it is listening. If it
+  // fails to start, the entries stay queued for the next hook.
+  const child = spawnSilentWorker(path.join(__dirname, 'sdk_daemon.ts'), cwd, cwd);
+  log(`Started SDK daemon (PID: ${child.pid})`);
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for edit_diffs.ts
+ *
+ * Covers diffs for Edit, MultiEdit and Write input, the size caps, and how
+ * diffs appear in formatted transcripts.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatEditDiff } from './edit_diffs.js';
+import { createToolFormatterRegistry } from './tool_formatters.js';
+import { formatMessagesForLetta } from './transcript_utils.js';
+
+describe('formatEditDiff', () => {
+  it('diffs an Edit with surrounding context', () => {
+    const oldString = ['function add(a, b) {', '  // sum', '  return a - b;', '}'].join('\n');
+    const newString = ['function add(a, b) {', '  // sum', '  return a + b;', '}'].join('\n');
+
+    expect(formatEditDiff('Edit', { file_path: '/m.ts', old_string: oldString, new_string: newString })).toBe([
+      '@@',
+      ' function add(a, b) {',
+      '   // sum',
+      '-  return a - b;',
+      '+  return a + b;',
+      ' }',
+    ].join('\n'));
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 12 }, (_, i) => `line ${i}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 1';
+    newLines[10] = 'changed 10';
+
+    const diff = formatEditDiff('Edit', { old_string: oldLines.join('\n'), new_string: newLines.join('\n') });
+
+    expect(diff.split('\n').filter(line => line === '@@')).toHaveLength(2);
+    expect(diff).not.toContain('line 5');
+  });
+
+  it('concatenates MultiEdit diffs and shows Write content as additions', () => {
+    const multi = formatEditDiff('MultiEdit', {
+      edits: [
+        { old_string: 'a', new_string: 'b' },
+        { old_string: 'x', new_string: 'y' },
+      ],
+    });
+    expect(multi).toBe(['@@', '-a', '+b', '@@', '-x', '+y'].join('\n'));
+
+    expect(formatEditDiff('Write', { content: 'one\ntwo' })).toBe(['@@', '+one', '+two'].join('\n'));
+    expect(formatEditDiff('Read', { file_path: '/a.ts' })).toBe('');
+  });
+
+  it('caps long diffs', () => {
+    const content = Array.from({ length: 200 }, (_, i) => `row ${i}`).join('\n');
+
+    const diff = formatEditDiff('Write', { content }, 10).split('\n');
+
+    expect(diff).toHaveLength(11);
+    expect(diff[10]).toBe('[191 more diff lines]');
+    expect(formatEditDiff('Write', { content }, 0)).toBe('');
+  });
+});
+
+describe('edit diffs in transcripts', () => {
+  it('puts the diff under the tool call line', () => {
+    const entries = formatMessagesForLetta([
+      {
+        type: 'assistant',
+        message: {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'Edit', input: { file_path: '/a.ts', old_string: 'let x = 1;', new_string: 'const x = 1;' } }],
+        },
+      },
+    ], -1, undefined, createToolFormatterRegistry());
+
+    expect(entries[0].text).toBe('/a.ts\n@@\n-let x = 1;\n+const x = 1;');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Edit Diffs
+ *
+ * Compact diffs of what Edit, MultiEdit and Write calls change, built from
+ * the tool input, so Sub sees the change itself instead of only a file path
+ * and doesn't have to re-read a file that may have moved on since. A Write
+ * shows the new content as added lines. Diffs are capped in lines and
+ * characters.
+ */
+
+import { diffLines, formatUnifiedDiff } from './line_diff.js';
+
+export const DIFF_MAX_LINES = 60;
+const DIFF_MAX_CHARS = 4000;
+const DIFF_LINE_MAX_CHARS = 200;
+const DIFF_CONTEXT_LINES = 2;
+
+function textOf(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function editHunks(oldString: unknown, newString: unknown): string[] {
+  return formatUnifiedDiff(diffLines(textOf(oldString), textOf(newString)), DIFF_CONTEXT_LINES);
+}
+
+/**
+ * Keep at most maxLines diff lines and DIFF_MAX_CHARS characters
+ */
+function capDiff(lines: string[], maxLines: number): string {
+  const kept: string[] = [];
+  let chars = 0;
+  for (const line of lines) {
+    const clipped = line.length > DIFF_LINE_MAX_CHARS ? `${line.slice(0, DIFF_LINE_MAX_CHARS)}...` : line;
+    if (kept.length >= maxLines || chars + clipped.length > DIFF_MAX_CHARS) {
+      break;
+    }
+    kept.push(clipped);
+    chars += clipped.length + 1;
+  }
+
+  const omitted = lines.length - kept.length;
+  if (omitted > 0) {
+    kept.push(`[${omitted} more diff lines]`);
+  }
+  return kept.join('\n');
+}
+
+/**
+ * Diff of the change a file-editing tool call makes, or '' for other tools
+ */
+export function formatEditDiff(toolName: string, input: any, maxLines: number = DIFF_MAX_LINES): string {
+  if (!input || typeof input !== 'object' || maxLines <= 0) {
+    return '';
+  }
+
+  let lines: string[];
+  switch (toolName) {
+    case 'Edit':
+      lines = editHunks(input.old_string, input.new_string);
+      break;
+    case 'MultiEdit':
+      lines = (Array.isArray(input.edits) ? input.edits : [])
+        .flatMap((edit: any) => editHunks(edit?.old_string, edit?.new_string));
+      break;
+    case 'Write':
+      lines = editHunks('', input.content);
+      break;
+    default:
+      return '';
+  }
+
+  return capDiff(lines, maxLines);
+}
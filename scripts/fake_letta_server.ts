@@ -0,0 +1,341 @@
+/**
+ * Fake Letta Server
+ *
+ * In-process stand-in for the Letta REST API, for tests. It keeps agents,
+ * memory blocks, conversations, messages and models in memory and answers
+ * requests through `server.fetch`, a LettaTransport:
+ *
+ *   const server = new FakeLettaServer();
+ *   const agent = server.addAgent({ blocks: [{ label: 'guidance', value: '' }] });
+ *   setLettaTransport(server.fetch);
+ *
+ * GET responses carry an ETag and honour If-None-Match (set
+ * `server.etags = false` to emulate a server without them).
+ *
+ * Only the endpoints the hooks use are implemented. Every request is
+ * recorded in `server.requests` for assertions, `server.fail()` makes
+ * matching requests return an error status, and `server.delay()` makes them
+ * hang (until the client aborts them) to exercise timeouts.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { LettaMessage, LettaTransport } from './letta_client.js';
+
+export interface FakeBlock {
+  label: string;
+  value: string;
+  description?: string;
+  limit?: number;
+}
+
+export interface FakeAgent {
+  id: string;
+  name: string;
+  description?: string;
+  tags: string[];
+  updated_at: string;
+  llm_config: { model: string; handle: string; provider_name?: string; context_window?: number };
+  blocks: FakeBlock[];
+}
+
+export interface FakeConversation {
+  id: string;
+  agent_id: string;
+  created_at: string;
+  messages: LettaMessage[];
+}
+
+export interface FakeModel {
+  model: string;
+  name: string;
+  provider_type: string;
+  handle: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  ifNoneMatch?: string;
+}
+
+interface Failure {
+  method?: string;
+  path: RegExp;
+  status: number;
+  remaining: number;
+}
+
+interface Delay {
+  method?: string;
+  path: RegExp;
+  ms: number;
+  remaining: number;
+}
+
+const DEFAULT_MODELS: FakeModel[] = [
+  { model: 'claude-sonnet-4-5', name: 'claude-sonnet-4-5', provider_type: 'anthropic', handle: 'anthropic/claude-sonnet-4-5' },
+  { model: 'gpt-4.1-mini', name: 'gpt-4.1-mini', provider_type: 'openai', handle: 'openai/gpt-4.1-mini' },
+];
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function notFound(what: string): Response {
+  return json(404, { detail: `${what} not found` });
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
+
+export class FakeLettaServer {
+  readonly agents = new Map<string, FakeAgent>();
+  readonly conversations = new Map<string, FakeConversation>();
+  readonly requests: RecordedRequest[] = [];
+  models: FakeModel[] = [...DEFAULT_MODELS];
+  etags = true;
+
+  /**
+   * Called for every user message posted to a conversation. Return a string
+   * to have the agent reply with it.
+   */
+  onUserMessage?: (conversation: FakeConversation, content: string) => string | void;
+
+  private failures: Failure[] = [];
+  private delays: Delay[] = [];
+  private clock = Date.parse('2026-01-01T00:00:00.000Z');
+
+  /** Transport to hand to LettaClient / setLettaTransport() */
+  readonly fetch: LettaTransport = (url, init) => this.handle(url, init);
+
+  addAgent(overrides: Partial<FakeAgent> = {}): FakeAgent {
+    const agent: FakeAgent = {
+      id: `agent-${randomUUID()}`,
+      name: 'Subconscious',
+      tags: [],
+      updated_at: this.nextDate(),
+      llm_config: { model: 'claude-sonnet-4-5', handle: 'anthropic/claude-sonnet-4-5', provider_name: 'anthropic', context_window: 200000 },
+      blocks: [],
+      ...overrides,
+    };
+    this.agents.set(agent.id, agent);
+    return agent;
+  }
+
+  addConversation(agentId: string): FakeConversation {
+    const conversation: FakeConversation = {
+      id: `conv-${randomUUID()}`,
+      agent_id: agentId,
+      created_at: this.nextDate(),
+      messages: [],
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  addAssistantMessage(conversationId: string, text: string): LettaMessage {
+    return this.addMessage(conversationId, 'assistant_message', text);
+  }
+
+  /**
+   * Make the next `times` requests matching path (and method) fail
+   */
+  fail(path: RegExp, status: number = 500, options: { method?: string; times?: number } = {}): void {
+    this.failures.push({ path, status, method: options.method, remaining: options.times ?? 1 });
+  }
+
+  /**
+   * Hold the next `times` requests matching path (and method) for `ms`
+   * before answering them. Aborting the request's signal rejects it early.
+   */
+  delay(path: RegExp, ms: number, options: { method?: string; times?: number } = {}): void {
+    this.delays.push({ path, ms, method: options.method, remaining: options.times ?? 1 });
+  }
+
+  private addMessage(conversationId: string, messageType: string, content: string): LettaMessage {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Unknown conversation ${conversationId}`);
+    }
+    const message: LettaMessage = {
+      id: `message-${randomUUID()}`,
+      message_type: messageType,
+      content,
+      date: this.nextDate(),
+    };
+    conversation.messages.push(message);
+    return message;
+  }
+
+  // Strictly increasing timestamps keep message ordering deterministic
+  private nextDate(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+
+  private async handle(url: string, init: RequestInit = {}): Promise<Response> {
+    const parsed = new URL(url);
+    const method = (init.method || 'GET').toUpperCase();
+    const path = parsed.pathname.replace(/^.*?\/v1(?=\/)/, '');
+    const query = Object.fromEntries(parsed.searchParams.entries());
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : init.body;
+    const headers = new Headers(init.headers);
+    this.requests.push({ method, path, query, body, ifNoneMatch: headers.get('If-None-Match') ?? undefined });
+
+    if (!headers.get('Authorization')?.startsWith('Bearer ')) {
+      return json(401, { detail: 'Unauthorized' });
+    }
+
+    const delay = this.delays.find(d => d.remaining > 0 && d.path.test(path) && (!d.method || d.method === method));
+    if (delay) {
+      delay.remaining--;
+      await wait(delay.ms, init.signal);
+    }
+
+    const failure = this.failures.find(f => f.remaining > 0 && f.path.test(path) && (!f.method || f.method === method));
+    if (failure) {
+      failure.remaining--;
+      return json(failure.status, { detail: 'Injected failure' });
+    }
+
+    const response = await this.route(method, path, query, body);
+    if (method !== 'GET' || !this.etags || response.status !== 200) {
+      return response;
+    }
+    const text = await response.text();
+    const etag = `"${createHash('sha1').update(text).digest('hex')}"`;
+    if (headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ETag: etag } });
+    }
+    return new Response(text, { status: 200, headers: { 'Content-Type': 'application/json', ETag: etag } });
+  }
+
+  private async route(method: string, path: string, query: Record<string, string>, body: unknown): Promise<Response> {
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/models/') {
+      return json(200, this.models);
+    }
+
+    if (method === 'POST' && path === '/agents/import') {
+      return this.importAgent(body as FormData);
+    }
+
+    if ((match = path.match(/^\/agents\/([^/]+)$/))) {
+      const agent = this.agents.get(match[1]);
+      if (!agent) return notFound('Agent');
+      if (method === 'GET') {
+        return json(200, query.include === 'agent.blocks' ? agent : { ...agent, blocks: undefined });
+      }
+      if (method === 'PATCH') {
+        const patch = body as Record<string, any>;
+        if (patch.llm_config) {
+          return json(400, { detail: 'The `llm_config` field is deprecated and no longer accepted. Use the `model` field instead.' });
+        }
+        if (patch.name !== undefined) agent.name = patch.name;
+        if (patch.tags !== undefined) agent.tags = patch.tags;
+        if (patch.model !== undefined) {
+          const [provider, model] = String(patch.model).split('/');
+          agent.llm_config = { ...agent.llm_config, handle: patch.model, provider_name: provider, model };
+        }
+        if (patch.context_window_limit !== undefined) agent.llm_config.context_window = patch.context_window_limit;
+        agent.updated_at = this.nextDate();
+        return json(200, agent);
+      }
+    }
+
+    if (method === 'POST' && path === '/conversations/') {
+      if (!this.agents.has(query.agent_id)) return notFound('Agent');
+      const { messages, ...conversation } = this.addConversation(query.agent_id);
+      return json(200, conversation);
+    }
+
+    if ((match = path.match(/^\/conversations\/([^/]+)\/messages$/))) {
+      const conversation = this.conversations.get(match[1]);
+      if (!conversation) return notFound('Conversation');
+      if (method === 'GET') {
+        // Newest first unless order=asc, like the real API usually (but not
+        // always) returns; `after` keeps only messages newer than a message ID
+        const limit = query.limit ? parseInt(query.limit, 10) : 100;
+        let messages = [...conversation.messages];
+        if (query.after) {
+          const index = messages.findIndex(m => m.id === query.after);
+          if (index === -1) return notFound('Message');
+          messages = messages.slice(index + 1);
+        }
+        if (query.order !== 'asc') messages.reverse();
+        return json(200, messages.slice(0, limit));
+      }
+      if (method === 'POST') {
+        return this.postMessages(conversation, body as { messages: Array<{ role: string; content: string }> });
+      }
+    }
+
+    return notFound(`${method} ${path}`);
+  }
+
+  private async importAgent(form: FormData): Promise<Response> {
+    const file = form?.get('file');
+    if (!file || typeof file === 'string') {
+      return json(422, { detail: 'file is required' });
+    }
+
+    const agentFile = JSON.parse(await file.text());
+    const source = agentFile.agents?.[0];
+    if (!source) {
+      return json(422, { detail: 'No agents in file' });
+    }
+
+    const blockIds = new Set(source.block_ids || []);
+    const agent = this.addAgent({
+      // The real server marks imported copies the same way
+      name: `${source.name}_copy`,
+      description: source.description,
+      tags: source.tags || [],
+      llm_config: source.llm_config,
+      blocks: (agentFile.blocks || [])
+        .filter((block: any) => blockIds.has(block.id))
+        .map((block: any) => ({ label: block.label, value: block.value, description: block.description, limit: block.limit })),
+    });
+    return json(200, { agent_ids: [agent.id] });
+  }
+
+  private postMessages(
+    conversation: FakeConversation,
+    body: { messages: Array<{ role: string; content: string }> },
+  ): Response {
+    const replies: LettaMessage[] = [];
+    for (const message of body.messages || []) {
+      this.addMessage(conversation.id, 'user_message', message.content);
+      const reply = this.onUserMessage?.(conversation, message.content);
+      if (reply) {
+        replies.push(this.addAssistantMessage(conversation.id, reply));
+      }
+    }
+    const events = [...replies.map(reply => JSON.stringify(reply)), '{"message_type":"stop_reason"}', '[DONE]'];
+    return new Response(events.map(event => `data: ${event}\n\n`).join(''), {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for letta_cache.ts
+ *
+ * Runs cached reads against the fake Letta server and checks when requests
+ * are skipped, revalidated or refetched.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAgent, FakeLettaServer } from './fake_letta_server.js';
+import { cachedGet, fetchAgentCached, invalidateCache, readCacheEntry } from './letta_cache.js';
+import { LettaClient } from './letta_client.js';
+
+let tmpDir: string;
+let server: FakeLettaServer;
+let agent: FakeAgent;
+let client: LettaClient;
+
+describe('letta cache', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'letta-cache-test-'));
+    vi.stubEnv('TMPDIR', tmpDir);
+    server = new FakeLettaServer();
+    agent = server.addAgent({ blocks: [{ label: 'guidance', value: 'Run tests first' }] });
+    client = new LettaClient({ apiKey: 'test-key', transport: server.fetch });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('answers from disk while the entry is fresh', async () => {
+    await fetchAgentCached(client, agent.id, 10000);
+    agent.blocks[0].value = 'Changed';
+
+    const cached = await fetchAgentCached(client, agent.id, 10000);
+
+    expect(cached.blocks[0].value).toBe('Run tests first');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('revalidates stale entries with the ETag', async () => {
+    await fetchAgentCached(client, agent.id, 0);
+    const etag = readCacheEntry(`agent-${agent.id}`)?.etag;
+    expect(etag).toBeDefined();
+
+    await fetchAgentCached(client, agent.id, 0);
+    expect(server.requests[1].ifNoneMatch).toBe(etag);
+
+    agent.blocks[0].value = 'Use pnpm';
+    const refreshed = await fetchAgentCached(client, agent.id, 0);
+
+    expect(refreshed.blocks[0].value).toBe('Use pnpm');
+    expect(readCacheEntry(`agent-${agent.id}`)?.etag).not.toBe(etag);
+  });
+
+  it('refetches in full when the server sends no ETag', async () => {
+    server.etags = false;
+    await fetchAgentCached(client, agent.id, 0);
+    agent.blocks[0].value = 'Use pnpm';
+
+    const refreshed = await fetchAgentCached(client, agent.id, 0);
+
+    expect(refreshed.blocks[0].value).toBe('Use pnpm');
+    expect(server.requests.map(r => r.ifNoneMatch)).toEqual([undefined, undefined]);
+  });
+
+  it('keeps the cached copy when a response has an older updated_at', async () => {
+    server.etags = false;
+    await fetchAgentCached(client, agent.id, 0);
+    agent.blocks[0].value = 'Stale replica';
+    agent.updated_at = '2020-01-01T00:00:00.000Z';
+
+    const result = await fetchAgentCached(client, agent.id, 0);
+
+    expect(result.blocks[0].value).toBe('Run tests first');
+  });
+
+  it('invalidates entries by key prefix', async () => {
+    const conversation = server.addConversation(agent.id);
+    await fetchAgentCached(client, agent.id, 10000);
+    await cachedGet(client, `messages-${conversation.id}-20`, `/conversations/${conversation.id}/messages`, {
+      query: { limit: 20 },
+      action: 'list messages',
+    }, 10000);
+
+    invalidateCache('agent-');
+
+    expect(readCacheEntry(`agent-${agent.id}`)).toBeNull();
+    expect(readCacheEntry(`messages-${conversation.id}-20`)).not.toBeNull();
+  });
+});
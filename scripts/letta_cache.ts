@@ -0,0 +1,181 @@
+/**
+ * Letta Response Cache
+ *
+ * Disk cache for the agent (with memory blocks) and conversation messages,
+ * shared by the PreToolUse and UserPromptSubmit hooks so most tool calls
+ * answer from disk instead of making two round-trips to Letta.
+ *
+ * Entries live in $TMPDIR/letta-claude-sync-$UID/cache/. An entry younger
+ * than its max age is used as is; an older one is revalidated with
+ * If-None-Match when the server sent an ETag, so an unchanged agent costs a
+ * 304 instead of the full block payload. A response whose updated_at is older
+ * than the cached copy (e.g. from a lagging replica) never replaces it.
+ *
+ * LETTA_CACHE_TTL sets the max age for PreToolUse in seconds (default 10).
+ * UserPromptSubmit always revalidates.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Agent, getTempStateDir, LogFn, writeJsonFileAtomic } from './conversation_utils.js';
+import { LettaClient, LettaMessage } from './letta_client.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+const DEFAULT_TTL_SECONDS = 10;
+
+export interface CacheEntry<T> {
+  key: string;
+  fetchedAt: string;
+  etag?: string;
+  updatedAt?: string;
+  data: T;
+}
+
+/**
+ * Get the cache directory path
+ */
+export function getCacheDir(): string {
+  return path.join(getTempStateDir(), 'cache');
+}
+
+function getCacheFile(key: string): string {
+  return path.join(getCacheDir(), `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+}
+
+/**
+ * Get the PreToolUse cache max age from LETTA_CACHE_TTL
+ */
+export function getCacheTtlMs(): number {
+  const seconds = parseInt(process.env.LETTA_CACHE_TTL || '', 10);
+  return (seconds >= 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Read a cache entry, or null if missing or unreadable
+ */
+export function readCacheEntry<T>(key: string): CacheEntry<T> | null {
+  try {
+    const entry = JSON.parse(fs.readFileSync(getCacheFile(key), 'utf-8'));
+    return entry.key === key ? entry : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCacheEntry<T>(entry: CacheEntry<T>): void {
+  writeJsonFileAtomic(getCacheFile(entry.key), entry, 0);
+}
+
+/**
+ * Drop cached responses whose key starts with prefix (all if omitted)
+ */
+export function invalidateCache(prefix: string = ''): void {
+  const dir = getCacheDir();
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+  for (const file of fs.readdirSync(dir)) {
+    if (file.endsWith('.json') && file.startsWith(prefix)) {
+      fs.rmSync(path.join(dir, file), { force: true });
+    }
+  }
+}
+
+function getUpdatedAt(data: unknown): string | undefined {
+  const value = (data as { updated_at?: unknown } | null)?.updated_at;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * GET through the cache: fresh entries are returned without a request,
+ * stale ones are revalidated, and anything else is fetched and stored.
+ */
+export async function cachedGet<T>(
+  client: LettaClient,
+  key: string,
+  path: string,
+  options: { query?: Record<string, string | number>; action: string },
+  maxAgeMs: number,
+  log: LogFn = noopLog,
+  now: number = Date.now(),
+): Promise<T> {
+  const cached = readCacheEntry<T>(key);
+  if (cached && now - new Date(cached.fetchedAt).getTime() < maxAgeMs) {
+    log(`Cache hit: ${key}`);
+    return cached.data;
+  }
+
+  const result = await client.getIfChanged<T>(path, { ...options, etag: cached?.etag });
+  const fetchedAt = new Date(now).toISOString();
+
+  if (!result) {
+    log(`Cache revalidated: ${key}`);
+    writeCacheEntry({ ...cached!, fetchedAt });
+    return cached!.data;
+  }
+
+  const updatedAt = getUpdatedAt(result.data);
+  if (cached?.updatedAt && updatedAt && updatedAt < cached.updatedAt) {
+    log(`Ignoring ${key} response older than cache (${updatedAt} < ${cached.updatedAt})`);
+    writeCacheEntry({ ...cached, fetchedAt });
+    return cached.data;
+  }
+
+  log(`Cache miss: ${key}`);
+  writeCacheEntry<T>({
+    key,
+    fetchedAt,
+    etag: result.etag || undefined,
+    updatedAt,
+    data: result.data,
+  });
+  return result.data;
+}
+
+/**
+ * Fetch the agent with its memory blocks through the cache
+ */
+export function fetchAgentCached(
+  client: LettaClient,
+  agentId: string,
+  maxAgeMs: number,
+  log: LogFn = noopLog,
+): Promise<Agent> {
+  return cachedGet<Agent>(client, `agent-${agentId}`, `/agents/${agentId}`, {
+    query: { include: 'agent.blocks' },
+    action: 'fetch agent',
+  }, maxAgeMs, log);
+}
+
+function messagePageKey(conversationId: string, after: string | null, limit: number): string {
+  return `messages-${conversationId}-${after ?? 'latest'}-${limit}`;
+}
+
+/**
+ * List a page of a conversation's messages through the cache: the oldest
+ * `limit` messages after a message ID, or the newest `limit` without one
+ */
+export function listConversationMessagesCached(
+  client: LettaClient,
+  conversationId: string,
+  after: string | null,
+  limit: number,
+  maxAgeMs: number,
+  log: LogFn = noopLog,
+): Promise<LettaMessage[]> {
+  return cachedGet<LettaMessage[]>(client, messagePageKey(conversationId, after, limit), `/conversations/${conversationId}/messages`, {
+    query: after ? { after, limit, order: 'asc' } : { limit, order: 'desc' },
+    action: 'list messages',
+  }, maxAgeMs, log);
+}
+
+/**
+ * Record that no messages follow `after` yet, so asking for them again
+ * within the max age is answered from disk
+ */
+export function cacheEmptyMessagePage(conversationId: string, after: string, limit: number, now: number = Date.now()): void {
+  const key = messagePageKey(conversationId, after, limit);
+  writeCacheEntry<LettaMessage[]>({ key, fetchedAt: new Date(now).toISOString(), data: [] });
+}
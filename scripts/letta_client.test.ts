@@ -0,0 +1,187 @@
+/**
+ * Tests for letta_client.ts
+ *
+ * Runs the client against the in-process fake server and checks request
+ * shape, error handling, the default transport override, and the
+ * timeout/retry/circuit breaker policy.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, getCircuitState } from './circuit_breaker.js';
+import { FakeLettaServer } from './fake_letta_server.js';
+import {
+  LettaApiError,
+  LettaClient,
+  LettaTimeoutError,
+  setHookTimeBudget,
+  setLettaTransport,
+} from './letta_client.js';
+import { createConversation, fetchAgent } from './conversation_utils.js';
+
+const API_BASE = 'https://letta.test/v1';
+
+let tmpDir: string;
+
+describe('LettaClient', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'letta-client-test-'));
+    // Keep circuit breaker state out of the real temp dir
+    vi.stubEnv('TMPDIR', tmpDir);
+  });
+
+  afterEach(() => {
+    setLettaTransport(null);
+    setHookTimeBudget(null);
+    vi.unstubAllEnvs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('sends authenticated requests with query parameters', async () => {
+    const server = new FakeLettaServer();
+    const agent = server.addAgent({ blocks: [{ label: 'guidance', value: 'be brief' }] });
+    const client = new LettaClient({ apiKey: 'test-key', apiBase: 'https://letta.test/v1', transport: server.fetch });
+
+    const fetched = await client.getAgent<{ blocks: unknown[] }>(agent.id, { includeBlocks: true });
+
+    expect(fetched.blocks).toHaveLength(1);
+    expect(server.requests).toEqual([
+      { method: 'GET', path: `/agents/${agent.id}`, query: { include: 'agent.blocks' }, body: undefined },
+    ]);
+  });
+
+  it('throws LettaApiError with the status on failure', async () => {
+    const server = new FakeLettaServer();
+    const client = new LettaClient({ apiKey: 'test-key', transport: server.fetch });
+
+    const error = await client.listConversationMessages('conv-missing', 10).catch(e => e);
+
+    expect(error).toBeInstanceOf(LettaApiError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('Failed to list messages: 404');
+  });
+
+  it('routes shared helpers through the configured transport', async () => {
+    const server = new FakeLettaServer();
+    const agent = server.addAgent();
+    setLettaTransport(server.fetch);
+
+    const conversationId = await createConversation('test-key', agent.id);
+    server.addAssistantMessage(conversationId, 'hello');
+
+    expect(server.conversations.get(conversationId)?.agent_id).toBe(agent.id);
+    expect((await fetchAgent('test-key', agent.id)).name).toBe('Subconscious');
+  });
+
+  it('posts messages and lets the fake agent reply', async () => {
+    const server = new FakeLettaServer();
+    const agent = server.addAgent();
+    const conversation = server.addConversation(agent.id);
+    server.onUserMessage = (_conversation, content) => `ack: ${content}`;
+    const client = new LettaClient({ apiKey: 'test-key', transport: server.fetch });
+
+    await client.sendConversationMessage(conversation.id, 'ping');
+    const messages = await client.listConversationMessages(conversation.id, 10);
+
+    expect(messages.map(m => [m.message_type, m.content])).toEqual([
+      ['assistant_message', 'ack: ping'],
+      ['user_message', 'ping'],
+    ]);
+  });
+
+  describe('request policy', () => {
+    const policy = { timeoutMs: 1000, retryBaseDelayMs: 0 };
+
+    it('retries GETs on server errors', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.fail(/^\/agents\//, 503, { times: 2 });
+      const client = new LettaClient({ apiKey: 'test-key', apiBase: API_BASE, transport: server.fetch, policy });
+
+      const fetched = await client.getAgent<{ id: string }>(agent.id);
+
+      expect(fetched.id).toBe(agent.id);
+      expect(server.requests).toHaveLength(3);
+      expect(getCircuitState(API_BASE).failures).toBe(0);
+    });
+
+    it('does not retry other methods or client errors', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.fail(/^\/conversations\/$/, 503);
+      const client = new LettaClient({ apiKey: 'test-key', apiBase: API_BASE, transport: server.fetch, policy });
+
+      await expect(client.createConversation(agent.id)).rejects.toBeInstanceOf(LettaApiError);
+      await expect(client.getAgent('agent-missing')).rejects.toMatchObject({ status: 404 });
+
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('aborts attempts that run past the timeout', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.delay(/^\/agents\//, 10000, { times: 3 });
+      const client = new LettaClient({
+        apiKey: 'test-key',
+        apiBase: API_BASE,
+        transport: server.fetch,
+        policy: { ...policy, timeoutMs: 20 },
+      });
+
+      const error = await client.getAgent<{ id: string }>(agent.id).catch(e => e);
+
+      expect(error).toBeInstanceOf(LettaTimeoutError);
+      expect(error.message).toBe('Failed to fetch agent: timed out after 20ms');
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('caps attempts at the remaining hook budget', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.delay(/^\/agents\//, 10000);
+      const client = new LettaClient({ apiKey: 'test-key', apiBase: API_BASE, transport: server.fetch, policy });
+
+      // Budget already spent: nothing is sent
+      setHookTimeBudget(0, 0);
+      await expect(client.getAgent(agent.id)).rejects.toThrow('hook time budget exhausted');
+      expect(server.requests).toHaveLength(0);
+
+      // Budget shorter than the per-call timeout: the request is cut short
+      setHookTimeBudget(process.uptime() * 1000 + 600, 0);
+      const error = await client.getAgent<{ id: string }>(agent.id).catch(e => e);
+      expect(error).toBeInstanceOf(LettaTimeoutError);
+      expect(error.timeoutMs).toBeLessThanOrEqual(600);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('counts one circuit failure per request, not per retry', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.fail(/^\/agents\//, 503, { times: 3 });
+      const client = new LettaClient({ apiKey: 'test-key', apiBase: API_BASE, transport: server.fetch, policy });
+
+      await expect(client.getAgent(agent.id)).rejects.toBeInstanceOf(LettaApiError);
+
+      expect(server.requests).toHaveLength(3);
+      expect(getCircuitState(API_BASE).failures).toBe(1);
+      expect(getCircuitState(API_BASE).openedUntil).toBeUndefined();
+    });
+
+    it('skips requests while the circuit is open', async () => {
+      const server = new FakeLettaServer();
+      const agent = server.addAgent();
+      server.fail(/^\/conversations\/$/, 500, { times: 3 });
+      const client = new LettaClient({ apiKey: 'test-key', apiBase: API_BASE, transport: server.fetch, policy });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(client.createConversation(agent.id)).rejects.toBeInstanceOf(LettaApiError);
+      }
+      expect(getCircuitState(API_BASE).openedUntil).toBeDefined();
+
+      await expect(client.getAgent(agent.id)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(server.requests).toHaveLength(3);
+    });
+  });
+});
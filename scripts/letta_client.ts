@@ -0,0 +1,387 @@
+/**
+ * Letta API Client
+ *
+ * Thin wrapper around the Letta REST endpoints the hooks use. Requests go
+ * through a pluggable transport (a fetch-compatible function), which
+ * defaults to the global fetch. Tests swap in the in-process fake server
+ * from fake_letta_server.ts via setLettaTransport(), so hook flows can run
+ * without a Letta account.
+ *
+ * Every request gets a deadline: the per-call timeout, capped by whatever is
+ * left of the hook's own timeout (see setHookTimeBudget()), so a slow server
+ * degrades a hook instead of Claude Code killing it. Idempotent GETs are
+ * retried with jittered backoff while the budget allows, and failures feed
+ * the circuit breaker in circuit_breaker.ts, which skips requests entirely
+ * for a cool-down once the server has failed repeatedly.
+ */
+
+import {
+  assertCircuitClosed,
+  CircuitOpenError,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+} from './circuit_breaker.js';
+import { buildLettaApiUrl, LETTA_API_BASE, LettaApiQuery } from './letta_api_url.js';
+
+/**
+ * Anything that can answer a fetch() call
+ */
+export type LettaTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface LettaMessage {
+  id: string;
+  message_type: string;
+  content?: string;
+  text?: string;
+  date?: string;
+}
+
+export interface LettaClientOptions {
+  apiKey: string;
+  /** Defaults to LETTA_BASE_URL + /v1 */
+  apiBase?: string;
+  /** Defaults to the transport set with setLettaTransport(), else fetch */
+  transport?: LettaTransport;
+  /** Overrides for the default request policy */
+  policy?: Partial<RequestPolicy>;
+}
+
+export interface RequestPolicy {
+  /** Upper bound for a single attempt, including reading the body */
+  timeoutMs: number;
+  /** Attempts for GET requests; other methods are never retried */
+  maxAttempts: number;
+  /** Backoff before retry n is a random delay up to min(base * 2^(n-1), max) */
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 250,
+  retryMaxDelayMs: 2000,
+};
+
+// Don't start an attempt with less time than this left in the hook budget
+const MIN_ATTEMPT_MS = 500;
+
+interface RequestOptions {
+  query?: LettaApiQuery;
+  json?: unknown;
+  form?: FormData;
+  /** Sent as If-None-Match; a 304 answer is then not an error */
+  etag?: string;
+  /** Used in the error message, e.g. "create conversation" */
+  action: string;
+}
+
+/**
+ * Non-2xx response from the Letta API
+ */
+export class LettaApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string,
+    action: string,
+  ) {
+    super(`Failed to ${action}: ${status} ${body}`);
+    this.name = 'LettaApiError';
+  }
+}
+
+/**
+ * A request that ran past its deadline, or had no time left to start.
+ * timeoutMs is 0 in the latter case.
+ */
+export class LettaTimeoutError extends Error {
+  constructor(readonly timeoutMs: number, action: string) {
+    super(`Failed to ${action}: ${timeoutMs > 0 ? `timed out after ${timeoutMs}ms` : 'hook time budget exhausted'}`);
+    this.name = 'LettaTimeoutError';
+  }
+}
+
+// Resolved at call time so tests that stub the global fetch still work
+const fetchTransport: LettaTransport = (url, init) => fetch(url, init);
+
+let defaultTransport: LettaTransport | null = null;
+let defaultPolicy: Partial<RequestPolicy> = {};
+let hookDeadline: number | null = null;
+
+/**
+ * Route every client created without an explicit transport through this one.
+ * Pass null to go back to fetch.
+ */
+export function setLettaTransport(transport: LettaTransport | null): void {
+  defaultTransport = transport;
+}
+
+/**
+ * Override the request policy for every client created without one.
+ * Pass null to go back to DEFAULT_REQUEST_POLICY.
+ */
+export function setRequestPolicy(policy: Partial<RequestPolicy> | null): void {
+  defaultPolicy = policy || {};
+}
+
+/**
+ * Budget every request in this process against the hook's timeout from
+ * hooks.json. Claude Code's clock started when it spawned the process, so
+ * time already spent starting up is subtracted, and reserveMs is kept back
+ * for the hook's own work after its last request. Pass null to clear.
+ */
+export function setHookTimeBudget(hookTimeoutMs: number | null, reserveMs: number = 1000): void {
+  hookDeadline = hookTimeoutMs === null
+    ? null
+    : Date.now() - process.uptime() * 1000 + hookTimeoutMs - reserveMs;
+}
+
+/**
+ * Milliseconds left in the hook budget, or null if none was set
+ */
+export function getRemainingBudgetMs(now: number = Date.now()): number | null {
+  return hookDeadline === null ? null : Math.max(0, hookDeadline - now);
+}
+
+/**
+ * True if the error means Letta is down or too slow right now, rather than
+ * the request being wrong. Hooks skip their work quietly in that case.
+ */
+export function isLettaUnavailable(error: unknown): boolean {
+  return error instanceof CircuitOpenError || error instanceof LettaTimeoutError;
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LettaApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // Timeouts and network errors (fetch rejects with a TypeError)
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class LettaClient {
+  private readonly apiKey: string;
+  private readonly apiBase?: string;
+  private readonly transport?: LettaTransport;
+  private readonly policy?: Partial<RequestPolicy>;
+
+  constructor(options: LettaClientOptions) {
+    this.apiKey = options.apiKey;
+    this.apiBase = options.apiBase;
+    this.transport = options.transport;
+    this.policy = options.policy;
+  }
+
+  /**
+   * Send a request and hand the response to `read`, throwing on non-2xx.
+   * The deadline covers `read` too, so a stalled body can't hang the hook.
+   */
+  async send<T>(
+    method: string,
+    path: string,
+    options: RequestOptions,
+    read: (response: Response) => Promise<T>,
+  ): Promise<T> {
+    const policy = { ...DEFAULT_REQUEST_POLICY, ...defaultPolicy, ...this.policy };
+    const circuitKey = this.apiBase || LETTA_API_BASE;
+    assertCircuitClosed(circuitKey);
+
+    const maxAttempts = method === 'GET' ? Math.max(1, policy.maxAttempts) : 1;
+    for (let attempt = 1; ; attempt++) {
+      const remaining = getRemainingBudgetMs();
+      if (remaining !== null && remaining < MIN_ATTEMPT_MS) {
+        throw new LettaTimeoutError(0, options.action);
+      }
+      const timeoutMs = remaining === null ? policy.timeoutMs : Math.min(policy.timeoutMs, remaining);
+
+      try {
+        const result = await this.attempt(method, path, options, timeoutMs, read);
+        recordCircuitSuccess(circuitKey);
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          // The server answered, so it is up even if the request was bad
+          recordCircuitSuccess(circuitKey);
+          throw error;
+        }
+        const delay = Math.random() * Math.min(policy.retryBaseDelayMs * 2 ** (attempt - 1), policy.retryMaxDelayMs);
+        const left = getRemainingBudgetMs();
+        if (attempt >= maxAttempts || (left !== null && left - delay < MIN_ATTEMPT_MS)) {
+          // One failure per request, however many attempts it took
+          recordCircuitFailure(circuitKey, error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+        // Another hook may have opened the circuit meanwhile
+        assertCircuitClosed(circuitKey);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async attempt<T>(
+    method: string,
+    path: string,
+    options: RequestOptions,
+    timeoutMs: number,
+    read: (response: Response) => Promise<T>,
+  ): Promise<T> {
+    const url = buildLettaApiUrl(path, options.query, this.apiBase);
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.apiKey}`,
+    };
+    if (options.etag) {
+      headers['If-None-Match'] = options.etag;
+    }
+    let body: string | FormData | undefined;
+    if (options.form) {
+      body = options.form;
+    } else if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    const transport = this.transport || defaultTransport || fetchTransport;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await transport(url, { method, headers, body, signal: controller.signal });
+      if (!response.ok && !(options.etag && response.status === 304)) {
+        const errorText = await response.text();
+        throw new LettaApiError(response.status, errorText, options.action);
+      }
+      return await read(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new LettaTimeoutError(timeoutMs, options.action);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  request<T>(method: string, path: string, options: RequestOptions): Promise<T> {
+    return this.send(method, path, options, response => response.json() as Promise<T>);
+  }
+
+  /**
+   * GET revalidating against a previous response's ETag. Returns null when
+   * the server answers 304 Not Modified.
+   */
+  getIfChanged<T>(path: string, options: RequestOptions): Promise<{ data: T; etag: string | null } | null> {
+    return this.send('GET', path, options, async response => {
+      if (response.status === 304) {
+        return null;
+      }
+      return { data: await response.json() as T, etag: response.headers.get('ETag') };
+    });
+  }
+
+  getAgent<T>(agentId: string, options: { includeBlocks?: boolean } = {}): Promise<T> {
+    return this.request<T>('GET', `/agents/${agentId}`, {
+      query: options.includeBlocks ? { include: 'agent.blocks' } : {},
+      action: 'fetch agent',
+    });
+  }
+
+  updateAgent<T>(agentId: string, patch: Record<string, unknown>): Promise<T> {
+    return this.request<T>('PATCH', `/agents/${agentId}`, { json: patch, action: 'update agent' });
+  }
+
+  /**
+   * Import an agent file (.af); returns the new agent IDs
+   */
+  async importAgent(file: Blob, fileName: string): Promise<string[]> {
+    const form = new FormData();
+    form.append('file', file, fileName);
+    const result = await this.request<{ agent_ids?: string[] }>('POST', '/agents/import', {
+      form,
+      action: 'import agent',
+    });
+    return result.agent_ids || [];
+  }
+
+  listModels<T>(): Promise<T[]> {
+    return this.request<T[]>('GET', '/models/', { action: 'list models' });
+  }
+
+  createConversation<T>(agentId: string): Promise<T> {
+    return this.request<T>('POST', '/conversations/', {
+      query: { agent_id: agentId },
+      action: 'create conversation',
+    });
+  }
+
+  listConversationMessages(conversationId: string, limit: number): Promise<LettaMessage[]> {
+    return this.request<LettaMessage[]>('GET', `/conversations/${conversationId}/messages`, {
+      query: { limit },
+      action: 'list messages',
+    });
+  }
+
+  /**
+   * Post a user message to a conversation. The server streams the agent's
+   * processing back; only the first chunk is read, since the agent keeps
+   * working after the stream is cancelled.
+   */
+  sendConversationMessage(conversationId: string, content: string): Promise<void> {
+    return this.send('POST', `/conversations/${conversationId}/messages`, {
+      json: { messages: [{ role: 'user', content }] },
+      action: 'send message',
+    }, async response => {
+      const reader = response.body?.getReader();
+      if (reader) {
+        try {
+          await reader.read();
+        } finally {
+          reader.cancel();
+        }
+      }
+    });
+  }
+
+  /**
+   * Post a user message to a conversation and wait for the agent to finish,
+   * returning the messages it streamed back (chunks of one message are
+   * joined). Give the client a policy with a long enough timeout.
+   */
+  askConversation(conversationId: string, content: string): Promise<LettaMessage[]> {
+    return this.send('POST', `/conversations/${conversationId}/messages`, {
+      json: { messages: [{ role: 'user', content }] },
+      action: 'ask agent',
+    }, async response => {
+      const messages = new Map<string, LettaMessage>();
+      for (const line of (await response.text()).split('\n')) {
+        const data = line.startsWith('data:') ? line.slice('data:'.length).trim() : '';
+        if (!data || data === '[DONE]') {
+          continue;
+        }
+        const chunk = JSON.parse(data) as LettaMessage;
+        if (!chunk.id) {
+          continue;
+        }
+        const previous = messages.get(chunk.id);
+        if (previous && typeof previous.content === 'string' && typeof chunk.content === 'string') {
+          previous.content += chunk.content;
+        } else {
+          messages.set(chunk.id, chunk);
+        }
+      }
+      return [...messages.values()];
+    });
+  }
+}
+
+/**
+ * Create a client for the configured Letta server
+ */
+export function createLettaClient(apiKey: string): LettaClient {
+  return new LettaClient({ apiKey });
+}
@@ -0,0 +1,40 @@
+/**
+ * Tests for line_diff.ts
+ *
+ * Covers LCS alignment of moved and duplicate lines, word diffs and hunk
+ * grouping.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffHunks, diffLines, diffWords } from './line_diff.js';
+
+describe('diffLines', () => {
+  it('aligns moved and duplicate lines instead of comparing sets', () => {
+    const ops = diffLines(['a', 'b', 'a', 'c'].join('\n'), ['b', 'a', 'c', 'a'].join('\n'));
+
+    expect(ops.map(o => `${o.type[0]}${o.line}`)).toEqual(['ra', 'eb', 'ea', 'ec', 'aa']);
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps whitespace so each side can be rebuilt', () => {
+    const ops = diffWords('use  npm here', 'use pnpm here');
+
+    expect(ops.filter(o => o.type !== 'add').map(o => o.line).join('')).toBe('use  npm here');
+    expect(ops.filter(o => o.type !== 'remove').map(o => o.line).join('')).toBe('use pnpm here');
+    expect(ops.filter(o => o.type === 'equal').map(o => o.line)).toEqual(['use', ' ', 'here']);
+  });
+});
+
+describe('diffHunks', () => {
+  it('groups nearby changes and keeps context around them', () => {
+    const oldText = Array.from({ length: 10 }, (_, i) => `line ${i}`).join('\n');
+    const newText = oldText.replace('line 1', 'line one').replace('line 3', 'line three').replace('line 9', 'line nine');
+
+    const hunks = diffHunks(diffLines(oldText, newText), 1);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].map(o => o.line)).toEqual(['line 0', 'line 1', 'line one', 'line 2', 'line 3', 'line three', 'line 4']);
+    expect(hunks[1].map(o => o.line)).toEqual(['line 8', 'line 9', 'line nine']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Line Diff
+ *
+ * Minimal line-based diff (longest common subsequence) and unified-style
+ * hunk formatting, plus a word-level diff for changes within a line. Inputs
+ * are small snippets (edit strings, memory blocks); when the changed region
+ * is too large to align, it is reported as removed and re-added wholesale
+ * instead of running a quadratic alignment.
+ */
+
+export interface DiffOp {
+  type: 'equal' | 'add' | 'remove';
+  line: string;
+}
+
+// Alignment table size beyond which the changed region isn't aligned
+const MAX_LCS_CELLS = 250000;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+function op(type: DiffOp['type']): (line: string) => DiffOp {
+  return (line) => ({ type, line });
+}
+
+/**
+ * Align two line lists by their longest common subsequence
+ */
+function lcsDiff(a: string[], b: string[]): DiffOp[] {
+  const width = b.length + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'remove', line: a[i++] });
+    } else {
+      ops.push({ type: 'add', line: b[j++] });
+    }
+  }
+  ops.push(...a.slice(i).map(op('remove')), ...b.slice(j).map(op('add')));
+  return ops;
+}
+
+/**
+ * Diff two token lists
+ */
+function diffSequences(a: string[], b: string[]): DiffOp[] {
+  // Common prefix and suffix never need aligning
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle = midA.length * midB.length > MAX_LCS_CELLS
+    ? [...midA.map(op('remove')), ...midB.map(op('add'))]
+    : lcsDiff(midA, midB);
+
+  return [...a.slice(0, start).map(op('equal')), ...middle, ...a.slice(endA).map(op('equal'))];
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+  return diffSequences(splitLines(oldText), splitLines(newText));
+}
+
+/**
+ * Diff two lines word by word. Each op's `line` is a word or a run of
+ * whitespace; joining the equal and removed (or added) ops gives back the
+ * old (or new) line.
+ */
+export function diffWords(oldLine: string, newLine: string): DiffOp[] {
+  const words = (line: string) => line.split(/(\s+)/).filter(Boolean);
+  return diffSequences(words(oldLine), words(newLine));
+}
+
+/**
+ * Group diff ops into hunks of changes with up to `context` unchanged ops
+ * around them. Changes closer than twice the context share a hunk.
+ */
+export function diffHunks(ops: DiffOp[], context = 3): DiffOp[][] {
+  const hunks: DiffOp[][] = [];
+  let next = 0;
+
+  while (next < ops.length) {
+    let firstChange = next;
+    while (firstChange < ops.length && ops[firstChange].type === 'equal') {
+      firstChange++;
+    }
+    if (firstChange === ops.length) {
+      break;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    let lastChange = firstChange;
+    for (let k = firstChange + 1; k < ops.length && k - lastChange <= 2 * context; k++) {
+      if (ops[k].type !== 'equal') {
+        lastChange = k;
+      }
+    }
+
+    const start = Math.max(next, firstChange - context);
+    const end = Math.min(ops.length, lastChange + context + 1);
+    hunks.push(ops.slice(start, end));
+    next = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Format diff ops as hunks: each starts with "@@" and keeps `context`
+ * unchanged lines around its changes. Returns no lines if nothing changed.
+ */
+export function formatUnifiedDiff(ops: DiffOp[], context = 3): string[] {
+  const prefixes = { equal: ' ', remove: '-', add: '+' };
+  return diffHunks(ops, context).flatMap(hunk => ['@@', ...hunk.map(o => `${prefixes[o.type]}${o.line}`)]);
+}
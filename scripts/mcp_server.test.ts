@@ -0,0 +1,140 @@
+/**
+ * Tests for mcp_server.ts
+ *
+ * Drives the MCP protocol handler and its tools against the fake Letta
+ * server.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAgent, FakeConversation, FakeLettaServer } from './fake_letta_server.js';
+import { setLettaTransport, setRequestPolicy } from './letta_client.js';
+import { loadSyncState, saveSyncState } from './conversation_utils.js';
+import { callTool, handleLine, handleMessage, ServerContext } from './mcp_server.js';
+
+let cwd: string;
+let server: FakeLettaServer;
+let agent: FakeAgent;
+let conversation: FakeConversation;
+let ctx: ServerContext;
+
+function text(result: { content: Array<{ text: string }> }): string {
+  return result.content.map(c => c.text).join('\n');
+}
+
+describe('mcp_server', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-'));
+    server = new FakeLettaServer();
+    agent = server.addAgent({
+      blocks: [
+        { label: 'project_context', value: 'Billing webhooks retry three times.\n\nDeploys go through the release branch.', description: 'The project' },
+        { label: 'core_directives', value: 'Watch for repeated mistakes.', description: 'For Sub' },
+      ],
+    });
+    conversation = server.addConversation(agent.id);
+    saveSyncState(cwd, { sessionId: 's1', conversationId: conversation.id, lastProcessedIndex: -1 });
+    setLettaTransport(server.fetch);
+    setRequestPolicy({ retryBaseDelayMs: 0 });
+    // Keep circuit breaker and cache state out of the real temp dir
+    vi.stubEnv('TMPDIR', cwd);
+    vi.stubEnv('LETTA_AGENT_ID', agent.id);
+    vi.stubEnv('LETTA_HOME', '');
+    ctx = { apiKey: 'test-key', cwd, log: () => {} };
+  });
+
+  afterEach(() => {
+    setLettaTransport(null);
+    setRequestPolicy(null);
+    vi.unstubAllEnvs();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('answers initialize and lists its tools', async () => {
+    const init = await handleMessage(ctx, { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } });
+    expect(init?.result).toMatchObject({ protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'claude-subconscious' } });
+
+    expect(await handleMessage(ctx, { jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+
+    const list = await handleMessage(ctx, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect((list?.result as any).tools.map((t: any) => t.name))
+      .toEqual(['ask_subconscious', 'search_memory', 'read_block', 'propose_memory_update']);
+
+    const unknown = await handleMessage(ctx, { jsonrpc: '2.0', id: 3, method: 'resources/list' });
+    expect(unknown?.error?.code).toBe(-32601);
+  });
+
+  it('asks Sub in the session conversation and marks the answer seen', async () => {
+    const seen = server.addAssistantMessage(conversation.id, 'Old note');
+    server.addAssistantMessage(conversation.id, 'The release branch is frozen');
+    saveSyncState(cwd, { sessionId: 's1', conversationId: conversation.id, lastProcessedIndex: -1, lastSeenMessageId: seen.id });
+    server.onUserMessage = (conv, content) => (content.includes('Which branch') ? 'Use release/2.1' : undefined);
+
+    const result = await callTool(ctx, 'ask_subconscious', { question: 'Which branch do I deploy from?' });
+
+    expect(result.isError).toBeUndefined();
+    expect(text(result)).toMatch(/^Use release\/2\.1/);
+    expect(text(result)).toContain('The release branch is frozen');
+    expect(text(result)).not.toContain('Old note');
+    expect(conversation.messages.some(m => m.message_type === 'user_message' && m.content?.includes('<claude_code_question>'))).toBe(true);
+    expect(loadSyncState(cwd, 's1').lastSeenMessageId).toBe(conversation.messages.at(-1)!.id);
+  });
+
+  it('searches and reads memory blocks', async () => {
+    const search = await callTool(ctx, 'search_memory', { query: 'webhook retries' });
+    expect(text(search)).toContain('<memory_match block="project_context"');
+    expect(text(search)).toContain('Billing webhooks retry three times.');
+    expect(text(search)).not.toContain('release branch');
+
+    const block = await callTool(ctx, 'read_block', { label: 'core_directives' });
+    expect(text(block)).toBe('<core_directives description="For Sub">\nWatch for repeated mistakes.\n</core_directives>');
+
+    const missing = await callTool(ctx, 'read_block', { label: 'pending_items' });
+    expect(missing.isError).toBe(true);
+    expect(text(missing)).toContain('Blocks: project_context, core_directives');
+  });
+
+  it('sends memory proposals to Sub without waiting', async () => {
+    const result = await callTool(ctx, 'propose_memory_update', {
+      label: 'user_preferences',
+      change: 'Prefers <pnpm> over npm',
+      reason: 'Said so twice',
+    });
+
+    expect(result.isError).toBeUndefined();
+    const sent = conversation.messages.at(-1)!.content!;
+    expect(sent).toContain('<block>user_preferences</block>');
+    expect(sent).toContain('<change>Prefers &lt;pnpm&gt; over npm</change>');
+    expect(sent).toContain('<reason>Said so twice</reason>');
+  });
+
+  it('answers malformed lines with JSON-RPC errors', async () => {
+    expect((await handleLine(ctx, '{not json'))?.error?.code).toBe(-32700);
+    for (const line of ['null', '5', '"ping"', '[]', '{"jsonrpc":"2.0","id":4}']) {
+      expect((await handleLine(ctx, line))?.error).toEqual({ code: -32600, message: 'Invalid Request' });
+    }
+    expect((await handleLine(ctx, '{"jsonrpc":"2.0","id":4,"method":7}'))?.id).toBe(4);
+    expect(await handleLine(ctx, '{"jsonrpc":"2.0","id":5,"method":"ping"}')).toEqual({ jsonrpc: '2.0', id: 5, result: {} });
+  });
+
+  it('tells Claude to retry while Sub is busy with the session', async () => {
+    server.fail(/^\/conversations\/[^/]+\/messages$/, 409, { method: 'POST', times: 2 });
+
+    const asked = await callTool(ctx, 'ask_subconscious', { question: 'Which branch?' });
+    const proposed = await callTool(ctx, 'propose_memory_update', { label: 'user_preferences', change: 'Prefers pnpm' });
+
+    for (const result of [asked, proposed]) {
+      expect(result.isError).toBe(true);
+      expect(text(result)).toBe('Sub is busy processing the session; try again');
+    }
+  });
+
+  it('reports bad input and missing configuration as tool errors', async () => {
+    expect(text(await callTool(ctx, 'ask_subconscious', {}))).toContain('"question" is required');
+    expect((await callTool({ ...ctx, apiKey: undefined }, 'read_block', { label: 'x' })).isError).toBe(true);
+    vi.stubEnv('LETTA_MODE', 'off');
+    expect(text(await callTool(ctx, 'read_block', { label: 'x' }))).toContain('LETTA_MODE=off');
+  });
+});
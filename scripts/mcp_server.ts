@@ -0,0 +1,469 @@
+#!/usr/bin/env tsx
+/**
+ * Subconscious MCP Server
+ *
+ * Stdio MCP server, registered in the plugin's .mcp.json, that lets Claude
+ * reach Sub in the middle of a task instead of writing in the transcript and
+ * waiting for the next Stop hook to deliver it:
+ *
+ *   ask_subconscious      - ask Sub a question and get its answer in the same turn
+ *   search_memory         - find the memory block paragraphs that match a query
+ *   read_block            - read one memory block in full
+ *   propose_memory_update - suggest a memory change; Sub decides whether to make it
+ *
+ * Questions and proposals go to the conversation of the project's most
+ * recently active session, so Sub answers with that session in mind. Replies
+ * returned here move the session's lastSeenMessageId on, so the sync hooks
+ * don't inject them a second time.
+ *
+ * Speaks newline-delimited JSON-RPC 2.0 on stdin/stdout; nothing else may be
+ * written to stdout.
+ *
+ * Environment Variables:
+ *   LETTA_API_KEY - API key for Letta authentication
+ *   CLAUDE_PROJECT_DIR - Project directory (set by Claude Code)
+ *   LETTA_DEBUG - Set to "1" to enable debug logging to stderr
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { fileURLToPath } from 'url';
+import { getAgentId } from './agent_config.js';
+import { searchBlocks } from './block_relevance.js';
+import { fetchAgentCached, getCacheTtlMs } from './letta_cache.js';
+import { createLettaClient, LettaApiError, LettaClient, LettaTimeoutError } from './letta_client.js';
+import { fetchNewMessages, MessageInfo } from './message_sync.js';
+import { withSessionLock } from './session_lock.js';
+import {
+  createConversation,
+  escapeXmlAttribute,
+  escapeXmlContent,
+  getMode,
+  getSyncStateFile,
+  isMainModule,
+  listSessionIds,
+  loadSyncState,
+  lookupConversation,
+  saveSyncState,
+  Agent,
+  LogFn,
+  SyncState,
+} from './conversation_utils.js';
+
+const DEBUG = process.env.LETTA_DEBUG === '1';
+
+// Sub may read files or search before it answers
+const ASK_TIMEOUT_MS = 120000;
+
+const SEARCH_DEFAULT_LIMIT = 5;
+const SEARCH_MAX_LIMIT = 20;
+
+// Newest first; the client's version is used when it is one of these
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+// What Claude is told when the conversation is still handling another message
+const BUSY_MESSAGE = 'Sub is busy processing the session; try again';
+
+function debug(...args: unknown[]): void {
+  if (DEBUG) {
+    console.error('[mcp debug]', ...args);
+  }
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  /** Absent for notifications */
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+export interface ServerContext {
+  apiKey: string | undefined;
+  /** Project directory whose sessions questions are asked in */
+  cwd: string;
+  log: LogFn;
+  /** Conversation created for questions asked before any session synced */
+  conversationId?: string;
+}
+
+export const TOOLS = [
+  {
+    name: 'ask_subconscious',
+    description: 'Ask your Subconscious (Sub), the Letta agent watching this session, a question and wait for its answer. Sub remembers earlier sessions, the user\'s preferences and this project, and can read files and search. Use it for context you don\'t have, not for things you can look up yourself.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: 'The question, with enough context for Sub to answer it' },
+      },
+      required: ['question'],
+    },
+  },
+  {
+    name: 'search_memory',
+    description: 'Search Sub\'s memory blocks for paragraphs matching a query. Returns the best matches with the block they are from.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for, e.g. a file name, tool or topic' },
+        limit: { type: 'number', description: `Most matches to return (default ${SEARCH_DEFAULT_LIMIT}, at most ${SEARCH_MAX_LIMIT})` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'read_block',
+    description: 'Read one of Sub\'s memory blocks in full, by label, including blocks that are not injected into your context.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label: { type: 'string', description: 'Block label, e.g. "project_context"' },
+      },
+      required: ['label'],
+    },
+  },
+  {
+    name: 'propose_memory_update',
+    description: 'Suggest a change to one of Sub\'s memory blocks, such as a preference the user just stated or a project fact worth keeping. Sub decides whether and how to apply it; this does not wait for it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label: { type: 'string', description: 'Block to change; may be a new block' },
+        change: { type: 'string', description: 'What to add, change or remove' },
+        reason: { type: 'string', description: 'Why it is worth remembering' },
+      },
+      required: ['label', 'change'],
+    },
+  },
+];
+
+function textResult(text: string, isError = false): ToolResult {
+  return isError ? { content: [{ type: 'text', text }], isError } : { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Whether the server refused a message because the conversation is still
+ * processing an earlier one
+ */
+function isConversationBusy(error: unknown): boolean {
+  return error instanceof LettaApiError && error.status === 409;
+}
+
+function requireString(args: any, name: string): string {
+  const value = args?.[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${name}" is required`);
+  }
+  return value.trim();
+}
+
+/**
+ * The project's most recently active session, from the sync state files
+ * the hooks write
+ */
+function findActiveSession(cwd: string): SyncState | null {
+  let latest: { sessionId: string; mtime: number } | null = null;
+  for (const sessionId of listSessionIds(cwd)) {
+    const mtime = fs.statSync(getSyncStateFile(cwd, sessionId)).mtimeMs;
+    if (!latest || mtime > latest.mtime) {
+      latest = { sessionId, mtime };
+    }
+  }
+  return latest ? loadSyncState(cwd, latest.sessionId) : null;
+}
+
+/**
+ * Conversation to talk to Sub in: the active session's, or one of this
+ * server's own when no session has a conversation yet
+ */
+async function resolveConversation(
+  ctx: ServerContext,
+  apiKey: string,
+  agentId: string,
+): Promise<{ conversationId: string; session: SyncState | null }> {
+  const session = findActiveSession(ctx.cwd);
+  const conversationId = session ? session.conversationId || lookupConversation(ctx.cwd, session.sessionId) : null;
+  if (conversationId) {
+    return { conversationId, session };
+  }
+  ctx.conversationId ??= await createConversation(apiKey, agentId, ctx.log);
+  return { conversationId: ctx.conversationId, session: null };
+}
+
+function formatQuestion(question: string): string {
+  return `<claude_code_question>
+<question>${escapeXmlContent(question)}</question>
+
+<instructions>
+Claude Code is asking you this directly, in the middle of its current task, and is waiting for your answer. Your reply is returned to it as is, so answer the question itself: short, specific, no preamble. Say so if you don't know.
+</instructions>
+</claude_code_question>`;
+}
+
+function formatProposal(label: string, change: string, reason: string | null): string {
+  return `<claude_code_memory_proposal>
+<block>${escapeXmlContent(label)}</block>
+<change>${escapeXmlContent(change)}</change>
+${reason ? `<reason>${escapeXmlContent(reason)}</reason>\n` : ''}
+<instructions>
+Claude Code suggests this change to your memory while working. You own your memory: apply it, adapt it or leave it. If the block doesn't exist, decide whether it should.
+</instructions>
+</claude_code_memory_proposal>`;
+}
+
+function formatPendingMessages(messages: MessageInfo[]): string {
+  return messages
+    .map(msg => `<letta_message timestamp="${msg.date || 'unknown'}">\n${msg.text}\n</letta_message>`)
+    .join('\n');
+}
+
+async function askSubconscious(ctx: ServerContext, apiKey: string, args: any): Promise<ToolResult> {
+  const question = requireString(args, 'question');
+  const agentId = await getAgentId(apiKey, ctx.log);
+  const { conversationId, session } = await resolveConversation(ctx, apiKey, agentId);
+
+  // Messages Sub sent that Claude hasn't been shown yet come with the answer
+  const pending = session?.lastSeenMessageId
+    ? await fetchNewMessages(createLettaClient(apiKey), conversationId, session.lastSeenMessageId, 0, ctx.log)
+    : null;
+
+  const client = new LettaClient({ apiKey, policy: { timeoutMs: ASK_TIMEOUT_MS } });
+  let replies: MessageInfo[];
+  try {
+    replies = (await client.askConversation(conversationId, formatQuestion(question)))
+      .filter(msg => msg.message_type === 'assistant_message' && typeof msg.content === 'string' && msg.content)
+      .map(msg => ({ id: msg.id, text: msg.content as string, date: msg.date || null }));
+  } catch (error) {
+    if (error instanceof LettaTimeoutError) {
+      return textResult(`Sub didn't answer within ${ASK_TIMEOUT_MS / 1000}s. Its answer will be shown when it arrives.`, true);
+    }
+    if (isConversationBusy(error)) {
+      return textResult(BUSY_MESSAGE, true);
+    }
+    throw error;
+  }
+
+  // The sync hooks won't inject what is shown here again
+  const lastShownId = replies.at(-1)?.id || pending?.lastMessageId;
+  if (session && lastShownId) {
+    await withSessionLock(ctx.cwd, session.sessionId, () => {
+      const state = loadSyncState(ctx.cwd, session.sessionId);
+      state.lastSeenMessageId = lastShownId;
+      saveSyncState(ctx.cwd, state);
+    }, { log: ctx.log });
+  }
+
+  const parts = [replies.length > 0 ? replies.map(msg => msg.text).join('\n\n') : 'Sub read the question but sent no answer.'];
+  if (pending && pending.messages.length > 0) {
+    parts.push(`Sub also sent these messages earlier, which you haven't seen:\n${formatPendingMessages(pending.messages)}`);
+  }
+  return textResult(parts.join('\n\n'));
+}
+
+async function fetchBlocks(ctx: ServerContext, apiKey: string): Promise<Agent> {
+  const agentId = await getAgentId(apiKey, ctx.log);
+  return fetchAgentCached(createLettaClient(apiKey), agentId, getCacheTtlMs(), ctx.log);
+}
+
+function listLabels(agent: Agent): string {
+  const labels = (agent.blocks || []).map(block => block.label);
+  return labels.length > 0 ? labels.join(', ') : '(none)';
+}
+
+async function searchMemory(ctx: ServerContext, apiKey: string, args: any): Promise<ToolResult> {
+  const query = requireString(args, 'query');
+  const limit = typeof args?.limit === 'number' && args.limit > 0
+    ? Math.min(Math.floor(args.limit), SEARCH_MAX_LIMIT)
+    : SEARCH_DEFAULT_LIMIT;
+  const agent = await fetchBlocks(ctx, apiKey);
+
+  const matches = searchBlocks(agent.blocks || [], { prompt: query }, limit);
+  if (matches.length === 0) {
+    return textResult(`Nothing in Sub's memory matches "${query}". Blocks: ${listLabels(agent)}`);
+  }
+  return textResult(matches
+    .map(match => `<memory_match block="${escapeXmlAttribute(match.label)}" score="${match.score.toFixed(2)}">\n${escapeXmlContent(match.text)}\n</memory_match>`)
+    .join('\n'));
+}
+
+async function readBlock(ctx: ServerContext, apiKey: string, args: any): Promise<ToolResult> {
+  const label = requireString(args, 'label');
+  const agent = await fetchBlocks(ctx, apiKey);
+
+  const block = (agent.blocks || []).find(b => b.label === label);
+  if (!block) {
+    return textResult(`Sub has no memory block "${label}". Blocks: ${listLabels(agent)}`, true);
+  }
+  return textResult(`<${block.label} description="${escapeXmlAttribute(block.description || '')}">\n${escapeXmlContent(block.value || '')}\n</${block.label}>`);
+}
+
+async function proposeMemoryUpdate(ctx: ServerContext, apiKey: string, args: any): Promise<ToolResult> {
+  const label = requireString(args, 'label');
+  const change = requireString(args, 'change');
+  const reason = typeof args?.reason === 'string' && args.reason.trim() ? args.reason.trim() : null;
+  const agentId = await getAgentId(apiKey, ctx.log);
+  const { conversationId } = await resolveConversation(ctx, apiKey, agentId);
+
+  try {
+    await createLettaClient(apiKey).sendConversationMessage(conversationId, formatProposal(label, change, reason));
+  } catch (error) {
+    if (isConversationBusy(error)) {
+      return textResult(BUSY_MESSAGE, true);
+    }
+    throw error;
+  }
+  return textResult(`Sent to Sub. It decides whether to apply the change to "${label}"; if it does, the update shows up with the other memory changes.`);
+}
+
+const TOOL_HANDLERS: { [name: string]: (ctx: ServerContext, apiKey: string, args: any) => Promise<ToolResult> } = {
+  ask_subconscious: askSubconscious,
+  search_memory: searchMemory,
+  read_block: readBlock,
+  propose_memory_update: proposeMemoryUpdate,
+};
+
+/**
+ * Run a tool. Failures are reported to Claude as error results rather than
+ * protocol errors.
+ */
+export async function callTool(ctx: ServerContext, name: string, args: any): Promise<ToolResult> {
+  const handler = TOOL_HANDLERS[name];
+  if (!handler) {
+    return textResult(`Unknown tool: ${name}`, true);
+  }
+  if (getMode() === 'off') {
+    return textResult('Claude Subconscious is turned off (LETTA_MODE=off).', true);
+  }
+  if (!ctx.apiKey) {
+    return textResult('LETTA_API_KEY is not set, so Sub cannot be reached.', true);
+  }
+
+  try {
+    return await handler(ctx, ctx.apiKey, args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    ctx.log(`${name} failed: ${message}`);
+    return textResult(`${name} failed: ${message}`, true);
+  }
+}
+
+function getServerVersion(): string {
+  try {
+    const packagePath = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'package.json');
+    return JSON.parse(fs.readFileSync(packagePath, 'utf-8')).version || '0.0.0';
+  } catch {
+    return '0.0.0';
+  }
+}
+
+/**
+ * Handle one JSON-RPC message. Returns the response, or null for
+ * notifications.
+ */
+export async function handleMessage(ctx: ServerContext, message: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+  if (message.id === undefined || message.id === null) {
+    return null;
+  }
+  const id = message.id;
+  const respond = (result: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id, result });
+  const fail = (code: number, text: string): JsonRpcResponse => ({ jsonrpc: '2.0', id, error: { code, message: text } });
+
+  switch (message.method) {
+    case 'initialize': {
+      const requested = message.params?.protocolVersion;
+      return respond({
+        protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {} },
+        serverInfo: { name: 'claude-subconscious', version: getServerVersion() },
+      });
+    }
+    case 'ping':
+      return respond({});
+    case 'tools/list':
+      return respond({ tools: TOOLS });
+    case 'tools/call':
+      if (typeof message.params?.name !== 'string') {
+        return fail(INVALID_PARAMS, 'Missing tool name');
+      }
+      return respond(await callTool(ctx, message.params.name, message.params.arguments || {}));
+    default:
+      return fail(METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+  }
+}
+
+/**
+ * Handle one line of input: parse and validate it, then answer it. Errors
+ * become JSON-RPC error responses so the server keeps running.
+ */
+export async function handleLine(ctx: ServerContext, line: string): Promise<JsonRpcResponse | null> {
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } };
+  }
+
+  const id = message && typeof message === 'object' && (typeof message.id === 'string' || typeof message.id === 'number')
+    ? message.id
+    : null;
+  if (!message || typeof message !== 'object' || Array.isArray(message) || typeof message.method !== 'string') {
+    return { jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid Request' } };
+  }
+
+  try {
+    return await handleMessage(ctx, message);
+  } catch (error) {
+    ctx.log(`Failed to handle ${message.method}: ${error}`);
+    return { jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: 'Internal error' } };
+  }
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  // Stdout carries the protocol; anything logged goes to stderr instead
+  console.log = console.error;
+
+  const ctx: ServerContext = {
+    apiKey: process.env.LETTA_API_KEY,
+    cwd: process.env.CLAUDE_PROJECT_DIR || process.cwd(),
+    log: (msg) => debug(msg),
+  };
+  const write = (response: JsonRpcResponse) => process.stdout.write(`${JSON.stringify(response)}\n`);
+
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', async (line) => {
+    if (!line.trim()) {
+      return;
+    }
+    const response = await handleLine(ctx, line);
+    if (response) {
+      write(response);
+    }
+  });
+}
+
+if (isMainModule(import.meta.url)) {
+  main();
+}
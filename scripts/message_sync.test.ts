@@ -0,0 +1,83 @@
+/**
+ * Tests for message_sync.ts
+ *
+ * Pages through conversations on the fake Letta server and checks ordering,
+ * the cursor and what is cached.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeConversation, FakeLettaServer } from './fake_letta_server.js';
+import { LettaClient, setRequestPolicy } from './letta_client.js';
+import { fetchNewMessages, MESSAGE_PAGE_SIZE } from './message_sync.js';
+
+let tmpDir: string;
+let server: FakeLettaServer;
+let conversation: FakeConversation;
+let client: LettaClient;
+
+describe('fetchNewMessages', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-sync-test-'));
+    vi.stubEnv('TMPDIR', tmpDir);
+    server = new FakeLettaServer();
+    conversation = server.addConversation(server.addAgent().id);
+    client = new LettaClient({ apiKey: 'test-key', transport: server.fetch });
+    setRequestPolicy({ retryBaseDelayMs: 0 });
+  });
+
+  afterEach(() => {
+    setRequestPolicy(null);
+    vi.unstubAllEnvs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns the newest page oldest first when there is no cursor', async () => {
+    server.addAssistantMessage(conversation.id, 'first');
+    server.addAssistantMessage(conversation.id, 'second');
+
+    const result = await fetchNewMessages(client, conversation.id, null, 0);
+
+    expect(result.messages.map(m => m.text)).toEqual(['first', 'second']);
+    expect(result.lastMessageId).toBe(result.messages[1].id);
+  });
+
+  it('pages forward from the cursor past other message types', async () => {
+    const seen = server.addAssistantMessage(conversation.id, 'seen');
+    for (let i = 0; i < MESSAGE_PAGE_SIZE + 5; i++) {
+      server.addAssistantMessage(conversation.id, `reply ${i}`);
+    }
+    await client.sendConversationMessage(conversation.id, 'transcript');
+
+    const result = await fetchNewMessages(client, conversation.id, seen.id, 0);
+
+    expect(result.messages).toHaveLength(MESSAGE_PAGE_SIZE + 5);
+    expect(result.messages[0].text).toBe('reply 0');
+    expect(result.messages.at(-1)!.text).toBe(`reply ${MESSAGE_PAGE_SIZE + 4}`);
+    // The cursor moves past the user message too
+    const after = server.requests.filter(r => r.method === 'GET').map(r => r.query.after);
+    expect(after).toEqual([seen.id, result.messages[MESSAGE_PAGE_SIZE - 1].id]);
+    expect(result.lastMessageId).not.toBe(result.messages.at(-1)!.id);
+
+    const again = await fetchNewMessages(client, conversation.id, result.lastMessageId, 10000);
+    expect(again.messages).toEqual([]);
+  });
+
+  it('skips to the newest message when the cursor no longer exists', async () => {
+    const newest = server.addAssistantMessage(conversation.id, 'old reply');
+
+    const result = await fetchNewMessages(client, conversation.id, 'message-gone', 0);
+
+    expect(result).toEqual({ messages: [], lastMessageId: newest.id });
+  });
+
+  it('keeps the cursor when the server is unavailable', async () => {
+    server.fail(/\/messages$/, 503, { times: 3 });
+
+    const result = await fetchNewMessages(client, conversation.id, 'message-seen', 0);
+
+    expect(result).toEqual({ messages: [], lastMessageId: 'message-seen' });
+  });
+});
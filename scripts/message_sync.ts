@@ -0,0 +1,122 @@
+/**
+ * Message Sync
+ *
+ * Fetches the messages Sub has sent to a session's conversation since the
+ * last one Claude was shown. Shared by the UserPromptSubmit
+ * (sync_letta_memory.ts) and PreToolUse (pretool_sync.ts) hooks, so both
+ * agree on what is new and neither marks a message seen that it never showed.
+ *
+ * Pages forward from lastSeenMessageId with the API's `after` cursor, oldest
+ * first. Without a cursor (first prompt of a session) only the newest page is
+ * read. The API doesn't guarantee its ordering, so each page is also sorted
+ * by date here. The cursor is the newest message of any type, not just Sub's
+ * replies, so the next sync starts after the transcripts sent in between.
+ */
+
+import { LogFn } from './conversation_utils.js';
+import { cacheEmptyMessagePage, invalidateCache, listConversationMessagesCached } from './letta_cache.js';
+import { LettaApiError, LettaClient, LettaMessage } from './letta_client.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+export const MESSAGE_PAGE_SIZE = 50;
+// Stop after this many pages; the rest is fetched by the next sync
+const MAX_PAGES = 10;
+
+export interface MessageInfo {
+  id: string;
+  text: string;
+  date: string | null;
+}
+
+export interface MessageSyncResult {
+  /** Sub's new messages, oldest first */
+  messages: MessageInfo[];
+  /** Cursor to save as lastSeenMessageId */
+  lastMessageId: string | null;
+}
+
+/**
+ * Sort messages oldest first, keeping the API's order for equal dates
+ */
+function sortByDate(messages: LettaMessage[]): LettaMessage[] {
+  const time = (msg: LettaMessage) => (msg.date ? new Date(msg.date).getTime() : 0);
+  return messages
+    .map((msg, index) => ({ msg, index }))
+    .sort((a, b) => time(a.msg) - time(b.msg) || a.index - b.index)
+    .map(({ msg }) => msg);
+}
+
+function toMessageInfo(msg: LettaMessage): MessageInfo | null {
+  const text = msg.content || msg.text;
+  if (msg.message_type !== 'assistant_message' || !text || typeof text !== 'string') {
+    return null;
+  }
+  return { id: msg.id, text, date: msg.date || null };
+}
+
+/**
+ * Fetch Sub's messages newer than lastSeenMessageId. `maxAgeMs` is how long
+ * a cached page may be used without revalidating (0 always revalidates).
+ * On API errors nothing is returned and the cursor stays where it was.
+ */
+export async function fetchNewMessages(
+  client: LettaClient,
+  conversationId: string | null,
+  lastSeenMessageId: string | null,
+  maxAgeMs: number,
+  log: LogFn = noopLog,
+): Promise<MessageSyncResult> {
+  if (!conversationId) {
+    return { messages: [], lastMessageId: null };
+  }
+
+  const fetched: LettaMessage[] = [];
+  const pageCursors: Array<string | null> = [];
+  let cursor = lastSeenMessageId;
+  let complete = false;
+  try {
+    for (let page = 0; page < MAX_PAGES; page++) {
+      pageCursors.push(cursor);
+      const messages = sortByDate(await listConversationMessagesCached(
+        client, conversationId, cursor, MESSAGE_PAGE_SIZE, maxAgeMs, log,
+      ));
+      fetched.push(...messages);
+      if (messages.length > 0) {
+        cursor = messages[messages.length - 1].id;
+      }
+      // Without a cursor only the newest page is wanted
+      if (!lastSeenMessageId || messages.length < MESSAGE_PAGE_SIZE) {
+        complete = true;
+        break;
+      }
+    }
+  } catch (error) {
+    if (lastSeenMessageId && error instanceof LettaApiError && error.status === 404) {
+      // The last seen message is gone (e.g. the conversation was reset);
+      // start again after the newest message rather than replay history
+      log(`Message ${lastSeenMessageId} not found, skipping to the newest message`);
+      const { lastMessageId } = await fetchNewMessages(client, conversationId, null, maxAgeMs, log);
+      return { messages: [], lastMessageId };
+    }
+    log(`Could not fetch messages: ${error instanceof Error ? error.message : String(error)}`);
+    return { messages: [], lastMessageId: lastSeenMessageId };
+  }
+
+  // Only the page after the new cursor will be asked for again. Nothing
+  // follows it yet, which saves PreToolUse a request until the cache expires.
+  const lastMessageId = cursor;
+  for (const pageCursor of pageCursors) {
+    if (pageCursor !== lastMessageId) {
+      invalidateCache(`messages-${conversationId}-${pageCursor ?? 'latest'}-`);
+    }
+  }
+  if (complete && lastMessageId && lastMessageId !== lastSeenMessageId) {
+    cacheEmptyMessagePage(conversationId, lastMessageId, MESSAGE_PAGE_SIZE);
+  }
+
+  const messages = fetched.map(toMessageInfo).filter((msg): msg is MessageInfo => msg !== null);
+  log(`Fetched ${fetched.length} messages after ${lastSeenMessageId || '(start)'}, ${messages.length} new from Sub`);
+  return { messages, lastMessageId };
+}
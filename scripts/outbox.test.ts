@@ -0,0 +1,245 @@
+/**
+ * Tests for outbox.ts
+ *
+ * Covers enqueue/list ordering, per-conversation ordering during drain,
+ * retry backoff after failures, giving up on undeliverable entries, sync
+ * state updates on delivery, claims between concurrent workers and
+ * coalescing of queued transcript slices.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  coalesceOutboxEntry,
+  computeBackoffMs,
+  drainOutbox,
+  enqueueOutboxEntry,
+  findCoalescableEntry,
+  getFailedOutboxDir,
+  getOutboxDir,
+  hasPendingOutboxEntries,
+  listOutboxEntries,
+  NewOutboxEntry,
+  OutboxEntry,
+  OUTBOX_MAX_ATTEMPTS,
+} from './outbox.js';
+import { loadSyncState, saveSyncState } from './conversation_utils.js';
+
+let cwd: string;
+
+function entryFields(overrides: Partial<NewOutboxEntry> = {}): NewOutboxEntry {
+  return {
+    sessionId: 'session-1',
+    conversationId: 'conv-1',
+    agentId: 'agent-1',
+    cwd,
+    message: 'hello',
+    sdkToolsMode: 'read-only',
+    ...overrides,
+  };
+}
+
+describe('outbox', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-test-'));
+    delete process.env.LETTA_HOME;
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('lists entries oldest first', () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'first' }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'second' }));
+
+    const entries = listOutboxEntries(cwd);
+    expect(entries.map(e => e.message)).toEqual(['first', 'second']);
+    expect(hasPendingOutboxEntries(cwd)).toBe(true);
+  });
+
+  it('delivers entries in order and advances lastProcessedIndex', async () => {
+    saveSyncState(cwd, { sessionId: 'session-1', lastProcessedIndex: -1, lastQueuedIndex: 9 });
+    enqueueOutboxEntry(cwd, entryFields({ message: 'a', newLastProcessedIndex: 4 }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'b', newLastProcessedIndex: 9 }));
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (entry) => {
+      delivered.push(entry.message);
+    });
+
+    expect(delivered).toEqual(['a', 'b']);
+    expect(result).toEqual({ sent: 2, failed: 0, deferred: 0 });
+    expect(hasPendingOutboxEntries(cwd)).toBe(false);
+    expect(loadSyncState(cwd, 'session-1').lastProcessedIndex).toBe(9);
+  });
+
+  it('stops a conversation at the first failure but keeps draining others', async () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'fails' }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'blocked' }));
+    enqueueOutboxEntry(cwd, entryFields({ conversationId: 'conv-2', message: 'other' }));
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (entry: OutboxEntry) => {
+      if (entry.message === 'fails') throw new Error('503 Service Unavailable');
+      delivered.push(entry.message);
+    });
+
+    expect(delivered).toEqual(['other']);
+    expect(result).toEqual({ sent: 1, failed: 1, deferred: 1 });
+
+    const remaining = listOutboxEntries(cwd);
+    expect(remaining.map(e => e.message)).toEqual(['fails', 'blocked']);
+    expect(remaining[0].attempts).toBe(1);
+    expect(remaining[0].lastError).toBe('503 Service Unavailable');
+  });
+
+  it('moves entries that fail with a client error to failed/ and drains the rest', async () => {
+    saveSyncState(cwd, { sessionId: 'session-1', lastProcessedIndex: -1 });
+    const rejected = enqueueOutboxEntry(cwd, entryFields({ message: 'too long', newLastProcessedIndex: 4 }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'next' }));
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (entry) => {
+      if (entry.message === 'too long') throw Object.assign(new Error('Letta API error (400)'), { status: 400 });
+      delivered.push(entry.message);
+    });
+
+    expect(delivered).toEqual(['next']);
+    expect(result).toEqual({ sent: 1, failed: 1, deferred: 0 });
+    expect(hasPendingOutboxEntries(cwd)).toBe(false);
+    const failed = JSON.parse(fs.readFileSync(path.join(getFailedOutboxDir(cwd), `${rejected.id}.json`), 'utf-8'));
+    expect(failed).toMatchObject({ message: 'too long', attempts: 1, lastError: 'Letta API error (400)' });
+    expect(failed.failedAt).toBeDefined();
+    expect(failed.claimedBy).toBeUndefined();
+    // The slice isn't queued again by the next Stop hook
+    expect(loadSyncState(cwd, 'session-1').lastProcessedIndex).toBe(4);
+  });
+
+  it('gives up on an entry after the last attempt', async () => {
+    const entry = enqueueOutboxEntry(cwd, entryFields({ message: 'flaky' }));
+    fs.writeFileSync(path.join(getOutboxDir(cwd), `${entry.id}.json`), JSON.stringify({ ...entry, attempts: OUTBOX_MAX_ATTEMPTS - 2 }));
+    const fail = async () => { throw Object.assign(new Error('Letta API error (503)'), { status: 503 }); };
+
+    await drainOutbox(cwd, fail, undefined, { ignoreBackoff: true });
+    expect(listOutboxEntries(cwd)[0].attempts).toBe(OUTBOX_MAX_ATTEMPTS - 1);
+
+    await drainOutbox(cwd, fail, undefined, { ignoreBackoff: true });
+    expect(hasPendingOutboxEntries(cwd)).toBe(false);
+    expect(fs.readdirSync(getFailedOutboxDir(cwd))).toEqual([`${entry.id}.json`]);
+  });
+
+  it('defers entries that are still backing off', async () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'retry me' }));
+    let now = Date.now();
+
+    await drainOutbox(cwd, async () => { throw new Error('offline'); }, undefined, { now: () => now });
+
+    const send = async () => {};
+    const deferred = await drainOutbox(cwd, send, undefined, { now: () => now + 1000 });
+    expect(deferred).toEqual({ sent: 0, failed: 0, deferred: 1 });
+
+    now += computeBackoffMs(1);
+    const retried = await drainOutbox(cwd, send, undefined, { now: () => now });
+    expect(retried).toEqual({ sent: 1, failed: 0, deferred: 0 });
+  });
+
+  it('starts no delivery after the deadline', async () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'a' }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'b' }));
+    enqueueOutboxEntry(cwd, entryFields({ conversationId: 'conv-2', message: 'c' }));
+    let now = Date.now();
+    const deadline = now + 5000;
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (entry) => {
+      delivered.push(entry.message);
+      now += 5000;
+    }, undefined, { deadline, now: () => now });
+
+    expect(delivered).toEqual(['a']);
+    expect(result).toEqual({ sent: 1, failed: 0, deferred: 2 });
+    expect(listOutboxEntries(cwd).map(e => e.message)).toEqual(['b', 'c']);
+  });
+
+  it('only drains the requested session and saves replies', async () => {
+    const responseFile = path.join(cwd, 'notes.md');
+    enqueueOutboxEntry(cwd, entryFields({ message: 'mine', responseFile }));
+    enqueueOutboxEntry(cwd, entryFields({ sessionId: 'session-2', conversationId: 'conv-2', message: 'theirs' }));
+
+    const result = await drainOutbox(cwd, async (entry) => `reply to ${entry.message}`, undefined, { sessionId: 'session-1' });
+
+    expect(result.sent).toBe(1);
+    expect(fs.readFileSync(responseFile, 'utf-8')).toBe('reply to mine');
+    expect(listOutboxEntries(cwd).map(e => e.message)).toEqual(['theirs']);
+  });
+
+  it('leaves entries claimed by another live worker alone', async () => {
+    const entry = enqueueOutboxEntry(cwd, entryFields({ message: 'claimed' }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'behind' }));
+    const claimed = { ...entry, claimedBy: process.ppid, claimedAt: new Date().toISOString() };
+    fs.writeFileSync(path.join(getOutboxDir(cwd), `${entry.id}.json`), JSON.stringify(claimed));
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (e) => { delivered.push(e.message); });
+    expect(delivered).toEqual([]);
+    expect(result).toEqual({ sent: 0, failed: 0, deferred: 2 });
+
+    // An abandoned claim is taken over
+    const stale = { ...claimed, claimedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString() };
+    fs.writeFileSync(path.join(getOutboxDir(cwd), `${entry.id}.json`), JSON.stringify(stale));
+    await drainOutbox(cwd, async (e) => { delivered.push(e.message); });
+    expect(delivered).toEqual(['claimed', 'behind']);
+  });
+
+  it('delivers entries queued while a drain is sending', async () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'first' }));
+
+    const delivered: string[] = [];
+    const result = await drainOutbox(cwd, async (entry) => {
+      delivered.push(entry.message);
+      if (entry.message === 'first') {
+        enqueueOutboxEntry(cwd, entryFields({ message: 'second' }));
+      }
+    });
+
+    expect(delivered).toEqual(['first', 'second']);
+    expect(result.sent).toBe(2);
+  });
+
+  it('only coalesces into the newest unclaimed transcript entry', async () => {
+    expect(findCoalescableEntry(cwd, 'session-1', 'conv-1')).toBeNull();
+
+    const queued = enqueueOutboxEntry(cwd, entryFields({ message: 'turn 1', transcriptStartIndex: 4, newLastProcessedIndex: 9 }));
+    const pending = findCoalescableEntry(cwd, 'session-1', 'conv-1');
+    expect(pending?.id).toBe(queued.id);
+
+    coalesceOutboxEntry(cwd, pending!, 'turns 1-2', 14);
+    const [merged] = listOutboxEntries(cwd);
+    expect(merged).toMatchObject({ id: queued.id, message: 'turns 1-2', transcriptStartIndex: 4, newLastProcessedIndex: 14 });
+
+    // Nothing may jump ahead of a notes request
+    enqueueOutboxEntry(cwd, entryFields({ message: 'notes', responseFile: path.join(cwd, 'notes.md') }));
+    expect(findCoalescableEntry(cwd, 'session-1', 'conv-1')).toBeNull();
+  });
+
+  it('does not coalesce into an entry a worker is sending', async () => {
+    enqueueOutboxEntry(cwd, entryFields({ message: 'turn 1', transcriptStartIndex: 4 }));
+
+    let pendingDuringSend: OutboxEntry | null | undefined;
+    await drainOutbox(cwd, async () => {
+      pendingDuringSend = findCoalescableEntry(cwd, 'session-1', 'conv-1');
+    });
+
+    expect(pendingDuringSend).toBeNull();
+  });
+
+  it('caps backoff growth', () => {
+    expect(computeBackoffMs(0)).toBe(0);
+    expect(computeBackoffMs(1)).toBe(30 * 1000);
+    expect(computeBackoffMs(2)).toBe(60 * 1000);
+    expect(computeBackoffMs(50)).toBe(30 * 60 * 1000);
+  });
+});
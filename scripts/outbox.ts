@@ -0,0 +1,477 @@
+/**
+ * Durable Outbox
+ *
+ * Persistent queue of messages waiting to be delivered to the Letta agent.
+ * Entries live under {durable state dir}/outbox/ so a failed delivery
+ * (network down, Letta 5xx, SDK crash) is retried on the next hook
+ * invocation instead of being lost.
+ *
+ * Ordering is preserved per conversation: an entry is only attempted once
+ * every older entry for the same conversation has been delivered.
+ *
+ * An entry that fails with a client error (e.g. 400 for an oversized message,
+ * 404 for a deleted conversation) or fails OUTBOX_MAX_ATTEMPTS times is moved
+ * to outbox/failed/, so one undeliverable message doesn't hold up the rest of
+ * its conversation forever.
+ *
+ * A worker claims an entry (under the session lock) before sending it, so
+ * concurrent workers never deliver the same entry twice. Until it is
+ * claimed, a newer Stop hook folds its transcript slice into the queued
+ * entry instead of adding an overlapping one.
+ *
+ * Used by the hooks (enqueue), send_worker_sdk.ts, sdk_daemon.ts and
+ * precompact_flush.ts (drain).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImageUpload } from './attachments.js';
+import {
+  getDurableStateDir,
+  loadSyncState,
+  saveSyncState,
+  LogFn,
+  SdkToolsMode,
+  writeJsonFileAtomic,
+} from './conversation_utils.js';
+import { archiveSession } from './session_archive.js';
+import { isProcessAlive, withSessionLock } from './session_lock.js';
+import { TranscriptCursor } from './transcript_utils.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+// Retry backoff: 30s, 1m, 2m, 4m, ... capped at 30 minutes
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+// Attempts before an entry is given up on (about 3 hours of backoff)
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+// A claim older than this is assumed abandoned even if its PID was reused
+const CLAIM_STALE_MS = 30 * 60 * 1000;
+
+export interface OutboxEntry {
+  id: string;
+  sessionId: string;
+  conversationId: string;
+  agentId: string;
+  cwd: string;
+  message: string;
+  /** Images sent along with the message (LETTA_IMAGE_UPLOAD=on) */
+  images?: ImageUpload[];
+  sdkToolsMode: SdkToolsMode;
+  /** Transcript index to record as processed once this entry is delivered */
+  newLastProcessedIndex?: number;
+  /** Transcript index the message starts after (Stop hook entries only) */
+  transcriptStartIndex?: number;
+  /** Transcript position the message starts at, to re-read it when extending */
+  transcriptStart?: TranscriptCursor;
+  /** Where to save Sub's reply once delivered (e.g. pre-compaction notes) */
+  responseFile?: string;
+  /** Archive the session's state once delivered (sent by SessionEnd) */
+  finalizeSession?: boolean;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  /** When the entry was given up on (entries in outbox/failed/ only) */
+  failedAt?: string;
+  /** PID of the worker currently delivering this entry */
+  claimedBy?: number;
+  claimedAt?: string;
+}
+
+export type NewOutboxEntry = Omit<
+  OutboxEntry,
+  'id' | 'createdAt' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'failedAt' | 'claimedBy' | 'claimedAt'
+>;
+
+/**
+ * Delivers a single entry. Resolves (optionally with Sub's reply) on
+ * success, throws on failure.
+ */
+export type OutboxSender = (entry: OutboxEntry) => Promise<string | void>;
+
+export interface DrainOptions {
+  /** Only deliver entries for this session */
+  sessionId?: string;
+  /** Retry entries that are still backing off */
+  ignoreBackoff?: boolean;
+  /** Start no delivery after this time (ms since epoch); the rest are deferred */
+  deadline?: number;
+  now?: () => number;
+}
+
+export interface DrainResult {
+  sent: number;
+  failed: number;
+  deferred: number;
+}
+
+/**
+ * Get outbox directory path
+ */
+export function getOutboxDir(cwd: string): string {
+  return path.join(getDurableStateDir(cwd), 'outbox');
+}
+
+/**
+ * Get the directory undeliverable entries are moved to
+ */
+export function getFailedOutboxDir(cwd: string): string {
+  return path.join(getOutboxDir(cwd), 'failed');
+}
+
+function getOutboxEntryFile(cwd: string, id: string): string {
+  return path.join(getOutboxDir(cwd), `${id}.json`);
+}
+
+// Disambiguates entries created within the same millisecond
+let entrySequence = 0;
+
+/**
+ * Build a lexicographically sortable entry ID (creation time first)
+ */
+function createEntryId(): string {
+  const time = Date.now().toString().padStart(15, '0');
+  const seq = (entrySequence++).toString().padStart(4, '0');
+  return `${time}-${seq}-${process.pid}`;
+}
+
+/**
+ * Compute the retry delay after a given number of failed attempts
+ */
+export function computeBackoffMs(attempts: number): number {
+  if (attempts <= 0) return 0;
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+function writeEntry(cwd: string, entry: OutboxEntry): void {
+  // Atomic so a crash never leaves a half-written entry
+  writeJsonFileAtomic(getOutboxEntryFile(cwd, entry.id), entry);
+}
+
+/**
+ * Add a message to the outbox
+ */
+export function enqueueOutboxEntry(cwd: string, fields: NewOutboxEntry, log: LogFn = noopLog): OutboxEntry {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    ...fields,
+    id: createEntryId(),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  writeEntry(cwd, entry);
+  log(`Enqueued outbox entry ${entry.id} for conversation ${entry.conversationId} (${entry.message.length} chars)`);
+  return entry;
+}
+
+/**
+ * List all outbox entries, oldest first
+ */
+export function listOutboxEntries(cwd: string, log: LogFn = noopLog): OutboxEntry[] {
+  const dir = getOutboxDir(cwd);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const entries: OutboxEntry[] = [];
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+    try {
+      entries.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+    } catch (e) {
+      log(`Failed to read outbox entry ${file}: ${e}`);
+    }
+  }
+  return entries;
+}
+
+function readEntry(cwd: string, id: string): OutboxEntry | null {
+  try {
+    return JSON.parse(fs.readFileSync(getOutboxEntryFile(cwd, id), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether another live worker is delivering an entry
+ */
+export function isEntryClaimed(entry: OutboxEntry, now: number = Date.now()): boolean {
+  if (entry.claimedBy === undefined || !entry.claimedAt) {
+    return false;
+  }
+  return isProcessAlive(entry.claimedBy) && now - new Date(entry.claimedAt).getTime() < CLAIM_STALE_MS;
+}
+
+/**
+ * Find the session's newest queued transcript entry that no worker has
+ * claimed yet, so a new Stop hook can extend it instead of queueing an
+ * overlapping slice. Call while holding the session lock.
+ */
+export function findCoalescableEntry(
+  cwd: string,
+  sessionId: string,
+  conversationId: string,
+  now: number = Date.now(),
+): OutboxEntry | null {
+  const queue = listOutboxEntries(cwd).filter(e => e.conversationId === conversationId);
+  const newest = queue[queue.length - 1];
+  if (!newest || newest.sessionId !== sessionId || newest.transcriptStartIndex === undefined) {
+    return null;
+  }
+  // Notes requests and session endings must stay last in line
+  if (newest.responseFile || newest.finalizeSession || isEntryClaimed(newest, now)) {
+    return null;
+  }
+  return newest;
+}
+
+/**
+ * Replace a queued entry's message with one covering newer transcript.
+ * Call while holding the session lock.
+ */
+export function coalesceOutboxEntry(
+  cwd: string,
+  entry: OutboxEntry,
+  message: string,
+  newLastProcessedIndex: number,
+  log: LogFn = noopLog,
+  images?: ImageUpload[],
+): OutboxEntry {
+  const updated: OutboxEntry = { ...entry, message, newLastProcessedIndex, images };
+  writeEntry(cwd, updated);
+  log(`Coalesced into outbox entry ${entry.id} for conversation ${entry.conversationId} (${message.length} chars)`);
+  return updated;
+}
+
+/**
+ * Claim an entry for delivery. Returns null if another worker got to it
+ * first or it was removed in the meantime.
+ */
+async function claimOutboxEntry(cwd: string, entry: OutboxEntry, now: number, log: LogFn): Promise<OutboxEntry | null> {
+  return withSessionLock(cwd, entry.sessionId, () => {
+    // Re-read: a Stop hook may have extended the message since it was listed
+    const current = readEntry(cwd, entry.id);
+    if (!current || isEntryClaimed(current, now)) {
+      return null;
+    }
+    const claimed: OutboxEntry = { ...current, claimedBy: process.pid, claimedAt: new Date(now).toISOString() };
+    writeEntry(cwd, claimed);
+    return claimed;
+  }, { log });
+}
+
+/**
+ * Remove a delivered entry from the outbox
+ */
+export function removeOutboxEntry(cwd: string, id: string): void {
+  const filePath = getOutboxEntryFile(cwd, id);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Record a failed delivery attempt and schedule the next retry
+ */
+export function recordOutboxFailure(
+  cwd: string,
+  entry: OutboxEntry,
+  error: string,
+  now: number = Date.now(),
+): OutboxEntry {
+  const { claimedBy, claimedAt, ...unclaimed } = entry;
+  const attempts = entry.attempts + 1;
+  const updated: OutboxEntry = {
+    ...unclaimed,
+    attempts,
+    lastError: error,
+    nextAttemptAt: new Date(now + computeBackoffMs(attempts)).toISOString(),
+  };
+  writeEntry(cwd, updated);
+  return updated;
+}
+
+/**
+ * Whether a delivery error will fail the same way on every retry: a 4xx
+ * other than timeout, conflict or rate limiting
+ */
+export function isPermanentFailure(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
+}
+
+/**
+ * Move an entry that can't be delivered to outbox/failed/, recording why
+ */
+export function moveOutboxEntryToFailed(
+  cwd: string,
+  entry: OutboxEntry,
+  error: string,
+  now: number = Date.now(),
+): OutboxEntry {
+  const { claimedBy, claimedAt, ...unclaimed } = entry;
+  const failed: OutboxEntry = {
+    ...unclaimed,
+    attempts: entry.attempts + 1,
+    lastError: error,
+    failedAt: new Date(now).toISOString(),
+  };
+  writeJsonFileAtomic(path.join(getFailedOutboxDir(cwd), `${entry.id}.json`), failed);
+  removeOutboxEntry(cwd, entry.id);
+  return failed;
+}
+
+/**
+ * Check whether any entries are waiting for delivery
+ */
+export function hasPendingOutboxEntries(cwd: string): boolean {
+  const dir = getOutboxDir(cwd);
+  return fs.existsSync(dir) && fs.readdirSync(dir).some(f => f.endsWith('.json'));
+}
+
+/**
+ * Record a successful delivery: save Sub's reply if requested, advance the
+ * session's lastProcessedIndex and archive ended sessions. Also called,
+ * without a reply, for entries given up on, so the next Stop hook doesn't
+ * queue the same transcript slice again.
+ */
+function markDelivered(entry: OutboxEntry, response: string | void, log: LogFn): void {
+  if (entry.responseFile && response) {
+    fs.mkdirSync(path.dirname(entry.responseFile), { recursive: true });
+    fs.writeFileSync(entry.responseFile, response, 'utf-8');
+    log(`Saved response for ${entry.id} to ${entry.responseFile}`);
+  }
+  if (entry.newLastProcessedIndex !== undefined) {
+    const state = loadSyncState(entry.cwd, entry.sessionId, log);
+    if (entry.newLastProcessedIndex > state.lastProcessedIndex) {
+      state.lastProcessedIndex = entry.newLastProcessedIndex;
+      saveSyncState(entry.cwd, state, log);
+    }
+  }
+  if (entry.finalizeSession) {
+    archiveSession(entry.cwd, entry.sessionId, log);
+  }
+}
+
+interface NextEntry {
+  entry: OutboxEntry;
+  /** Entries queued behind it for the same conversation */
+  behind: number;
+}
+
+/**
+ * Find the first deliverable entry, skipping conversations already stopped
+ * in this drain. Conversations that are backing off or being delivered by
+ * another worker are stopped and counted as deferred.
+ */
+function findNextEntry(
+  cwd: string,
+  stopped: Set<string>,
+  result: DrainResult,
+  options: DrainOptions,
+  now: number,
+  log: LogFn,
+): NextEntry | null {
+  // Group by conversation, keeping oldest-first order
+  const byConversation = new Map<string, OutboxEntry[]>();
+  for (const entry of listOutboxEntries(cwd, log)) {
+    if ((options.sessionId && entry.sessionId !== options.sessionId) || stopped.has(entry.conversationId)) {
+      continue;
+    }
+    const queue = byConversation.get(entry.conversationId) || [];
+    queue.push(entry);
+    byConversation.set(entry.conversationId, queue);
+  }
+
+  for (const [conversationId, queue] of byConversation) {
+    const head = queue[0];
+    if (isEntryClaimed(head, now)) {
+      log(`Outbox entry ${head.id} is being delivered by PID ${head.claimedBy}, leaving ${queue.length} entries for ${conversationId} to it`);
+    } else if (!options.ignoreBackoff && new Date(head.nextAttemptAt).getTime() > now) {
+      log(`Outbox entry ${head.id} backing off until ${head.nextAttemptAt}, deferring ${queue.length} entries for ${conversationId}`);
+    } else {
+      return { entry: head, behind: queue.length - 1 };
+    }
+    stopped.add(conversationId);
+    result.deferred += queue.length;
+  }
+  return null;
+}
+
+/**
+ * Deliver every due entry, preserving order within each conversation.
+ *
+ * When an entry fails (or is still backing off), later entries for the same
+ * conversation are left in place so they are never delivered out of order,
+ * unless the entry is given up on and moved to outbox/failed/.
+ * The outbox is re-read after every delivery, so entries queued or extended
+ * while this worker was sending are picked up by it rather than by a
+ * second worker.
+ */
+export async function drainOutbox(
+  cwd: string,
+  send: OutboxSender,
+  log: LogFn = noopLog,
+  options: DrainOptions = {},
+): Promise<DrainResult> {
+  const result: DrainResult = { sent: 0, failed: 0, deferred: 0 };
+  const now = options.now || Date.now;
+  // Conversations that can't make further progress in this drain
+  const stopped = new Set<string>();
+
+  for (;;) {
+    if (options.deadline !== undefined && now() >= options.deadline) {
+      const left = listOutboxEntries(cwd, log)
+        .filter(e => (!options.sessionId || e.sessionId === options.sessionId) && !stopped.has(e.conversationId));
+      log(`Drain deadline passed, deferring ${left.length} entries`);
+      result.deferred += left.length;
+      break;
+    }
+
+    const next = findNextEntry(cwd, stopped, result, options, now(), log);
+    if (!next) {
+      break;
+    }
+
+    const entry = await claimOutboxEntry(cwd, next.entry, now(), log);
+    if (!entry) {
+      // Lost a race with another worker or a reset; look again
+      continue;
+    }
+
+    let response: string | void;
+    try {
+      log(`Delivering outbox entry ${entry.id} (attempt ${entry.attempts + 1})`);
+      response = await send(entry);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.failed++;
+      if (isPermanentFailure(error) || entry.attempts + 1 >= OUTBOX_MAX_ATTEMPTS) {
+        await withSessionLock(cwd, entry.sessionId, () => {
+          moveOutboxEntryToFailed(cwd, entry, errorMessage, now());
+          markDelivered(entry, undefined, log);
+        }, { log });
+        log(`Outbox entry ${entry.id} failed after ${entry.attempts + 1} attempts: ${errorMessage}; moved to ${getFailedOutboxDir(cwd)}`);
+        continue;
+      }
+      const updated = recordOutboxFailure(cwd, entry, errorMessage, now());
+      log(`Outbox entry ${entry.id} failed: ${errorMessage} (next attempt ${updated.nextAttemptAt})`);
+      result.deferred += next.behind;
+      stopped.add(entry.conversationId);
+      continue;
+    }
+
+    await withSessionLock(cwd, entry.sessionId, () => {
+      markDelivered(entry, response, log);
+      removeOutboxEntry(cwd, entry.id);
+    }, { log });
+    result.sent++;
+  }
+
+  return result;
+}
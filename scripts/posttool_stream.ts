@@ -0,0 +1,189 @@
+#!/usr/bin/env npx tsx
+/**
+ * PostToolUse Stream Script
+ *
+ * Records a compact summary of each tool outcome and periodically flushes
+ * the batch to the Letta agent, so Sub can react during a long agentic turn
+ * instead of only after the Stop hook fires.
+ *
+ * Flushes when a tool fails (or its output looks like a failure), when
+ * LETTA_TOOL_STREAM_BATCH events are buffered (default 10), or when the
+ * oldest buffered event is LETTA_TOOL_STREAM_INTERVAL seconds old (default 60).
+ *
+ * Environment Variables:
+ *   LETTA_API_KEY - API key for Letta authentication
+ *   LETTA_TOOL_STREAM - Set to "off" to disable
+ *
+ * Hook Input (via stdin):
+ *   - session_id, cwd, tool_name, tool_input, tool_response, tool_use_id
+ *   - error (PostToolUseFailure only)
+ *
+ * Exit Codes:
+ *   0 - Always (never blocks Claude Code)
+ *
+ * Log file: $TMPDIR/letta-claude-sync-$UID/posttool_stream.log
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { getConfiguredAgentId } from './agent_config.js';
+import { deliverOutbox } from './daemon_client.js';
+import {
+  getMode,
+  getSdkToolsMode,
+  getTempStateDir,
+  loadConversationsMap,
+  loadSyncState,
+} from './conversation_utils.js';
+import { enqueueOutboxEntry } from './outbox.js';
+import { createRedactor, describeRedactions, redactFields } from './redaction.js';
+import { loadSettings } from './settings.js';
+import { createToolFormatterRegistry } from './tool_formatters.js';
+import {
+  appendToolEvent,
+  createToolEvent,
+  formatToolActivityMessage,
+  getFlushPolicy,
+  isToolStreamEnabled,
+  readToolEvents,
+  shouldFlush,
+  takeToolEvents,
+} from './tool_events.js';
+
+// Configuration
+const TEMP_STATE_DIR = getTempStateDir();
+const LOG_FILE = path.join(TEMP_STATE_DIR, 'posttool_stream.log');
+
+interface HookInput {
+  session_id: string;
+  cwd: string;
+  hook_event_name?: string;
+  tool_name: string;
+  tool_input?: unknown;
+  tool_response?: unknown;
+  tool_use_id?: string;
+  error?: string;
+}
+
+/**
+ * Log message to file
+ */
+function log(message: string): void {
+  if (!fs.existsSync(TEMP_STATE_DIR)) {
+    fs.mkdirSync(TEMP_STATE_DIR, { recursive: true });
+  }
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Read hook input from stdin
+ */
+async function readHookInput(): Promise<HookInput | null> {
+  return new Promise((resolve) => {
+    let input = '';
+    const rl = readline.createInterface({ input: process.stdin });
+
+    rl.on('line', (line) => {
+      input += line;
+    });
+
+    rl.on('close', () => {
+      if (!input.trim()) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve(JSON.parse(input));
+      } catch {
+        resolve(null);
+      }
+    });
+
+    setTimeout(() => {
+      rl.close();
+    }, 100);
+  });
+}
+
+/**
+ * Resolve the conversation and agent for a session from local state only.
+ * No network calls: if SessionStart hasn't created a conversation yet, the
+ * events stay buffered until the Stop hook sends the full transcript.
+ */
+function resolveTarget(cwd: string, sessionId: string): { conversationId: string; agentId: string } | null {
+  const state = loadSyncState(cwd, sessionId);
+  const entry = loadConversationsMap(cwd).sessions[sessionId];
+
+  const conversationId = state.conversationId || entry?.conversationId;
+  const agentId = entry?.agentId || getConfiguredAgentId()?.agentId;
+  if (!conversationId || !agentId) {
+    return null;
+  }
+  return { conversationId, agentId };
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  if (getMode() === 'off' || !isToolStreamEnabled() || !process.env.LETTA_API_KEY) {
+    process.exit(0);
+  }
+
+  try {
+    const hookInput = await readHookInput();
+    if (!hookInput?.session_id || !hookInput?.cwd || !hookInput?.tool_name) {
+      process.exit(0);
+    }
+
+    const { cwd, session_id: sessionId } = hookInput;
+    const settings = loadSettings(log);
+    const formatters = createToolFormatterRegistry(settings.tools, log);
+    if (!formatters.get(hookInput.tool_name).send) {
+      process.exit(0);
+    }
+
+    const event = createToolEvent(hookInput, formatters);
+    appendToolEvent(cwd, sessionId, event);
+
+    const policy = getFlushPolicy();
+    if (!shouldFlush(readToolEvents(cwd, sessionId), policy)) {
+      process.exit(0);
+    }
+
+    const target = resolveTarget(cwd, sessionId);
+    if (!target) {
+      log(`No conversation for session ${sessionId} yet, keeping events buffered`);
+      process.exit(0);
+    }
+
+    const events = takeToolEvents(cwd, sessionId);
+    if (events.length === 0) {
+      // Another hook instance flushed first
+      process.exit(0);
+    }
+
+    const redactor = createRedactor(settings.redaction, log);
+    const { items: safeEvents, summary } = redactFields(events, ['input', 'result'], redactor);
+    log(`Flushing ${events.length} tool events for session ${sessionId} (${events.filter(e => e.isError).length} errors, ${describeRedactions(summary)})`);
+
+    enqueueOutboxEntry(cwd, {
+      agentId: target.agentId,
+      conversationId: target.conversationId,
+      sessionId,
+      cwd,
+      message: formatToolActivityMessage(sessionId, safeEvents),
+      sdkToolsMode: getSdkToolsMode(),
+    }, log);
+
+    await deliverOutbox(cwd, log);
+
+  } catch (error) {
+    log(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,249 @@
+#!/usr/bin/env npx tsx
+/**
+ * PreCompact Flush Script
+ *
+ * Runs before Claude Code compacts its context window. Once compaction
+ * happens, Sub only ever sees the "[Session Summary]" of what was dropped,
+ * so this hook:
+ *   1. Queues every transcript message Sub hasn't received yet
+ *   2. Asks Sub to record what matters and reply with distilled notes
+ *   3. Delivers the session's outbox synchronously (compaction waits)
+ *   4. Saves Sub's notes for session_start.ts, which re-injects them once
+ *      the compacted session resumes
+ *
+ * Environment Variables:
+ *   LETTA_API_KEY - API key for Letta authentication
+ *   LETTA_AGENT_ID - Agent ID to send messages to
+ *
+ * Hook Input (via stdin):
+ *   - session_id, transcript_path, cwd
+ *   - trigger: "manual" or "auto"
+ *   - custom_instructions: Text passed to /compact, if any
+ *
+ * Exit Codes:
+ *   0 - Always (never blocks compaction)
+ *
+ * Log file: $TMPDIR/letta-claude-sync-$UID/precompact_flush.log
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAgentId, getKnownContextWindow, getKnownModelHandle } from './agent_config.js';
+import {
+  escapeXmlContent,
+  getMode,
+  getOrCreateConversation,
+  getSdkToolsMode,
+  getTempStateDir,
+  loadSyncState,
+  saveSyncState,
+} from './conversation_utils.js';
+import { getDaemonStatus, isDaemonEnabled, requestDaemon } from './daemon_client.js';
+import { drainOutbox, enqueueOutboxEntry } from './outbox.js';
+import { withSessionLock } from './session_lock.js';
+import { sendViaSdk } from './sdk_sender.js';
+import {
+  collectImageUploads,
+  getCompactNotesFile,
+  getUnsentPosition,
+  markSliceQueued,
+  prepareTranscriptUpdate,
+  splitFinalChunk,
+} from './session_updates.js';
+import { clearToolEvents } from './tool_events.js';
+import { getTranscriptTokenBudget } from './transcript_packer.js';
+import { readTranscriptSince } from './transcript_utils.js';
+
+// Configuration
+const TEMP_STATE_DIR = getTempStateDir();
+const LOG_FILE = path.join(TEMP_STATE_DIR, 'precompact_flush.log');
+// Leaves headroom within the 120s PreCompact timeout in hooks.json
+const DRAIN_TIMEOUT_MS = 100 * 1000;
+
+interface HookInput {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  hook_event_name?: string;
+  trigger?: 'manual' | 'auto';
+  custom_instructions?: string;
+}
+
+/**
+ * Log message to file
+ */
+function log(message: string): void {
+  if (!fs.existsSync(TEMP_STATE_DIR)) {
+    fs.mkdirSync(TEMP_STATE_DIR, { recursive: true });
+  }
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Read hook input from stdin
+ */
+async function readHookInput(): Promise<HookInput> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('readable', () => {
+      let chunk;
+      while ((chunk = process.stdin.read()) !== null) {
+        data += chunk;
+      }
+    });
+    process.stdin.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (e) {
+        reject(new Error(`Failed to parse hook input: ${e}`));
+      }
+    });
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Build the pre-compaction message. The transcript is omitted when Sub has
+ * already received everything.
+ */
+function formatPreCompactMessage(hookInput: HookInput, transcript: string | null): string {
+  const parts = [
+    `<session_id>${hookInput.session_id}</session_id>`,
+    `<trigger>${hookInput.trigger || 'auto'}</trigger>`,
+  ];
+  if (hookInput.custom_instructions) {
+    parts.push(`<compact_instructions>${escapeXmlContent(hookInput.custom_instructions)}</compact_instructions>`);
+  }
+  if (transcript) {
+    parts.push(`<transcript>\n${transcript}\n</transcript>`);
+  }
+
+  return `<claude_code_precompact>
+${parts.join('\n')}
+
+<instructions>
+Claude Code is about to compact its context window. Everything it has seen so far in this session will be replaced by a short summary, and detail that isn't written down will be lost.
+
+1. Update your memory blocks with anything from this session worth keeping long-term.
+2. Reply with distilled notes for Claude Code. They are injected right after compaction, so include what the summary is likely to drop: the current task and where it stands, decisions made and why, files being worked on, open problems and dead ends, and preferences the user stated. Use short bullet points, no preamble.
+</instructions>
+</claude_code_precompact>`;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  log('='.repeat(60));
+  log('precompact_flush.ts started');
+
+  if (getMode() === 'off') {
+    log('Mode is off, exiting');
+    process.exit(0);
+  }
+
+  const apiKey = process.env.LETTA_API_KEY;
+  if (!apiKey) {
+    log('LETTA_API_KEY not set, exiting');
+    process.exit(0);
+  }
+
+  try {
+    const hookInput = await readHookInput();
+    log(`Hook input: session_id=${hookInput.session_id}, trigger=${hookInput.trigger}, cwd=${hookInput.cwd}`);
+
+    const { cwd, session_id: sessionId } = hookInput;
+    const agentId = await getAgentId(apiKey, log);
+    const state = loadSyncState(cwd, sessionId, log);
+    const conversationId = await getOrCreateConversation(apiKey, agentId, sessionId, cwd, state, log);
+
+    // Notes from an earlier compaction that never got re-injected are stale
+    const notesFile = getCompactNotesFile(cwd, sessionId);
+    fs.rmSync(notesFile, { force: true });
+
+    const budgetTokens = getTranscriptTokenBudget(getKnownContextWindow(agentId));
+    await withSessionLock(cwd, sessionId, async () => {
+      // Entries already in the outbox cover everything up to lastQueuedIndex;
+      // they are delivered first, so together this flushes from lastProcessedIndex
+      const lockedState = loadSyncState(cwd, sessionId, log);
+      lockedState.conversationId = conversationId;
+      const slice = await readTranscriptSince(
+        hookInput.transcript_path,
+        getUnsentPosition(lockedState),
+        log,
+        lockedState.subagentTranscripts,
+      );
+      const chunks = prepareTranscriptUpdate(slice, log, budgetTokens);
+      const images = chunks ? collectImageUploads(slice, getKnownModelHandle(agentId), log) : [];
+      log(chunks ? `Flushing messages after index ${slice.start.index}` : 'No unsent messages, asking for notes only');
+
+      // An oversized flush goes out as leading parts before the notes request
+      const { leading, final: transcript } = splitFinalChunk(sessionId, chunks);
+      for (const message of leading) {
+        enqueueOutboxEntry(cwd, { agentId, conversationId, sessionId, cwd, message, sdkToolsMode: getSdkToolsMode() }, log);
+      }
+      enqueueOutboxEntry(cwd, {
+        agentId,
+        conversationId,
+        sessionId,
+        cwd,
+        message: formatPreCompactMessage(hookInput, transcript),
+        sdkToolsMode: getSdkToolsMode(),
+        newLastProcessedIndex: transcript ? slice.end.index : undefined,
+        responseFile: notesFile,
+        images: images.length > 0 ? images : undefined,
+      }, log);
+
+      if (transcript) {
+        markSliceQueued(lockedState, slice);
+        saveSyncState(cwd, lockedState, log);
+        clearToolEvents(cwd, sessionId);
+      }
+    }, { log });
+
+    // Compaction won't wait for backoff to expire: retry everything now.
+    // A running daemon already holds a warm session, and draining alongside
+    // it could send entries twice, so it does the sending when it is up.
+    const drainOptions = { sessionId, ignoreBackoff: true };
+    if (isDaemonEnabled() && await getDaemonStatus()) {
+      const response = await requestDaemon({ type: 'drain', cwd, ...drainOptions, wait: true }, DRAIN_TIMEOUT_MS);
+      if (response?.ok && response.result) {
+        const { result } = response;
+        log(`Outbox drained by SDK daemon: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`);
+      } else {
+        log(`SDK daemon did not finish the drain: ${response && !response.ok ? response.error : 'timed out'}`);
+      }
+    } else {
+      // No new send starts after the deadline; one still in flight then is
+      // abandoned rather than left for the hook timeout to kill
+      const deadline = Date.now() + DRAIN_TIMEOUT_MS;
+      const drained = drainOutbox(cwd, (entry) => sendViaSdk(entry, log), log, { ...drainOptions, deadline });
+      const timedOut = new Promise<null>(resolve => setTimeout(() => resolve(null), DRAIN_TIMEOUT_MS).unref());
+      const result = await Promise.race([drained, timedOut]);
+      if (result) {
+        log(`Outbox drained: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`);
+      } else {
+        log(`Outbox drain did not finish within ${DRAIN_TIMEOUT_MS / 1000}s`);
+      }
+    }
+
+    if (fs.existsSync(notesFile)) {
+      log(`Notes saved to ${notesFile}`);
+    } else {
+      // The entry stays queued; the next Stop hook's worker retries it
+      log('No notes received before compaction');
+    }
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log(`ERROR: ${errorMessage}`);
+    if (error instanceof Error && error.stack) {
+      log(`Stack trace: ${error.stack}`);
+    }
+  }
+  process.exit(0);
+}
+
+main();
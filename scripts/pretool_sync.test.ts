@@ -0,0 +1,153 @@
+/**
+ * Tests for pretool_sync.ts
+ *
+ * Drives the PreToolUse hook logic end-to-end against the fake Letta server.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAgent, FakeConversation, FakeLettaServer } from './fake_letta_server.js';
+import { setLettaTransport, setRequestPolicy } from './letta_client.js';
+import { loadSyncState, saveSyncState } from './conversation_utils.js';
+import { checkForUpdates } from './pretool_sync.js';
+
+let cwd: string;
+let server: FakeLettaServer;
+let agent: FakeAgent;
+let conversation: FakeConversation;
+
+describe('pretool_sync', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'pretool-test-'));
+    server = new FakeLettaServer();
+    agent = server.addAgent({ blocks: [{ label: 'guidance', value: 'Run tests first' }] });
+    conversation = server.addConversation(agent.id);
+    setLettaTransport(server.fetch);
+    setRequestPolicy({ retryBaseDelayMs: 0 });
+    // Keep circuit breaker state out of the real temp dir
+    vi.stubEnv('TMPDIR', cwd);
+    vi.stubEnv('LETTA_AGENT_ID', agent.id);
+    vi.stubEnv('LETTA_HOME', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLettaTransport(null);
+    setRequestPolicy(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('stays silent before the first prompt sync', async () => {
+    const output = await checkForUpdates('test-key', { session_id: 's1', cwd, hook_event_name: 'PreToolUse' });
+    expect(output).toBeNull();
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('injects new messages and block diffs, then stays silent', async () => {
+    const seen = server.addAssistantMessage(conversation.id, 'old news');
+    saveSyncState(cwd, {
+      sessionId: 's1',
+      conversationId: conversation.id,
+      lastProcessedIndex: -1,
+      lastSeenMessageId: seen.id,
+      lastBlockValues: { guidance: 'Run tests first' },
+    });
+
+    server.addAssistantMessage(conversation.id, 'The build script changed');
+    agent.blocks[0].value = 'Run tests first\nUse pnpm';
+
+    const input = { session_id: 's1', cwd, hook_event_name: 'PreToolUse', tool_name: 'Bash' };
+    const output = JSON.parse((await checkForUpdates('test-key', input))!);
+    const context: string = output.hookSpecificOutput.additionalContext;
+
+    expect(output.hookSpecificOutput.hookEventName).toBe('PreToolUse');
+    expect(context).toContain('The build script changed');
+    expect(context).not.toContain('old news');
+    // Shorter than its diff, so the block is shown whole
+    expect(context).toContain('<guidance status="rewritten">\nRun tests first\nUse pnpm\n</guidance>');
+    expect(loadSyncState(cwd, 's1').lastBlockValues).toEqual({ guidance: 'Run tests first\nUse pnpm' });
+
+    // Answered from the local cache
+    const requestCount = server.requests.length;
+    expect(await checkForUpdates('test-key', input)).toBeNull();
+    expect(server.requests).toHaveLength(requestCount);
+  });
+
+  it('keeps state other hooks save while it is fetching', async () => {
+    saveSyncState(cwd, {
+      sessionId: 's1',
+      conversationId: conversation.id,
+      lastProcessedIndex: -1,
+      lastBlockValues: { guidance: 'Run tests first' },
+    });
+    agent.blocks[0].value = 'Run tests first, then lint';
+    server.delay(/^\/agents\//, 50);
+
+    const pending = checkForUpdates('test-key', { session_id: 's1', cwd, hook_event_name: 'PreToolUse' });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    // A Stop hook queues a slice meanwhile
+    saveSyncState(cwd, { ...loadSyncState(cwd, 's1'), lastQueuedIndex: 7 });
+    expect(await pending).not.toBeNull();
+
+    expect(loadSyncState(cwd, 's1')).toMatchObject({
+      lastQueuedIndex: 7,
+      lastBlockValues: { guidance: 'Run tests first, then lint' },
+    });
+  });
+
+  it('revalidates the cache once it is stale', async () => {
+    vi.stubEnv('LETTA_CACHE_TTL', '0');
+    saveSyncState(cwd, {
+      sessionId: 's1',
+      conversationId: conversation.id,
+      lastProcessedIndex: -1,
+      lastBlockValues: { guidance: 'Run tests first' },
+    });
+    const input = { session_id: 's1', cwd, hook_event_name: 'PreToolUse' };
+
+    expect(await checkForUpdates('test-key', input)).toBeNull();
+    agent.blocks[0].value = 'Ship it';
+    const output = await checkForUpdates('test-key', input);
+
+    expect(output).toContain('Ship it');
+    const blockRequests = server.requests.filter(r => r.query.include === 'agent.blocks');
+    expect(blockRequests.map(r => Boolean(r.ifNoneMatch))).toEqual([false, true]);
+  });
+
+  it('still reports block changes when messages cannot be fetched', async () => {
+    saveSyncState(cwd, {
+      sessionId: 's1',
+      conversationId: conversation.id,
+      lastProcessedIndex: -1,
+      lastBlockValues: { guidance: 'Run tests first' },
+    });
+    agent.blocks[0].value = 'Ship it';
+    server.fail(/\/messages$/, 503, { times: 3 });
+
+    const output = await checkForUpdates('test-key', { session_id: 's1', cwd, hook_event_name: 'PreToolUse' });
+
+    expect(output).toContain('Ship it');
+  });
+
+  it('stays silent when only blocks kept for Sub change', async () => {
+    const settingsPath = path.join(cwd, 'settings.json');
+    fs.writeFileSync(settingsPath, JSON.stringify({ blocks: { guidance: { inject: 'first-prompt' } } }));
+    vi.stubEnv('LETTA_SETTINGS_FILE', settingsPath);
+    saveSyncState(cwd, {
+      sessionId: 's1',
+      conversationId: conversation.id,
+      lastProcessedIndex: -1,
+      lastBlockValues: { guidance: 'Run tests first' },
+    });
+    agent.blocks[0].value = 'Ship it';
+
+    const output = await checkForUpdates('test-key', { session_id: 's1', cwd, hook_event_name: 'PreToolUse' });
+
+    expect(output).toBeNull();
+    expect(loadSyncState(cwd, 's1').lastBlockValues).toEqual({ guidance: 'Ship it' });
+  });
+});
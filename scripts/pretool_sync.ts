@@ -8,6 +8,7 @@
  * Environment Variables:
  *   LETTA_API_KEY - API key for Letta authentication
  *   LETTA_DEBUG - Set to "1" to enable debug logging
+ *   LETTA_CACHE_TTL - Seconds to answer from the local cache (default 10)
  * 
  * Exit Codes:
  *   0 - Success (no output = no updates, JSON output = updates to inject)
@@ -17,16 +18,25 @@
 import * as fs from 'fs';
 import * as readline from 'readline';
 import { getAgentId } from './agent_config.js';
-import { buildLettaApiUrl } from './letta_api_url.js';
+import { formatBlockChange } from './block_diff.js';
+import { BlockPolicy, loadBlockPolicy } from './block_policy.js';
+import { fetchAgentCached, getCacheTtlMs } from './letta_cache.js';
+import { createLettaClient, setHookTimeBudget } from './letta_client.js';
+import { fetchNewMessages, MessageInfo } from './message_sync.js';
+import { withSessionLock } from './session_lock.js';
 import {
   loadSyncState,
   saveSyncState,
   lookupConversation,
-  SyncState,
   getMode,
+  isMainModule,
 } from './conversation_utils.js';
 
 const DEBUG = process.env.LETTA_DEBUG === '1';
+// Keep in sync with the PreToolUse timeout in hooks.json
+const HOOK_TIMEOUT_MS = 5000;
+// Leave time to finish before the hook is killed
+const LOCK_TIMEOUT_MS = 2000;
 
 function debug(...args: unknown[]): void {
   if (DEBUG) {
@@ -34,7 +44,7 @@ function debug(...args: unknown[]): void {
   }
 }
 
-interface HookInput {
+export interface HookInput {
   session_id: string;
   cwd: string;
   hook_event_name: string;
@@ -46,26 +56,6 @@ interface MemoryBlock {
   value: string;
 }
 
-interface Agent {
-  id: string;
-  name: string;
-  blocks: MemoryBlock[];
-}
-
-interface LettaMessage {
-  id: string;
-  message_type: string;
-  content?: string;
-  text?: string;
-  date?: string;
-}
-
-interface MessageInfo {
-  id: string;
-  text: string;
-  date: string | null;
-}
-
 /**
  * Read hook input from stdin
  */
@@ -96,89 +86,6 @@ async function readHookInput(): Promise<HookInput | null> {
   });
 }
 
-/**
- * Fetch agent data from Letta API
- */
-async function fetchAgent(apiKey: string, agentId: string): Promise<Agent> {
-  const url = buildLettaApiUrl(`/agents/${agentId}`, {
-    include: 'agent.blocks',
-  });
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Letta API error (${response.status})`);
-  }
-
-  return response.json();
-}
-
-/**
- * Fetch new assistant messages from the conversation
- */
-async function fetchNewMessages(
-  apiKey: string, 
-  conversationId: string | null,
-  lastSeenMessageId: string | null
-): Promise<{ messages: MessageInfo[], lastMessageId: string | null }> {
-  if (!conversationId) {
-    return { messages: [], lastMessageId: null };
-  }
-
-  const url = buildLettaApiUrl(`/conversations/${conversationId}/messages`, {
-    limit: 20,
-  });
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    return { messages: [], lastMessageId: lastSeenMessageId };
-  }
-
-  const allMessages: LettaMessage[] = await response.json();
-  const assistantMessages = allMessages.filter(msg => msg.message_type === 'assistant_message');
-
-  // Find new messages (API returns newest first)
-  let endIndex = assistantMessages.length;
-  if (lastSeenMessageId) {
-    const lastSeenIndex = assistantMessages.findIndex(msg => msg.id === lastSeenMessageId);
-    if (lastSeenIndex !== -1) {
-      endIndex = lastSeenIndex;
-    }
-  }
-
-  const newMessages: MessageInfo[] = [];
-  for (let i = 0; i < endIndex; i++) {
-    const msg = assistantMessages[i];
-    const text = msg.content || msg.text;
-    if (text && typeof text === 'string') {
-      newMessages.push({
-        id: msg.id,
-        text,
-        date: msg.date || null,
-      });
-    }
-  }
-
-  const lastMessageId = assistantMessages.length > 0 
-    ? assistantMessages[0].id 
-    : lastSeenMessageId;
-
-  return { messages: newMessages, lastMessageId };
-}
-
 /**
  * Detect changed memory blocks
  */
@@ -197,13 +104,15 @@ function detectChangedBlocks(
 }
 
 /**
- * Format output for PreToolUse additionalContext
+ * Format output for PreToolUse additionalContext. Changed blocks whose
+ * changes the injection policy doesn't show are left out.
  */
 function formatOutput(
   agentName: string,
   messages: MessageInfo[],
   changedBlocks: MemoryBlock[],
-  lastBlockValues: { [label: string]: string } | null
+  lastBlockValues: { [label: string]: string } | null,
+  policy: BlockPolicy
 ): string {
   const parts: string[] = [];
 
@@ -216,42 +125,108 @@ function formatOutput(
   }
 
   // Format changed blocks with diffs
-  if (changedBlocks.length > 0) {
-    const blockParts = changedBlocks.map(block => {
-      const previousValue = lastBlockValues?.[block.label];
-      
-      if (previousValue === undefined) {
-        return `<${block.label} status="new">\n${block.value}\n</${block.label}>`;
-      }
-      
-      // Simple diff: show what changed
-      const oldLines = new Set(previousValue.split('\n').map(l => l.trim()).filter(l => l));
-      const newLines = block.value.split('\n').map(l => l.trim()).filter(l => l);
-      
-      const added = newLines.filter(line => !oldLines.has(line));
-      const removed = Array.from(oldLines).filter(line => !newLines.includes(line));
-      
-      if (added.length === 0 && removed.length === 0) {
-        return `<${block.label} status="modified">\n${block.value}\n</${block.label}>`;
-      }
-      
-      const diffLines: string[] = [];
-      for (const line of removed) {
-        diffLines.push(`- ${line}`);
-      }
-      for (const line of added) {
-        diffLines.push(`+ ${line}`);
-      }
-      
-      return `<${block.label} status="modified">\n${diffLines.join('\n')}\n</${block.label}>`;
-    });
-    
+  const shownBlocks = changedBlocks.filter(block => policy.onChange(block.label));
+  if (shownBlocks.length > 0) {
+    const blockParts = shownBlocks.map(block => formatBlockChange(block, lastBlockValues?.[block.label]));
     parts.push(`<letta_memory_update>\n${blockParts.join('\n')}\n</letta_memory_update>`);
   }
 
   return parts.join('\n\n');
 }
 
+/**
+ * Check for new messages and memory changes since the last sync.
+ * Returns the PreToolUse hook output as JSON, or null if nothing changed.
+ */
+export async function checkForUpdates(apiKey: string, hookInput: HookInput): Promise<string | null> {
+  debug(`PreToolUse for tool: ${hookInput.tool_name}`);
+
+  // Load state
+  const state = loadSyncState(hookInput.cwd, hookInput.session_id);
+  
+  // Need existing state to detect changes
+  if (!state.lastBlockValues && !state.lastSeenMessageId) {
+    debug('No previous state, skipping (UserPromptSubmit will handle first sync)');
+    return null;
+  }
+
+  // Get agent ID
+  const agentId = await getAgentId(apiKey);
+  
+  // Get conversation ID
+  let conversationId = state.conversationId || null;
+  if (!conversationId) {
+    conversationId = lookupConversation(hookInput.cwd, hookInput.session_id);
+  }
+
+  // Fetch current state from Letta
+  const client = createLettaClient(apiKey);
+  const [agent, messagesResult] = await Promise.all([
+    fetchAgentCached(client, agentId, getCacheTtlMs(), debug),
+    fetchNewMessages(client, conversationId, state.lastSeenMessageId || null, getCacheTtlMs(), debug),
+  ]);
+
+  const { messages: newMessages, lastMessageId } = messagesResult;
+  const changedBlocks = detectChangedBlocks(agent.blocks || [], state.lastBlockValues || null);
+
+  debug(`New messages: ${newMessages.length}, Changed blocks: ${changedBlocks.length}`);
+
+  // If nothing changed, exit silently
+  if (newMessages.length === 0 && changedBlocks.length === 0) {
+    debug('No updates, exiting silently');
+    return null;
+  }
+
+  // Format and output
+  const additionalContext = formatOutput(
+    agent.name || 'Subconscious',
+    newMessages,
+    changedBlocks,
+    state.lastBlockValues || null,
+    loadBlockPolicy(debug)
+  );
+
+  // Re-read under the lock: the Stop hook and outbox worker may have
+  // updated other fields while this hook was fetching
+  await withSessionLock(hookInput.cwd, hookInput.session_id, () => {
+    const current = loadSyncState(hookInput.cwd, hookInput.session_id);
+    if (lastMessageId) {
+      current.lastSeenMessageId = lastMessageId;
+    }
+    if (agent.blocks) {
+      current.lastBlockValues = {};
+      for (const block of agent.blocks) {
+        current.lastBlockValues[block.label] = block.value;
+      }
+    }
+    saveSyncState(hookInput.cwd, current);
+  }, { timeoutMs: LOCK_TIMEOUT_MS, log: debug });
+
+  // Only blocks the policy keeps for Sub changed
+  if (!additionalContext) {
+    debug('No updates to show, exiting silently');
+    return null;
+  }
+
+  // Build the additional context with instruction to surface messages
+  let contextWithInstruction = `<letta_update>\n${additionalContext}\n</letta_update>`;
+  
+  if (newMessages.length > 0) {
+    const agentName = agent.name || 'Subconscious';
+    contextWithInstruction += `\n\n<instruction>Your Subconscious (${agentName}) just sent a message mid-workflow. Briefly acknowledge what ${agentName} said in your next response - just a short note like "Sub notes: [key point]" so the user knows.</instruction>`;
+  }
+
+  // Output JSON for PreToolUse
+  const output: Record<string, unknown> = {
+    hookSpecificOutput: {
+      hookEventName: 'PreToolUse',
+      additionalContext: contextWithInstruction,
+    },
+  };
+
+  return JSON.stringify(output);
+}
+
 /**
  * Main function
  */
@@ -268,6 +243,8 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
+  setHookTimeBudget(HOOK_TIMEOUT_MS);
+
   try {
     const hookInput = await readHookInput();
     
@@ -276,80 +253,10 @@ async function main(): Promise<void> {
       process.exit(0);
     }
 
-    debug(`PreToolUse for tool: ${hookInput.tool_name}`);
-
-    // Load state
-    const state = loadSyncState(hookInput.cwd, hookInput.session_id);
-    
-    // Need existing state to detect changes
-    if (!state.lastBlockValues && !state.lastSeenMessageId) {
-      debug('No previous state, skipping (UserPromptSubmit will handle first sync)');
-      process.exit(0);
-    }
-
-    // Get agent ID
-    const agentId = await getAgentId(apiKey);
-    
-    // Get conversation ID
-    let conversationId = state.conversationId || null;
-    if (!conversationId) {
-      conversationId = lookupConversation(hookInput.cwd, hookInput.session_id);
-    }
-
-    // Fetch current state from Letta
-    const [agent, messagesResult] = await Promise.all([
-      fetchAgent(apiKey, agentId),
-      fetchNewMessages(apiKey, conversationId, state.lastSeenMessageId || null),
-    ]);
-
-    const { messages: newMessages, lastMessageId } = messagesResult;
-    const changedBlocks = detectChangedBlocks(agent.blocks || [], state.lastBlockValues || null);
-
-    debug(`New messages: ${newMessages.length}, Changed blocks: ${changedBlocks.length}`);
-
-    // If nothing changed, exit silently
-    if (newMessages.length === 0 && changedBlocks.length === 0) {
-      debug('No updates, exiting silently');
-      process.exit(0);
-    }
-
-    // Format and output
-    const additionalContext = formatOutput(
-      agent.name || 'Subconscious',
-      newMessages,
-      changedBlocks,
-      state.lastBlockValues || null
-    );
-
-    // Update state
-    if (lastMessageId) {
-      state.lastSeenMessageId = lastMessageId;
-    }
-    if (agent.blocks) {
-      state.lastBlockValues = {};
-      for (const block of agent.blocks) {
-        state.lastBlockValues[block.label] = block.value;
-      }
+    const output = await checkForUpdates(apiKey, hookInput);
+    if (output) {
+      console.log(output);
     }
-    saveSyncState(hookInput.cwd, state);
-
-    // Build the additional context with instruction to surface messages
-    let contextWithInstruction = `<letta_update>\n${additionalContext}\n</letta_update>`;
-    
-    if (newMessages.length > 0) {
-      const agentName = agent.name || 'Subconscious';
-      contextWithInstruction += `\n\n<instruction>Your Subconscious (${agentName}) just sent a message mid-workflow. Briefly acknowledge what ${agentName} said in your next response - just a short note like "Sub notes: [key point]" so the user knows.</instruction>`;
-    }
-
-    // Output JSON for PreToolUse
-    const output: Record<string, unknown> = {
-      hookSpecificOutput: {
-        hookEventName: 'PreToolUse',
-        additionalContext: contextWithInstruction,
-      },
-    };
-
-    console.log(JSON.stringify(output));
     
   } catch (error) {
     debug(`Error: ${error}`);
@@ -358,4 +265,6 @@ async function main(): Promise<void> {
   }
 }
 
-main();
+if (isMainModule(import.meta.url)) {
+  main();
+}
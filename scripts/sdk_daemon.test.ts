@@ -0,0 +1,129 @@
+/**
+ * Tests for sdk_daemon.ts
+ *
+ * Runs the daemon in-process on a temporary socket with a fake sender and
+ * talks to it through daemon_client.ts.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDaemonStatus, requestDaemon } from './daemon_client.js';
+import { enqueueOutboxEntry, listOutboxEntries, NewOutboxEntry, OutboxEntry } from './outbox.js';
+import { SdkDaemon } from './sdk_daemon.js';
+
+let cwd: string;
+let daemon: SdkDaemon | null;
+
+function entryFields(overrides: Partial<NewOutboxEntry> = {}): NewOutboxEntry {
+  return {
+    sessionId: 'session-1',
+    conversationId: 'conv-1',
+    agentId: 'agent-1',
+    cwd,
+    message: 'hello',
+    sdkToolsMode: 'read-only',
+    ...overrides,
+  };
+}
+
+describe.skipIf(process.platform === 'win32')('SdkDaemon', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'daemon-test-'));
+    // The socket lives in the (stubbed) temp state dir
+    vi.stubEnv('TMPDIR', cwd);
+    vi.stubEnv('LETTA_HOME', '');
+    daemon = null;
+  });
+
+  afterEach(async () => {
+    await daemon?.close();
+    vi.unstubAllEnvs();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('reports no daemon when nothing is listening', async () => {
+    expect(await requestDaemon({ type: 'status' }, 500)).toBeNull();
+    expect(await getDaemonStatus(500)).toBeNull();
+  });
+
+  it('drains the outbox on request and reports its status', async () => {
+    const sent: string[] = [];
+    daemon = new SdkDaemon({
+      send: async (entry) => { sent.push(entry.message); return 'ok'; },
+      sessions: () => [{
+        conversationId: 'conv-1',
+        cwd,
+        sdkToolsMode: 'read-only',
+        openedAt: '2026-01-01T00:00:00.000Z',
+        lastUsedAt: '2026-01-01T00:00:00.000Z',
+        sends: 2,
+      }],
+    });
+    await daemon.listen();
+    enqueueOutboxEntry(cwd, entryFields({ message: 'first' }));
+    enqueueOutboxEntry(cwd, entryFields({ message: 'second' }));
+
+    const response = await requestDaemon({ type: 'drain', cwd, wait: true });
+
+    expect(response).toEqual({ ok: true, result: { sent: 2, failed: 0, deferred: 0 } });
+    expect(sent).toEqual(['first', 'second']);
+    expect(listOutboxEntries(cwd)).toHaveLength(0);
+
+    const status = await getDaemonStatus();
+    expect(status).toMatchObject({ pid: process.pid, sent: 2, failed: 0 });
+    expect(status?.projects).toEqual([
+      expect.objectContaining({ cwd, queued: 0, lastResult: { sent: 2, failed: 0, deferred: 0 } }),
+    ]);
+    expect(status?.sessions).toHaveLength(1);
+  });
+
+  it('never runs two drains of the same project at once', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const send = async (entry: OutboxEntry) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+    };
+    daemon = new SdkDaemon({ send });
+    await daemon.listen();
+    enqueueOutboxEntry(cwd, entryFields({ message: 'a' }));
+    enqueueOutboxEntry(cwd, entryFields({ conversationId: 'conv-2', message: 'b' }));
+
+    // Fire-and-forget drain followed by a waiting one
+    expect(await requestDaemon({ type: 'drain', cwd })).toEqual({ ok: true });
+    await requestDaemon({ type: 'drain', cwd, wait: true });
+
+    expect(maxActive).toBe(1);
+    expect(listOutboxEntries(cwd)).toHaveLength(0);
+  });
+
+  it('records failures and leaves entries queued', async () => {
+    daemon = new SdkDaemon({ send: async () => { throw new Error('SDK crashed'); } });
+    await daemon.listen();
+    enqueueOutboxEntry(cwd, entryFields());
+
+    const response = await requestDaemon({ type: 'drain', cwd, wait: true });
+
+    expect(response).toEqual({ ok: true, result: { sent: 0, failed: 1, deferred: 0 } });
+    expect(listOutboxEntries(cwd)[0].lastError).toBe('SDK crashed');
+    expect(await getDaemonStatus()).toMatchObject({ failed: 1, lastError: 'SDK crashed' });
+  });
+
+  it('refuses to start over a live daemon but replaces a stale socket', async () => {
+    daemon = new SdkDaemon({ send: async () => {} });
+    await daemon.listen();
+
+    await expect(new SdkDaemon({ send: async () => {} }).listen()).rejects.toThrow('Another SDK daemon');
+
+    // close() removes the socket file; leave a stale one behind instead
+    await daemon.close();
+    fs.writeFileSync(path.join(cwd, `letta-claude-sync-${process.getuid!()}`, 'daemon.sock'), '');
+    daemon = new SdkDaemon({ send: async () => {} });
+    await daemon.listen();
+    expect(await getDaemonStatus()).not.toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+#!/usr/bin/env npx tsx
+/**
+ * SDK Daemon
+ *
+ * Optional long-lived background process (LETTA_DAEMON=on) that delivers
+ * outbox entries over warm Letta Code SDK sessions, one per conversation,
+ * instead of a fresh send_worker_sdk.ts process per Stop hook. Hooks reach
+ * it through daemon_client.ts on $TMPDIR/letta-claude-sync-$UID/daemon.sock.
+ *
+ * Drains for the same project never overlap, so each conversation's entries
+ * are sent one at a time and in order. The daemon exits after
+ * LETTA_DAEMON_IDLE minutes without requests (default 30).
+ *
+ * Usage: npx tsx sdk_daemon.ts [cwd]   (drains cwd once listening)
+ *
+ * Log file: $TMPDIR/letta-claude-sync-$UID/sdk_daemon.log
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { getTempStateDir, isMainModule, LogFn } from './conversation_utils.js';
+import {
+  DaemonProjectStatus,
+  DaemonRequest,
+  DaemonResponse,
+  DaemonStatus,
+  getDaemonSocketPath,
+  requestDaemon,
+} from './daemon_client.js';
+import { drainOutbox, DrainOptions, DrainResult, OutboxSender } from './outbox.js';
+import { PooledSessionInfo, SdkSessionPool } from './sdk_sender.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+const DEFAULT_IDLE_MINUTES = 30;
+// How often idle SDK sessions and daemon inactivity are checked
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const TEMP_STATE_DIR = getTempStateDir();
+const LOG_FILE = path.join(TEMP_STATE_DIR, 'sdk_daemon.log');
+
+export interface SdkDaemonOptions {
+  send: OutboxSender;
+  /** Reports the warm sessions for status requests */
+  sessions?: () => PooledSessionInfo[];
+  log?: LogFn;
+}
+
+interface ProjectQueue extends DaemonProjectStatus {
+  tail: Promise<unknown>;
+}
+
+/**
+ * Get the daemon's idle shutdown delay from LETTA_DAEMON_IDLE (minutes)
+ */
+export function getDaemonIdleMs(): number {
+  const minutes = parseInt(process.env.LETTA_DAEMON_IDLE || '', 10);
+  return (minutes > 0 ? minutes : DEFAULT_IDLE_MINUTES) * 60 * 1000;
+}
+
+export class SdkDaemon {
+  private server: net.Server | null = null;
+  private readonly projects = new Map<string, ProjectQueue>();
+  private readonly startedAt = new Date().toISOString();
+  private lastActivityAt = this.startedAt;
+  private sent = 0;
+  private failed = 0;
+  private lastError?: string;
+  private readonly log: LogFn;
+
+  /** Called after a shutdown request has been answered */
+  onShutdown?: () => void;
+
+  constructor(private readonly options: SdkDaemonOptions) {
+    this.log = options.log || noopLog;
+  }
+
+  /**
+   * Listen on the socket. Rejects if another daemon is already listening;
+   * a stale socket file left by a crashed daemon is replaced.
+   */
+  async listen(socketPath: string = getDaemonSocketPath()): Promise<void> {
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) {
+      if (await requestDaemon({ type: 'status' }, 1000, socketPath)) {
+        throw new Error(`Another SDK daemon is listening on ${socketPath}`);
+      }
+      fs.unlinkSync(socketPath);
+    }
+    if (process.platform !== 'win32') {
+      fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.log(`Listening on ${socketPath}`);
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Queue a drain of a project's outbox behind any drain already running
+   */
+  drain(cwd: string, options: DrainOptions = {}): Promise<DrainResult> {
+    this.touch();
+    let project = this.projects.get(cwd);
+    if (!project) {
+      project = { cwd, queued: 0, tail: Promise.resolve() };
+      this.projects.set(cwd, project);
+    }
+    const queue = project;
+    queue.queued++;
+
+    const run = queue.tail.then(async () => {
+      try {
+        const result = await drainOutbox(cwd, this.send, this.log, options);
+        this.log(`Drained ${cwd}: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`);
+        queue.lastResult = result;
+        return result;
+      } finally {
+        queue.queued--;
+        queue.lastDrainAt = new Date().toISOString();
+        this.touch();
+      }
+    });
+    // Keep the chain going after a failed drain
+    queue.tail = run.catch(() => {});
+    return run;
+  }
+
+  status(): DaemonStatus {
+    return {
+      pid: process.pid,
+      startedAt: this.startedAt,
+      lastActivityAt: this.lastActivityAt,
+      sent: this.sent,
+      failed: this.failed,
+      lastError: this.lastError,
+      projects: [...this.projects.values()].map(({ tail, ...status }) => status),
+      sessions: this.options.sessions?.() || [],
+    };
+  }
+
+  /**
+   * True when nothing is queued and no request arrived within idleMs
+   */
+  isIdle(idleMs: number, now: number = Date.now()): boolean {
+    const busy = [...this.projects.values()].some(p => p.queued > 0);
+    return !busy && now - new Date(this.lastActivityAt).getTime() >= idleMs;
+  }
+
+  private readonly send: OutboxSender = async (entry) => {
+    try {
+      const response = await this.options.send(entry);
+      this.sent++;
+      return response;
+    } catch (error) {
+      this.failed++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+  };
+
+  private touch(): void {
+    this.lastActivityAt = new Date().toISOString();
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let data = '';
+    socket.setEncoding('utf8');
+    socket.on('error', error => this.log(`Socket error: ${error.message}`));
+    socket.on('data', async (chunk: string) => {
+      data += chunk;
+      const newline = data.indexOf('\n');
+      if (newline === -1) return;
+      socket.removeAllListeners('data');
+
+      let response: DaemonResponse;
+      try {
+        response = await this.handleRequest(JSON.parse(data.slice(0, newline)));
+      } catch (error) {
+        response = { ok: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      socket.end(`${JSON.stringify(response)}\n`);
+    });
+  }
+
+  private async handleRequest(request: DaemonRequest): Promise<DaemonResponse> {
+    this.touch();
+    switch (request.type) {
+      case 'status':
+        return { ok: true, status: this.status() };
+      case 'drain': {
+        const drain = this.drain(request.cwd, { sessionId: request.sessionId, ignoreBackoff: request.ignoreBackoff });
+        if (request.wait) {
+          return { ok: true, result: await drain };
+        }
+        drain.catch(error => this.log(`Drain of ${request.cwd} failed: ${error}`));
+        return { ok: true };
+      }
+      case 'shutdown':
+        setImmediate(() => this.onShutdown?.());
+        return { ok: true };
+      default:
+        return { ok: false, error: `Unknown request type: ${(request as { type?: string }).type}` };
+    }
+  }
+}
+
+/**
+ * Log message to file
+ */
+function log(message: string): void {
+  if (!fs.existsSync(TEMP_STATE_DIR)) {
+    fs.mkdirSync(TEMP_STATE_DIR, { recursive: true });
+  }
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const initialCwd = process.argv[2];
+  log('='.repeat(60));
+  log(`SDK daemon starting (PID: ${process.pid})`);
+
+  const pool = new SdkSessionPool();
+  const daemon = new SdkDaemon({
+    send: entry => pool.send(entry, log),
+    sessions: () => pool.describe(),
+    log,
+  });
+
+  try {
+    await daemon.listen();
+  } catch (error) {
+    log(`Not starting: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(0);
+  }
+
+  const idleMs = getDaemonIdleMs();
+  const shutdown = async (reason: string) => {
+    log(`Shutting down (${reason})`);
+    clearInterval(sweep);
+    await daemon.close();
+    pool.closeAll(log);
+    process.exit(0);
+  };
+  daemon.onShutdown = () => shutdown('requested');
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  const sweep = setInterval(() => {
+    pool.closeIdle(log);
+    if (daemon.isIdle(idleMs)) {
+      shutdown(`idle for ${Math.round(idleMs / 60000)} minutes`);
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  if (initialCwd) {
+    daemon.drain(initialCwd).catch(error => log(`Initial drain of ${initialCwd} failed: ${error}`));
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  main();
+}
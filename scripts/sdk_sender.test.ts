@@ -0,0 +1,106 @@
+/**
+ * Tests for sdk_sender.ts
+ *
+ * Exercises SdkSessionPool with a fake session factory (the Letta Code SDK
+ * itself is not loaded).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { OutboxEntry } from './outbox.js';
+import { SdkMessageContent, SdkSession, SdkSessionPool } from './sdk_sender.js';
+
+function entry(overrides: Partial<OutboxEntry> = {}): OutboxEntry {
+  return {
+    id: 'entry-1',
+    sessionId: 'session-1',
+    conversationId: 'conv-1',
+    agentId: 'agent-1',
+    cwd: '/project',
+    message: 'hello',
+    sdkToolsMode: 'read-only',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    attempts: 0,
+    nextAttemptAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+class FakeSession implements SdkSession {
+  sent: Array<string | SdkMessageContent> = [];
+  closed = false;
+  failNext = false;
+
+  async send(message: string | SdkMessageContent): Promise<void> {
+    this.sent.push(message);
+  }
+
+  async *stream() {
+    if (this.failNext) {
+      this.failNext = false;
+      yield { type: 'error', message: 'stream broke' };
+      return;
+    }
+    yield { type: 'assistant', content: `re: ${this.sent[this.sent.length - 1]}` };
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+function createPool(idleMs?: number) {
+  const sessions: FakeSession[] = [];
+  const pool = new SdkSessionPool(idleMs, async () => {
+    const session = new FakeSession();
+    sessions.push(session);
+    return session;
+  });
+  return { pool, sessions };
+}
+
+describe('SdkSessionPool', () => {
+  it('reuses one session per conversation', async () => {
+    const { pool, sessions } = createPool();
+
+    expect(await pool.send(entry({ message: 'one' }))).toBe('re: one');
+    expect(await pool.send(entry({ message: 'two' }))).toBe('re: two');
+    await pool.send(entry({ conversationId: 'conv-2' }));
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].sent).toEqual(['one', 'two']);
+    expect(pool.describe().map(s => [s.conversationId, s.sends])).toEqual([['conv-1', 2], ['conv-2', 1]]);
+  });
+
+  it('sends images after the message text', async () => {
+    const { pool, sessions } = createPool();
+
+    await pool.send(entry({ message: 'look', images: [{ mediaType: 'image/png', data: 'iVBORw0KGgo=' }] }));
+
+    expect(sessions[0].sent).toEqual([[
+      { type: 'text', text: 'look' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+    ]]);
+  });
+
+  it('drops a session after a failed send', async () => {
+    const { pool, sessions } = createPool();
+    await pool.send(entry());
+    sessions[0].failNext = true;
+
+    await expect(pool.send(entry())).rejects.toThrow('SDK stream error: stream broke');
+    expect(sessions[0].closed).toBe(true);
+
+    await pool.send(entry());
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('closes idle sessions', async () => {
+    const { pool, sessions } = createPool(1000);
+    await pool.send(entry());
+
+    expect(pool.closeIdle(undefined, Date.now())).toBe(0);
+    expect(pool.closeIdle(undefined, Date.now() + 1000)).toBe(1);
+    expect(sessions[0].closed).toBe(true);
+    expect(pool.describe()).toEqual([]);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Letta Code SDK Sender
+ *
+ * Delivers an outbox entry to its Letta conversation through a Letta Code
+ * SDK session, so Sub gets client-side tool access (Read, Grep, Glob, etc.)
+ * while processing it. Resolves with Sub's reply; throws on failure so the
+ * entry stays in the outbox.
+ *
+ * sendViaSdk() opens and closes a session per entry; it is used by
+ * send_worker_sdk.ts and precompact_flush.ts. SdkSessionPool keeps sessions
+ * open between sends for the long-lived daemon (sdk_daemon.ts), which skips
+ * the SDK cold start and resumeSession round-trip on every Stop hook.
+ */
+
+import { LogFn } from './conversation_utils.js';
+import { OutboxEntry } from './outbox.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+// Pooled sessions unused for this long are closed
+const DEFAULT_SESSION_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Multimodal message content accepted by SdkSession.send
+ */
+export type SdkMessageContent = Array<
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+>;
+
+/**
+ * The parts of a Letta Code SDK session used here
+ */
+export interface SdkSession {
+  send(message: string | SdkMessageContent): Promise<unknown>;
+  stream(): AsyncIterable<{ type: string; content?: string; [key: string]: unknown }>;
+  close(): void;
+}
+
+export type SdkSessionFactory = (conversationId: string, options: Record<string, unknown>) => Promise<SdkSession>;
+
+export interface PooledSessionInfo {
+  conversationId: string;
+  cwd: string;
+  sdkToolsMode: string;
+  openedAt: string;
+  lastUsedAt: string;
+  sends: number;
+}
+
+interface PooledSession extends PooledSessionInfo {
+  key: string;
+  session: SdkSession;
+}
+
+const resumeSdkSession: SdkSessionFactory = async (conversationId, options) => {
+  // Dynamic import so this file can be parsed even if SDK isn't installed
+  const { resumeSession } = await import('@letta-ai/letta-code-sdk');
+  return resumeSession(conversationId, options) as SdkSession;
+};
+
+/**
+ * Build the SDK session options for an entry's tool mode
+ */
+function buildSessionOptions(payload: OutboxEntry, log: LogFn): Record<string, unknown> {
+  // Configure tool restrictions based on mode
+  const readOnlyTools = ['Read', 'Grep', 'Glob', 'web_search', 'fetch_webpage'];
+  const blockedTools = ['AskUserQuestion', 'EnterPlanMode', 'ExitPlanMode'];
+
+  const sessionOptions: Record<string, unknown> = {
+    disallowedTools: blockedTools,
+    permissionMode: 'bypassPermissions',
+    cwd: payload.cwd,
+    skillSources: [],          // Sub doesn't need skills
+    systemInfoReminder: false, // reduce noise
+    sleeptime: { trigger: 'off' }, // don't recurse sleeptime
+    // The worker only needs to deliver a transcript to an existing Letta
+    // conversation. It should not clone/pull/reconcile the agent's MemFS repo
+    // on every Claude Code Stop hook: doing so can interact badly with a
+    // user-supplied LETTA_AGENT_ID whose memory is actively managed elsewhere.
+    memfsStartup: 'skip',
+  };
+
+  if (payload.sdkToolsMode === 'off') {
+    // Listen-only: block all client-side tools, Sub can only use memory operations
+    sessionOptions.disallowedTools = [...blockedTools, ...readOnlyTools, 'Bash', 'Edit', 'Write', 'Task', 'Glob', 'Grep', 'Read'];
+  } else if (payload.sdkToolsMode === 'read-only') {
+    sessionOptions.allowedTools = readOnlyTools;
+  }
+  // 'full' mode: no allowedTools restriction (all tools available)
+
+  const toolsLabel = payload.sdkToolsMode === 'off' ? 'none' : payload.sdkToolsMode === 'read-only' ? readOnlyTools.join(', ') : 'all';
+  log(`Creating SDK session for conversation ${payload.conversationId} (mode: ${payload.sdkToolsMode})`);
+  log(`  agent: ${payload.agentId}`);
+  log(`  cwd: ${payload.cwd}`);
+  log(`  allowedTools: ${toolsLabel}`);
+
+  return sessionOptions;
+}
+
+/**
+ * An entry's message, with its images after the text when it has any
+ */
+function buildMessageContent(payload: OutboxEntry): string | SdkMessageContent {
+  if (!payload.images?.length) {
+    return payload.message;
+  }
+  return [
+    { type: 'text', text: payload.message },
+    ...payload.images.map(image => ({
+      type: 'image' as const,
+      source: { type: 'base64' as const, media_type: image.mediaType, data: image.data },
+    })),
+  ];
+}
+
+/**
+ * Send one entry on an open session and collect the assistant response
+ */
+async function sendOnSession(session: SdkSession, payload: OutboxEntry, log: LogFn): Promise<string> {
+  const images = payload.images?.length ?? 0;
+  log(`Sending message (${payload.message.length} chars${images ? `, ${images} images` : ''})...`);
+  await session.send(buildMessageContent(payload));
+
+  // Stream and capture the response
+  let assistantResponse = '';
+  let messageCount = 0;
+  let streamError: string | null = null;
+
+  for await (const msg of session.stream()) {
+    messageCount++;
+    if (msg.type === 'assistant' && msg.content) {
+      assistantResponse += msg.content;
+      log(`  Assistant chunk: ${msg.content.substring(0, 100)}...`);
+    } else if (msg.type === 'tool_call') {
+      log(`  Tool call: ${(msg as any).toolName}`);
+    } else if (msg.type === 'error') {
+      streamError = (msg as any).message || 'unknown stream error';
+      log(`  Error: ${streamError}`);
+    }
+  }
+
+  log(`Stream complete: ${messageCount} messages, assistant response: ${assistantResponse.length} chars`);
+
+  // Leave the entry in the outbox so it is retried
+  if (streamError) {
+    throw new Error(`SDK stream error: ${streamError}`);
+  }
+
+  // The SDK session sends the message to the Letta agent which processes it
+  // and generates a response. The response is automatically stored in the
+  // agent's conversation history on the Letta server. The existing
+  // pretool_sync / sync_letta_memory flow will pick it up and inject it
+  // into Claude's context on the next prompt.
+  return assistantResponse;
+}
+
+/**
+ * Send an outbox entry via the SDK and return the assistant response
+ */
+export async function sendViaSdk(payload: OutboxEntry, log: LogFn = noopLog): Promise<string> {
+  log(`Loading Letta Code SDK...`);
+  const session = await resumeSdkSession(payload.conversationId, buildSessionOptions(payload, log));
+
+  try {
+    return await sendOnSession(session, payload, log);
+  } finally {
+    session.close();
+    log('SDK session closed');
+  }
+}
+
+/**
+ * Open SDK sessions, one per conversation (and cwd / tool mode, since those
+ * are fixed when a session is created). Callers must not send on the same
+ * conversation concurrently; the daemon serialises sends per project.
+ */
+export class SdkSessionPool {
+  private readonly sessions = new Map<string, PooledSession>();
+
+  constructor(
+    private readonly idleMs: number = DEFAULT_SESSION_IDLE_MS,
+    private readonly createSession: SdkSessionFactory = resumeSdkSession,
+  ) {}
+
+  /**
+   * Send an outbox entry on a warm session, opening one if needed
+   */
+  async send(payload: OutboxEntry, log: LogFn = noopLog): Promise<string> {
+    const key = `${payload.conversationId}\0${payload.cwd}\0${payload.sdkToolsMode}`;
+    let pooled = this.sessions.get(key);
+    if (pooled) {
+      log(`Reusing SDK session for conversation ${payload.conversationId}`);
+    } else {
+      const session = await this.createSession(payload.conversationId, buildSessionOptions(payload, log));
+      const now = new Date().toISOString();
+      pooled = {
+        key,
+        session,
+        conversationId: payload.conversationId,
+        cwd: payload.cwd,
+        sdkToolsMode: payload.sdkToolsMode,
+        openedAt: now,
+        lastUsedAt: now,
+        sends: 0,
+      };
+      this.sessions.set(key, pooled);
+    }
+
+    try {
+      const response = await sendOnSession(pooled.session, payload, log);
+      pooled.sends++;
+      pooled.lastUsedAt = new Date().toISOString();
+      return response;
+    } catch (error) {
+      // The session may be broken; start fresh on the retry
+      this.closeSession(pooled, log);
+      throw error;
+    }
+  }
+
+  /**
+   * Close sessions unused for longer than the idle timeout.
+   * Returns the number closed.
+   */
+  closeIdle(log: LogFn = noopLog, now: number = Date.now()): number {
+    let closed = 0;
+    for (const pooled of [...this.sessions.values()]) {
+      if (now - new Date(pooled.lastUsedAt).getTime() >= this.idleMs) {
+        this.closeSession(pooled, log);
+        closed++;
+      }
+    }
+    return closed;
+  }
+
+  closeAll(log: LogFn = noopLog): void {
+    for (const pooled of [...this.sessions.values()]) {
+      this.closeSession(pooled, log);
+    }
+  }
+
+  describe(): PooledSessionInfo[] {
+    return [...this.sessions.values()].map(({ key, session, ...info }) => info);
+  }
+
+  private closeSession(pooled: PooledSession, log: LogFn): void {
+    this.sessions.delete(pooled.key);
+    try {
+      pooled.session.close();
+    } catch (error) {
+      log(`Error closing SDK session for ${pooled.conversationId}: ${error}`);
+    }
+    log(`SDK session closed for conversation ${pooled.conversationId}`);
+  }
+}
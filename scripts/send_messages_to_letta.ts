@@ -5,9 +5,13 @@
  * Sends Claude Code conversation messages to a Letta agent.
  * This script is designed to run as a Claude Code Stop hook.
  * 
+ * New messages are queued in the outbox and delivered in the background by
+ * send_worker_sdk.ts, or by the SDK daemon when LETTA_DAEMON=on.
+ * 
  * Environment Variables:
  *   LETTA_API_KEY - API key for Letta authentication
  *   LETTA_AGENT_ID - Agent ID to send messages to
+ *   LETTA_DAEMON - Set to "on" to deliver through the SDK daemon
  * 
  * Hook Input (via stdin):
  *   - session_id: Current session ID
@@ -23,26 +27,35 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { fileURLToPath } from 'url';
-import { getAgentId } from './agent_config.js';
+import { getAgentId, getKnownContextWindow, getKnownModelHandle } from './agent_config.js';
+import { deliverOutbox } from './daemon_client.js';
 import {
   loadSyncState,
   saveSyncState,
   getOrCreateConversation,
-  getSyncStateFile,
-  spawnSilentWorker,
   getMode,
   getTempStateDir,
   getSdkToolsMode,
 } from './conversation_utils.js';
+import { readTranscriptSince } from './transcript_utils.js';
 import {
-  readTranscript,
-  formatMessagesForLetta,
-} from './transcript_utils.js';
-
-// ESM-compatible __dirname
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+  collectImageUploads,
+  prepareTranscriptUpdate,
+  formatSessionUpdateMessage,
+  formatSessionUpdateParts,
+  getUnsentPosition,
+  markSliceQueued,
+  positionIndex,
+} from './session_updates.js';
+import { clearToolEvents } from './tool_events.js';
+import { getTranscriptTokenBudget } from './transcript_packer.js';
+import {
+  coalesceOutboxEntry,
+  enqueueOutboxEntry,
+  findCoalescableEntry,
+  hasPendingOutboxEntries,
+} from './outbox.js';
+import { withSessionLock } from './session_lock.js';
 
 // Configuration
 const TEMP_STATE_DIR = getTempStateDir();
@@ -99,6 +112,15 @@ async function readHookInput(): Promise<HookInput> {
   });
 }
 
+/**
+ * Replay anything left over from earlier failed deliveries
+ */
+async function replayOutbox(cwd: string): Promise<void> {
+  if (hasPendingOutboxEntries(cwd)) {
+    log('Replaying pending outbox entries');
+    await deliverOutbox(cwd, log);
+  }
+}
 
 /**
  * Main function
@@ -145,92 +167,125 @@ async function main(): Promise<void> {
       process.exit(0);
     }
 
-    // Read transcript
-    log(`Reading transcript from: ${hookInput.transcript_path}`);
-    const messages = await readTranscript(hookInput.transcript_path, log);
-    log(`Found ${messages.length} messages in transcript`);
-    
-    if (messages.length === 0) {
-      log('No messages found, exiting');
-      process.exit(0);
-    }
+    // Read only what was appended since the last queued update
+    const { cwd, session_id: sessionId, transcript_path: transcriptPath } = hookInput;
+    const state = loadSyncState(cwd, sessionId, log);
+    log(`Reading transcript from: ${transcriptPath}`);
+    let slice = await readTranscriptSince(transcriptPath, getUnsentPosition(state), log, state.subagentTranscripts);
+    log(`Found ${slice.messages.length} new messages after index ${slice.start.index}${slice.rescanned ? ' (rescanned)' : ''}`);
 
     // Log message types found
     const typeCounts: Record<string, number> = {};
-    for (const msg of messages) {
+    for (const msg of slice.messages) {
       const key = msg.type || msg.role || 'unknown';
       typeCounts[key] = (typeCounts[key] || 0) + 1;
     }
     log(`Message types: ${JSON.stringify(typeCounts)}`);
 
-    // Load sync state (from durable storage)
-    const state = loadSyncState(hookInput.cwd, hookInput.session_id, log);
-    
-    // Format new messages
-    const newMessages = formatMessagesForLetta(messages, state.lastProcessedIndex, log);
-    
-    if (newMessages.length === 0) {
-      log('No new messages to send after formatting');
+    if (slice.messages.length === 0) {
+      log('No new messages since the last queued update');
+      await replayOutbox(cwd);
       process.exit(0);
     }
 
     // Get or create conversation for this session
-    const conversationId = await getOrCreateConversation(apiKey, agentId, hookInput.session_id, hookInput.cwd, state, log);
+    const conversationId = await getOrCreateConversation(apiKey, agentId, sessionId, cwd, state, log);
     log(`Using conversation: ${conversationId}`);
 
-    // Save state now (with conversation ID) so it persists even if worker fails
-    saveSyncState(hookInput.cwd, state, log);
+    // Send via Letta Code SDK (Sub gets client-side tools)
+    const sdkToolsMode = getSdkToolsMode();
+    log(`SDK tools mode: ${sdkToolsMode}`);
+
+    const budgetTokens = getTranscriptTokenBudget(getKnownContextWindow(agentId));
+    const modelHandle = getKnownModelHandle(agentId);
 
-    // Build the message payload (same format as sendBatchToConversation)
-    const transcriptEntries = newMessages.map(m => {
-      const role = m.role === 'user' ? 'user' : m.role === 'assistant' ? 'claude_code' : 'system';
-      const escaped = m.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-      return `<message role="${role}">\n${escaped}\n</message>`;
-    }).join('\n');
+    // Another Stop hook or a worker may be updating this session right now;
+    // hold its lock from reading the queued position until the state is saved
+    const queued = await withSessionLock(cwd, sessionId, async () => {
+      const lockedState = loadSyncState(cwd, sessionId, log);
+      lockedState.conversationId = conversationId;
 
-    const userMessage = `<claude_code_session_update>
-<session_id>${hookInput.session_id}</session_id>
+      // Another hook may have queued part of the slice since it was read
+      const position = getUnsentPosition(lockedState);
+      if (positionIndex(position) !== slice.start.index) {
+        slice = await readTranscriptSince(transcriptPath, position, log, lockedState.subagentTranscripts);
+      }
+      if (slice.messages.length === 0) {
+        return false;
+      }
+      const endIndex = slice.end.index;
 
-<transcript>
-${transcriptEntries}
-</transcript>
+      // An entry no worker has picked up yet is extended to cover the new
+      // messages instead of queueing a second, overlapping slice, as long as
+      // the combined update still fits in one message
+      const pending = findCoalescableEntry(cwd, sessionId, conversationId);
+      if (pending?.transcriptStartIndex !== undefined) {
+        const pendingStart = pending.transcriptStart?.index === pending.transcriptStartIndex
+          ? pending.transcriptStart
+          : pending.transcriptStartIndex;
+        const combined = await readTranscriptSince(transcriptPath, pendingStart, log, lockedState.subagentTranscripts);
+        const merged = combined.end.index === endIndex ? prepareTranscriptUpdate(combined, log, budgetTokens) : null;
+        if (merged?.length === 1) {
+          const images = collectImageUploads(combined, modelHandle, log);
+          coalesceOutboxEntry(
+            cwd,
+            pending,
+            formatSessionUpdateMessage(sessionId, merged[0]),
+            endIndex,
+            log,
+            images.length > 0 ? images : undefined,
+          );
+          markSliceQueued(lockedState, slice);
+          saveSyncState(cwd, lockedState, log);
+          return true;
+        }
+      }
 
-<instructions>
-You may provide commentary or guidance for Claude Code. Your response will be added to Claude's context window on the next prompt. Use this to:
-- Offer observations about the user's work
-- Provide reminders or context from your memory
-- Suggest approaches or flag potential issues
-- Send async messages/guidance to Claude Code
+      // Format, redact and pack new messages
+      const chunks = prepareTranscriptUpdate(slice, log, budgetTokens);
+      if (!chunks) {
+        return false;
+      }
 
-Write your response as if speaking directly to Claude Code.
-</instructions>
-</claude_code_session_update>`;
+      // Persist to the outbox before touching state, so a crash between the
+      // two can only cause a resend, never a lost transcript slice. Only the
+      // last part advances lastProcessedIndex, and only a single-part update
+      // can be extended later. Images go with the last part.
+      const parts = formatSessionUpdateParts(sessionId, chunks);
+      const images = collectImageUploads(slice, modelHandle, log);
+      parts.forEach((message, i) => {
+        const last = i === parts.length - 1;
+        enqueueOutboxEntry(cwd, {
+          agentId,
+          conversationId,
+          sessionId,
+          cwd,
+          message,
+          images: last && images.length > 0 ? images : undefined,
+          sdkToolsMode,
+          newLastProcessedIndex: last ? endIndex : undefined,
+          transcriptStartIndex: parts.length === 1 ? slice.start.index : undefined,
+          transcriptStart: parts.length === 1 ? slice.start : undefined,
+        }, log);
+      });
 
-    // Send via Letta Code SDK (Sub gets client-side tools)
-    const sdkToolsMode = getSdkToolsMode();
-    log(`SDK tools mode: ${sdkToolsMode}`);
+      markSliceQueued(lockedState, slice);
+      saveSyncState(cwd, lockedState, log);
+      return true;
+    }, { log });
+
+    if (!queued) {
+      log('No new messages to send after formatting');
+      await replayOutbox(cwd);
+      process.exit(0);
+    }
+
+    // Live tool events from this turn are covered by the transcript above
+    clearToolEvents(cwd, sessionId);
+
+    await deliverOutbox(cwd, log);
 
-    const payloadFile = path.join(TEMP_STATE_DIR, `payload-${hookInput.session_id}-${Date.now()}.json`);
-    const stateFile = getSyncStateFile(hookInput.cwd, hookInput.session_id);
-
-    const sdkPayload = {
-      agentId,
-      conversationId,
-      sessionId: hookInput.session_id,
-      message: userMessage,
-      stateFile,
-      newLastProcessedIndex: messages.length - 1,
-      cwd: hookInput.cwd,
-      sdkToolsMode,
-    };
-    fs.writeFileSync(payloadFile, JSON.stringify(sdkPayload), 'utf-8');
-    log(`Wrote SDK payload to ${payloadFile}`);
-
-    const workerScript = path.join(__dirname, 'send_worker_sdk.ts');
-    const child = spawnSilentWorker(workerScript, payloadFile, hookInput.cwd);
-    log(`Spawned SDK worker (PID: ${child.pid})`);
-
-    log('Hook completed (worker running in background)');
+    log('Hook completed (delivery running in background)');
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -3,31 +3,23 @@
  * SDK-based background worker that sends messages to Letta via Letta Code SDK.
  * Gives the Subconscious agent client-side tool access (Read, Grep, Glob, etc.).
  *
- * Spawned by send_messages_to_letta.ts as a detached process.
- * Falls back gracefully if the SDK is not available.
+ * Spawned by send_messages_to_letta.ts as a detached process. Drains the
+ * project's durable outbox; entries that fail stay queued and are retried
+ * with backoff by the next worker.
  *
- * Usage: npx tsx send_worker_sdk.ts <payload_file>
+ * Usage: npx tsx send_worker_sdk.ts <cwd>
  */
 
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { drainOutbox } from './outbox.js';
+import { sendViaSdk } from './sdk_sender.js';
 
 const uid = typeof process.getuid === 'function' ? process.getuid() : process.pid;
 const TEMP_STATE_DIR = path.join(os.tmpdir(), `letta-claude-sync-${uid}`);
 const LOG_FILE = path.join(TEMP_STATE_DIR, 'send_worker_sdk.log');
 
-interface SdkPayload {
-  agentId: string;
-  conversationId: string;
-  sessionId: string;
-  message: string;
-  stateFile: string;
-  newLastProcessedIndex: number;
-  cwd: string;
-  sdkToolsMode: 'read-only' | 'full';
-}
-
 function log(message: string): void {
   const dir = path.dirname(LOG_FILE);
   if (!fs.existsSync(dir)) {
@@ -37,116 +29,21 @@ function log(message: string): void {
   fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
 }
 
-async function sendViaSdk(payload: SdkPayload): Promise<boolean> {
-  log(`Loading Letta Code SDK...`);
-
-  // Dynamic import so this file can be parsed even if SDK isn't installed
-  const { resumeSession } = await import('@letta-ai/letta-code-sdk');
-
-  // Configure tool restrictions based on mode
-  const readOnlyTools = ['Read', 'Grep', 'Glob', 'web_search', 'fetch_webpage'];
-  const blockedTools = ['AskUserQuestion', 'EnterPlanMode', 'ExitPlanMode'];
-
-  const sessionOptions: Record<string, unknown> = {
-    disallowedTools: blockedTools,
-    permissionMode: 'bypassPermissions',
-    cwd: payload.cwd,
-    skillSources: [],          // Sub doesn't need skills
-    systemInfoReminder: false, // reduce noise
-    sleeptime: { trigger: 'off' }, // don't recurse sleeptime
-    // The worker only needs to deliver a transcript to an existing Letta
-    // conversation. It should not clone/pull/reconcile the agent's MemFS repo
-    // on every Claude Code Stop hook: doing so can interact badly with a
-    // user-supplied LETTA_AGENT_ID whose memory is actively managed elsewhere.
-    memfsStartup: 'skip',
-  };
-
-  if (payload.sdkToolsMode === 'off') {
-    // Listen-only: block all client-side tools, Sub can only use memory operations
-    sessionOptions.disallowedTools = [...blockedTools, ...readOnlyTools, 'Bash', 'Edit', 'Write', 'Task', 'Glob', 'Grep', 'Read'];
-  } else if (payload.sdkToolsMode === 'read-only') {
-    sessionOptions.allowedTools = readOnlyTools;
-  }
-  // 'full' mode: no allowedTools restriction (all tools available)
-
-  const toolsLabel = payload.sdkToolsMode === 'off' ? 'none' : payload.sdkToolsMode === 'read-only' ? readOnlyTools.join(', ') : 'all';
-  log(`Creating SDK session for conversation ${payload.conversationId} (mode: ${payload.sdkToolsMode})`);
-  log(`  agent: ${payload.agentId}`);
-  log(`  cwd: ${payload.cwd}`);
-  log(`  allowedTools: ${toolsLabel}`);
-
-  const session = resumeSession(payload.conversationId, sessionOptions);
-
-  try {
-    log(`Sending message (${payload.message.length} chars)...`);
-    await session.send(payload.message);
-
-    // Stream and capture the response
-    let assistantResponse = '';
-    let messageCount = 0;
-
-    for await (const msg of session.stream()) {
-      messageCount++;
-      if (msg.type === 'assistant' && msg.content) {
-        assistantResponse += msg.content;
-        log(`  Assistant chunk: ${msg.content.substring(0, 100)}...`);
-      } else if (msg.type === 'tool_call') {
-        log(`  Tool call: ${(msg as any).toolName}`);
-      } else if (msg.type === 'error') {
-        log(`  Error: ${(msg as any).message}`);
-      }
-    }
-
-    log(`Stream complete: ${messageCount} messages, assistant response: ${assistantResponse.length} chars`);
-
-    // The SDK session sends the message to the Letta agent which processes it
-    // and generates a response. The response is automatically stored in the
-    // agent's conversation history on the Letta server. The existing
-    // pretool_sync / sync_letta_memory flow will pick it up and inject it
-    // into Claude's context on the next prompt.
-
-    return true;
-
-  } finally {
-    session.close();
-    log('SDK session closed');
-  }
-}
-
 async function main(): Promise<void> {
-  const payloadFile = process.argv[2];
+  const cwd = process.argv[2];
 
-  if (!payloadFile) {
-    log('ERROR: No payload file specified');
+  if (!cwd) {
+    log('ERROR: No cwd specified');
     process.exit(1);
   }
 
   log('='.repeat(60));
-  log(`SDK Worker started with payload: ${payloadFile}`);
+  log(`SDK Worker started for ${cwd}`);
 
   try {
-    if (!fs.existsSync(payloadFile)) {
-      log(`ERROR: Payload file not found: ${payloadFile}`);
-      process.exit(1);
-    }
-
-    const payload: SdkPayload = JSON.parse(fs.readFileSync(payloadFile, 'utf-8'));
-    log(`Loaded payload for session ${payload.sessionId}`);
-
-    const success = await sendViaSdk(payload);
-
-    if (success) {
-      // Update state file
-      const state = JSON.parse(fs.readFileSync(payload.stateFile, 'utf-8'));
-      state.lastProcessedIndex = payload.newLastProcessedIndex;
-      fs.writeFileSync(payload.stateFile, JSON.stringify(state, null, 2));
-      log(`Updated state: lastProcessedIndex=${payload.newLastProcessedIndex}`);
-    }
-
-    // Clean up payload file
-    fs.unlinkSync(payloadFile);
-    log('Cleaned up payload file');
-    log('SDK Worker completed successfully');
+    const result = await drainOutbox(cwd, (entry) => sendViaSdk(entry, log), log);
+    log(`Outbox drained: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`);
+    log('SDK Worker completed');
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,100 @@
+/**
+ * Tests for session_archive.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  archiveSession,
+  getArchiveDir,
+  pruneSessionArchive,
+  restoreArchivedSession,
+} from './session_archive.js';
+import {
+  getSyncStateFile,
+  loadConversationsMap,
+  loadSyncState,
+  saveConversationsMap,
+  saveSyncState,
+} from './conversation_utils.js';
+import { drainOutbox, enqueueOutboxEntry } from './outbox.js';
+
+let cwd: string;
+
+describe('session archive', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+    delete process.env.LETTA_HOME;
+    saveSyncState(cwd, { sessionId: 'session-1', conversationId: 'conv-1', lastProcessedIndex: 7 });
+    saveConversationsMap(cwd, {
+      version: 1,
+      sessions: {
+        'session-1': { conversationId: 'conv-1', agentId: 'agent-1' },
+        'session-2': { conversationId: 'conv-2', agentId: 'agent-1' },
+      },
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('moves state and mapping out of the active directory', () => {
+    expect(archiveSession(cwd, 'session-1')).toBe(true);
+
+    expect(fs.existsSync(getSyncStateFile(cwd, 'session-1'))).toBe(false);
+    expect(Object.keys(loadConversationsMap(cwd).sessions)).toEqual(['session-2']);
+    expect(fs.readdirSync(getArchiveDir(cwd))).toEqual(['session-session-1.json']);
+    expect(archiveSession(cwd, 'unknown')).toBe(false);
+  });
+
+  it('restores an archived session on resume', () => {
+    archiveSession(cwd, 'session-1');
+
+    expect(restoreArchivedSession(cwd, 'session-1')).toBe(true);
+    expect(loadSyncState(cwd, 'session-1').lastProcessedIndex).toBe(7);
+    expect(loadConversationsMap(cwd).sessions['session-1']).toEqual({ conversationId: 'conv-1', agentId: 'agent-1' });
+    expect(fs.readdirSync(getArchiveDir(cwd))).toEqual([]);
+  });
+
+  it('restores archives written before state files were versioned', () => {
+    fs.mkdirSync(getArchiveDir(cwd), { recursive: true });
+    fs.writeFileSync(path.join(getArchiveDir(cwd), 'session-session-3.json'), JSON.stringify({
+      sessionId: 'session-3',
+      archivedAt: new Date().toISOString(),
+      state: { sessionId: 'session-3', lastProcessedIndex: 4 },
+      conversation: 'conv-3',
+    }));
+
+    expect(restoreArchivedSession(cwd, 'session-3')).toBe(true);
+    expect(loadSyncState(cwd, 'session-3')).toMatchObject({ version: 1, lastProcessedIndex: 4 });
+    expect(loadConversationsMap(cwd).sessions['session-3']).toEqual({ conversationId: 'conv-3', agentId: null });
+  });
+
+  it('prunes archives older than the retention period', () => {
+    archiveSession(cwd, 'session-1');
+    const now = Date.now();
+
+    expect(pruneSessionArchive(cwd, 30, undefined, now)).toBe(0);
+    expect(pruneSessionArchive(cwd, 30, undefined, now + 31 * 24 * 60 * 60 * 1000)).toBe(1);
+  });
+
+  it('archives once the finalizing outbox entry is delivered', async () => {
+    enqueueOutboxEntry(cwd, {
+      sessionId: 'session-1',
+      conversationId: 'conv-1',
+      agentId: 'agent-1',
+      cwd,
+      message: '<claude_code_session_end>',
+      sdkToolsMode: 'read-only',
+      finalizeSession: true,
+    });
+
+    await drainOutbox(cwd, async () => {});
+
+    expect(fs.existsSync(getSyncStateFile(cwd, 'session-1'))).toBe(false);
+    expect(fs.existsSync(path.join(getArchiveDir(cwd), 'session-session-1.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Session Archive
+ *
+ * Ended sessions are moved out of .letta/claude/ so session-{id}.json files
+ * and conversations.json entries don't accumulate forever. Each archived
+ * session keeps its sync state and conversation mapping in
+ * {durable state dir}/archive/session-{id}.json, so a resumed session can
+ * pick up its old conversation. Archives older than
+ * LETTA_SESSION_RETENTION_DAYS (default 30) are pruned.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ConversationEntry,
+  deleteSyncState,
+  getDurableStateDir,
+  getSyncStateFile,
+  loadConversationsMap,
+  LogFn,
+  saveConversationsMap,
+  saveSyncState,
+  SyncState,
+  writeJsonFileAtomic,
+} from './conversation_utils.js';
+import { migrateSyncState, normalizeConversationEntry } from './state_migrations.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export interface ArchivedSession {
+  sessionId: string;
+  archivedAt: string;
+  state: SyncState | null;
+  conversation: ConversationEntry | null;
+}
+
+/**
+ * Get the archive directory path
+ */
+export function getArchiveDir(cwd: string): string {
+  return path.join(getDurableStateDir(cwd), 'archive');
+}
+
+function getArchiveFile(cwd: string, sessionId: string): string {
+  return path.join(getArchiveDir(cwd), `session-${sessionId}.json`);
+}
+
+/**
+ * Get the archive retention from LETTA_SESSION_RETENTION_DAYS
+ */
+export function getRetentionDays(): number {
+  const days = parseInt(process.env.LETTA_SESSION_RETENTION_DAYS || '', 10);
+  return days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Move a session's sync state and conversation mapping into the archive.
+ * Returns false if there was nothing to archive.
+ */
+export function archiveSession(cwd: string, sessionId: string, log: LogFn = noopLog): boolean {
+  const statePath = getSyncStateFile(cwd, sessionId);
+  let state: SyncState | null = null;
+  if (fs.existsSync(statePath)) {
+    try {
+      state = migrateSyncState(JSON.parse(fs.readFileSync(statePath, 'utf-8'))).value;
+    } catch (e) {
+      log(`Failed to read state for ${sessionId}, archiving without it: ${e}`);
+    }
+  }
+
+  const map = loadConversationsMap(cwd, log);
+  const conversation = map.sessions[sessionId] ?? null;
+  if (!state && !conversation) {
+    return false;
+  }
+
+  const archived: ArchivedSession = {
+    sessionId,
+    archivedAt: new Date().toISOString(),
+    state,
+    conversation,
+  };
+  writeJsonFileAtomic(getArchiveFile(cwd, sessionId), archived);
+
+  deleteSyncState(cwd, sessionId);
+  if (conversation) {
+    delete map.sessions[sessionId];
+    saveConversationsMap(cwd, map);
+  }
+  log(`Archived session ${sessionId}`);
+  return true;
+}
+
+/**
+ * Move an archived session back into active state (e.g. on resume).
+ * Returns false if the session was never archived.
+ */
+export function restoreArchivedSession(cwd: string, sessionId: string, log: LogFn = noopLog): boolean {
+  const archivePath = getArchiveFile(cwd, sessionId);
+  if (!fs.existsSync(archivePath)) {
+    return false;
+  }
+
+  let archived: ArchivedSession;
+  try {
+    archived = JSON.parse(fs.readFileSync(archivePath, 'utf-8'));
+  } catch (e) {
+    log(`Failed to read archived session ${sessionId}: ${e}`);
+    return false;
+  }
+
+  // Archives written before state files were versioned hold the old shapes
+  if (archived.state) {
+    saveSyncState(cwd, { ...migrateSyncState(archived.state).value, sessionId }, log);
+  }
+  const conversation = normalizeConversationEntry(archived.conversation);
+  if (conversation) {
+    const map = loadConversationsMap(cwd, log);
+    map.sessions[sessionId] = conversation;
+    saveConversationsMap(cwd, map);
+  }
+  fs.unlinkSync(archivePath);
+  log(`Restored archived session ${sessionId}`);
+  return true;
+}
+
+/**
+ * Delete archived sessions older than the retention period.
+ * Returns the number of archives removed.
+ */
+export function pruneSessionArchive(
+  cwd: string,
+  retentionDays: number = getRetentionDays(),
+  log: LogFn = noopLog,
+  now: number = Date.now(),
+): number {
+  const dir = getArchiveDir(cwd);
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  let pruned = 0;
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.startsWith('session-') || !file.endsWith('.json')) continue;
+    const filePath = path.join(dir, file);
+    if (fs.statSync(filePath).mtimeMs < cutoff) {
+      fs.unlinkSync(filePath);
+      pruned++;
+    }
+  }
+
+  if (pruned > 0) {
+    log(`Pruned ${pruned} archived session(s) older than ${retentionDays} days`);
+  }
+  return pruned;
+}
@@ -0,0 +1,48 @@
+/**
+ * Tests for session_end.ts
+ *
+ * Covers redaction of the session summary in the session end message.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createRedactor } from './redaction.js';
+import { formatSessionEndMessage } from './session_end.js';
+import { SessionStats } from './session_stats.js';
+
+const hookInput = { session_id: 's1', transcript_path: '/tmp/t.jsonl', cwd: '/repo', reason: 'other' };
+
+function stats(overrides: Partial<SessionStats> = {}): SessionStats {
+  return {
+    startedAt: null,
+    endedAt: null,
+    durationMs: null,
+    userPrompts: 1,
+    toolCalls: { Read: 1, Edit: 1 },
+    toolErrors: 0,
+    filesRead: [],
+    filesModified: [],
+    ...overrides,
+  };
+}
+
+describe('formatSessionEndMessage', () => {
+  it('redacts secrets in the file lists', () => {
+    const message = formatSessionEndMessage(hookInput, stats({
+      filesModified: ['/repo/src/parser.ts', '/repo/notes/jane@example.com/todo.md'],
+      filesRead: ['/home/jane/.env.sk-ant-REDACTED'],
+    }), null, createRedactor());
+
+    expect(message).toContain('<files_modified>\n- src/parser.ts\n- notes/[REDACTED:email]/todo.md\n</files_modified>');
+    expect(message).toContain('- /home/jane/.env.[REDACTED:api_key]');
+    expect(message).not.toContain('jane@example.com');
+    expect(message).toContain('tool_calls: Read 1, Edit 1');
+  });
+
+  it('leaves the summary alone when redaction is off', () => {
+    const message = formatSessionEndMessage(hookInput, stats({
+      filesModified: ['/repo/notes/jane@example.com/todo.md'],
+    }), null, createRedactor({ enabled: false }));
+
+    expect(message).toContain('- notes/jane@example.com/todo.md');
+  });
+});
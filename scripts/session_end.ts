@@ -0,0 +1,280 @@
+#!/usr/bin/env npx tsx
+/**
+ * Session End Hook Script
+ *
+ * Tells the Letta agent a Claude Code session is over and asks it to
+ * consolidate memory. The message carries any transcript Sub hasn't received
+ * yet plus a summary of the whole session (duration, files touched, tool-call
+ * counts). Once the SDK worker delivers it, the session's sync state and
+ * conversations.json entry are moved to .letta/claude/archive/, and archives
+ * older than LETTA_SESSION_RETENTION_DAYS are pruned.
+ *
+ * Environment Variables:
+ *   LETTA_API_KEY - API key for Letta authentication
+ *   LETTA_AGENT_ID - Agent ID to send messages to
+ *   LETTA_SESSION_RETENTION_DAYS - Days to keep archived sessions (default 30)
+ *
+ * Hook Input (via stdin):
+ *   - session_id, transcript_path, cwd
+ *   - reason: "clear", "logout", "prompt_input_exit" or "other"
+ *
+ * Exit Codes:
+ *   0 - Always (never blocks Claude Code from exiting)
+ *
+ * Log file: $TMPDIR/letta-claude-sync-$UID/session_end.log
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAgentId, getKnownContextWindow, getKnownModelHandle } from './agent_config.js';
+import { deliverOutbox } from './daemon_client.js';
+import {
+  escapeXmlContent,
+  getMode,
+  getOrCreateConversation,
+  getSdkToolsMode,
+  getTempStateDir,
+  isMainModule,
+  loadSyncState,
+  saveSyncState,
+} from './conversation_utils.js';
+import { setHookTimeBudget } from './letta_client.js';
+import { enqueueOutboxEntry } from './outbox.js';
+import { createRedactor, Redactor } from './redaction.js';
+import { withSessionLock } from './session_lock.js';
+import { archiveSession, pruneSessionArchive } from './session_archive.js';
+import { computeSessionStats, formatDuration, SessionStats } from './session_stats.js';
+import {
+  collectImageUploads,
+  getCompactNotesFile,
+  getUnsentPosition,
+  markSliceQueued,
+  prepareTranscriptUpdate,
+  splitFinalChunk,
+} from './session_updates.js';
+import { loadSettings } from './settings.js';
+import { clearToolEvents } from './tool_events.js';
+import { getTranscriptTokenBudget } from './transcript_packer.js';
+import { readTranscript, readTranscriptSince } from './transcript_utils.js';
+
+// Configuration
+const TEMP_STATE_DIR = getTempStateDir();
+const LOG_FILE = path.join(TEMP_STATE_DIR, 'session_end.log');
+
+// Keep in sync with the SessionEnd timeout in hooks.json
+const HOOK_TIMEOUT_MS = 30000;
+
+// Keep the file lists readable for long sessions
+const MAX_FILES_LISTED = 50;
+
+export interface HookInput {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  hook_event_name?: string;
+  reason?: string;
+}
+
+/**
+ * Log message to file
+ */
+function log(message: string): void {
+  if (!fs.existsSync(TEMP_STATE_DIR)) {
+    fs.mkdirSync(TEMP_STATE_DIR, { recursive: true });
+  }
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Read hook input from stdin
+ */
+async function readHookInput(): Promise<HookInput> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('readable', () => {
+      let chunk;
+      while ((chunk = process.stdin.read()) !== null) {
+        data += chunk;
+      }
+    });
+    process.stdin.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (e) {
+        reject(new Error(`Failed to parse hook input: ${e}`));
+      }
+    });
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Format a file list, relative to the project where possible
+ */
+function formatFileList(files: string[], cwd: string, redact: (text: string) => string): string {
+  const lines = files.slice(0, MAX_FILES_LISTED).map(file => {
+    const relative = path.relative(cwd, file);
+    const display = relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+    return `- ${escapeXmlContent(redact(display))}`;
+  });
+  if (files.length > MAX_FILES_LISTED) {
+    lines.push(`- ... and ${files.length - MAX_FILES_LISTED} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Build the session end message. The transcript is already redacted; the
+ * project name, tool names and file paths in the stats go through the
+ * redactor here.
+ */
+export function formatSessionEndMessage(
+  hookInput: HookInput,
+  stats: SessionStats,
+  transcript: string | null,
+  redactor: Redactor,
+): string {
+  const redact = (text: string) => redactor.redact(text).text;
+  const toolCalls = Object.entries(stats.toolCalls)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${redact(name)} ${count}`)
+    .join(', ');
+
+  const parts = [
+    `<session_id>${hookInput.session_id}</session_id>`,
+    `<project>${escapeXmlContent(redact(path.basename(hookInput.cwd)))}</project>`,
+    `<reason>${escapeXmlContent(hookInput.reason || 'other')}</reason>`,
+  ];
+  if (stats.durationMs !== null) {
+    parts.push(`<duration started="${stats.startedAt}" ended="${stats.endedAt}">${formatDuration(stats.durationMs)}</duration>`);
+  }
+  parts.push(`<activity>
+user_prompts: ${stats.userPrompts}
+tool_calls: ${toolCalls || 'none'}
+tool_errors: ${stats.toolErrors}
+</activity>`);
+  if (stats.filesModified.length > 0) {
+    parts.push(`<files_modified>\n${formatFileList(stats.filesModified, hookInput.cwd, redact)}\n</files_modified>`);
+  }
+  if (stats.filesRead.length > 0) {
+    parts.push(`<files_read>\n${formatFileList(stats.filesRead, hookInput.cwd, redact)}\n</files_read>`);
+  }
+  if (transcript) {
+    parts.push(`<transcript>\n${transcript}\n</transcript>`);
+  }
+
+  return `<claude_code_session_end>
+${parts.join('\n')}
+
+<instructions>
+This Claude Code session has ended; Claude Code will not see a reply. Take the time to consolidate your memory:
+- Record what was accomplished and what was left unfinished, so you can brief the next session
+- Update what you know about the user's preferences and the project from this session
+- Merge or remove notes that are now outdated or duplicated
+</instructions>
+</claude_code_session_end>`;
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  log('='.repeat(60));
+  log('session_end.ts started');
+
+  if (getMode() === 'off') {
+    log('Mode is off, exiting');
+    process.exit(0);
+  }
+
+  const apiKey = process.env.LETTA_API_KEY;
+  if (!apiKey) {
+    log('LETTA_API_KEY not set, exiting');
+    process.exit(0);
+  }
+
+  setHookTimeBudget(HOOK_TIMEOUT_MS);
+
+  try {
+    const hookInput = await readHookInput();
+    log(`Hook input: session_id=${hookInput.session_id}, reason=${hookInput.reason}, cwd=${hookInput.cwd}`);
+
+    const { cwd, session_id: sessionId } = hookInput;
+
+    // The final transcript covers buffered tool events, and there is no
+    // compaction left to re-inject notes into
+    clearToolEvents(cwd, sessionId);
+    fs.rmSync(getCompactNotesFile(cwd, sessionId), { force: true });
+    pruneSessionArchive(cwd, undefined, log);
+
+    const { subagentTranscripts } = loadSyncState(cwd, sessionId);
+    const messages = await readTranscript(hookInput.transcript_path, log, subagentTranscripts);
+    if (messages.length === 0) {
+      log('Empty transcript, archiving without notifying the agent');
+      archiveSession(cwd, sessionId, log);
+      process.exit(0);
+    }
+
+    const agentId = await getAgentId(apiKey, log);
+    const state = loadSyncState(cwd, sessionId, log);
+    const conversationId = await getOrCreateConversation(apiKey, agentId, sessionId, cwd, state, log);
+
+    const stats = computeSessionStats(messages);
+    log(`Session stats: ${stats.userPrompts} prompts, ${Object.values(stats.toolCalls).reduce((a, b) => a + b, 0)} tool calls, ${stats.filesModified.length} files modified`);
+
+    // A late Stop hook may still be queueing; don't slice the same messages
+    const budgetTokens = getTranscriptTokenBudget(getKnownContextWindow(agentId));
+    await withSessionLock(cwd, sessionId, async () => {
+      const lockedState = loadSyncState(cwd, sessionId, log);
+      lockedState.conversationId = conversationId;
+      const slice = await readTranscriptSince(
+        hookInput.transcript_path,
+        getUnsentPosition(lockedState),
+        log,
+        lockedState.subagentTranscripts,
+      );
+      const chunks = prepareTranscriptUpdate(slice, log, budgetTokens);
+      const images = chunks ? collectImageUploads(slice, getKnownModelHandle(agentId), log) : [];
+
+      // An oversized transcript goes out as leading parts before the summary
+      const { leading, final: transcript } = splitFinalChunk(sessionId, chunks);
+      for (const message of leading) {
+        enqueueOutboxEntry(cwd, { agentId, conversationId, sessionId, cwd, message, sdkToolsMode: getSdkToolsMode() }, log);
+      }
+
+      // The session is archived once this is delivered
+      enqueueOutboxEntry(cwd, {
+        agentId,
+        conversationId,
+        sessionId,
+        cwd,
+        message: formatSessionEndMessage(hookInput, stats, transcript, createRedactor(loadSettings(log).redaction, log)),
+        sdkToolsMode: getSdkToolsMode(),
+        newLastProcessedIndex: transcript ? slice.end.index : undefined,
+        finalizeSession: true,
+        images: images.length > 0 ? images : undefined,
+      }, log);
+
+      if (transcript) {
+        markSliceQueued(lockedState, slice);
+        saveSyncState(cwd, lockedState, log);
+      }
+    }, { log });
+
+    await deliverOutbox(cwd, log);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log(`ERROR: ${errorMessage}`);
+    if (error instanceof Error && error.stack) {
+      log(`Stack trace: ${error.stack}`);
+    }
+  }
+  process.exit(0);
+}
+
+if (isMainModule(import.meta.url)) {
+  main();
+}
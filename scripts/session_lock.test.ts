@@ -0,0 +1,99 @@
+/**
+ * Tests for session_lock.ts
+ *
+ * Covers mutual exclusion between holders, waiting and timeouts, and
+ * breaking locks abandoned by dead or stuck processes.
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  getSessionLockFile,
+  releaseSessionLock,
+  SessionLockTimeoutError,
+  tryAcquireSessionLock,
+  withSessionLock,
+} from './session_lock.js';
+
+let cwd: string;
+
+function writeForeignLock(pid: number, ageMs = 0): string {
+  const lockFile = getSessionLockFile(cwd, 'session-1');
+  fs.mkdirSync(path.dirname(lockFile), { recursive: true });
+  fs.writeFileSync(lockFile, JSON.stringify({ pid, acquiredAt: new Date().toISOString() }));
+  if (ageMs > 0) {
+    const then = new Date(Date.now() - ageMs);
+    fs.utimesSync(lockFile, then, then);
+  }
+  return lockFile;
+}
+
+describe('session lock', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'session-lock-test-'));
+    delete process.env.LETTA_HOME;
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('lets only one holder in at a time', async () => {
+    const order: string[] = [];
+    const hold = (name: string) => withSessionLock(cwd, 'session-1', async () => {
+      order.push(`${name} in`);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      order.push(`${name} out`);
+    });
+
+    await Promise.all([hold('a'), hold('b')]);
+
+    expect(order).toEqual(['a in', 'a out', 'b in', 'b out']);
+    expect(fs.existsSync(getSessionLockFile(cwd, 'session-1'))).toBe(false);
+  });
+
+  it('releases the lock when the callback throws', async () => {
+    await expect(withSessionLock(cwd, 'session-1', () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(tryAcquireSessionLock(cwd, 'session-1')).toBe(true);
+    releaseSessionLock(cwd, 'session-1');
+  });
+
+  it('times out while a live process holds the lock', async () => {
+    const lockFile = writeForeignLock(process.ppid);
+
+    await expect(withSessionLock(cwd, 'session-1', () => 'never', { timeoutMs: 60 }))
+      .rejects.toBeInstanceOf(SessionLockTimeoutError);
+
+    // Someone else's lock is left alone
+    releaseSessionLock(cwd, 'session-1');
+    expect(fs.existsSync(lockFile)).toBe(true);
+  });
+
+  it('breaks locks left by dead or stuck holders', async () => {
+    const exited = spawnSync(process.execPath, ['-e', '']);
+    writeForeignLock(exited.pid!);
+    expect(await withSessionLock(cwd, 'session-1', () => 'dead owner')).toBe('dead owner');
+
+    writeForeignLock(process.ppid, 60 * 1000);
+    expect(await withSessionLock(cwd, 'session-1', () => 'stuck owner')).toBe('stuck owner');
+  });
+
+  it('takes over a stale lock without leaving the old one behind', () => {
+    const exited = spawnSync(process.execPath, ['-e', '']);
+    const lockFile = writeForeignLock(exited.pid!);
+
+    expect(tryAcquireSessionLock(cwd, 'session-1')).toBe(true);
+    expect(JSON.parse(fs.readFileSync(lockFile, 'utf-8')).pid).toBe(process.pid);
+    expect(fs.readdirSync(path.dirname(lockFile))).toEqual([path.basename(lockFile)]);
+
+    // Our own lock is live, so a second attempt must not break it
+    expect(tryAcquireSessionLock(cwd, 'session-1')).toBe(false);
+    releaseSessionLock(cwd, 'session-1');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Session Locks
+ *
+ * Cross-process lock per Claude Code session, kept under
+ * {durable state dir}/locks/. Hooks and outbox workers hold it while they
+ * read and rewrite a session's sync state and queued outbox entries, so two
+ * quick Stop hooks (or a hook and a worker) never compute overlapping
+ * transcript slices or overwrite each other's state.
+ *
+ * The lock is only held around local file updates, never across network
+ * calls. A lock left behind by a crashed process is broken once its owner
+ * is gone or it is older than LOCK_STALE_MS.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDurableStateDir, LogFn } from './conversation_utils.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_POLL_MS = 25;
+// Holders only touch local files, so anything this old was abandoned
+const LOCK_STALE_MS = 30 * 1000;
+
+interface LockInfo {
+  pid: number;
+  acquiredAt: string;
+}
+
+export interface SessionLockOptions {
+  /** How long to wait for another holder before giving up */
+  timeoutMs?: number;
+  log?: LogFn;
+}
+
+export class SessionLockTimeoutError extends Error {
+  constructor(readonly sessionId: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for the lock on session ${sessionId}`);
+    this.name = 'SessionLockTimeoutError';
+  }
+}
+
+/**
+ * Get the lock file path for a session
+ */
+export function getSessionLockFile(cwd: string, sessionId: string): string {
+  return path.join(getDurableStateDir(cwd), 'locks', `session-${sessionId}.lock`);
+}
+
+/**
+ * Check whether a process is still running
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM: it exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function readLockInfo(lockFile: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockFile, 'utf-8'));
+  } catch {
+    // Missing, or the owner is still writing it
+    return null;
+  }
+}
+
+/**
+ * Stat the lock file if its holder is gone or it has been held too long
+ */
+function statStaleLock(lockFile: string, now: number): fs.Stats | null {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(lockFile);
+  } catch {
+    return null;
+  }
+  const info = readLockInfo(lockFile);
+  if (info && !isProcessAlive(info.pid)) {
+    return stat;
+  }
+  return now - stat.mtimeMs > LOCK_STALE_MS ? stat : null;
+}
+
+function tryCreateLock(lockFile: string): boolean {
+  const info: LockInfo = { pid: process.pid, acquiredAt: new Date().toISOString() };
+  try {
+    fs.writeFileSync(lockFile, JSON.stringify(info), { encoding: 'utf-8', flag: 'wx' });
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Try to take the session lock without waiting
+ */
+export function tryAcquireSessionLock(
+  cwd: string,
+  sessionId: string,
+  log: LogFn = noopLog,
+  now: number = Date.now(),
+): boolean {
+  const lockFile = getSessionLockFile(cwd, sessionId);
+  fs.mkdirSync(path.dirname(lockFile), { recursive: true });
+
+  if (tryCreateLock(lockFile)) {
+    return true;
+  }
+  const stale = statStaleLock(lockFile, now);
+  if (!stale) {
+    return false;
+  }
+  log(`Breaking stale lock for session ${sessionId} (held by PID ${readLockInfo(lockFile)?.pid ?? 'unknown'})`);
+
+  // Move it aside before deleting it. Another waiter may have broken the
+  // same stale lock and taken a fresh one since we looked; deleting by path
+  // would remove that holder's lock and let both of us in.
+  const moved = `${lockFile}.${process.pid}.${Date.now()}.stale`;
+  try {
+    fs.renameSync(lockFile, moved);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw e;
+  }
+  if (fs.statSync(moved).ino !== stale.ino) {
+    // We moved the other waiter's fresh lock; put it back and keep waiting
+    try {
+      fs.linkSync(moved, lockFile);
+    } catch {
+      // Someone else got in meanwhile; they hold it now
+    }
+    fs.rmSync(moved, { force: true });
+    return false;
+  }
+  fs.rmSync(moved, { force: true });
+  return tryCreateLock(lockFile);
+}
+
+/**
+ * Release the session lock if this process still holds it
+ */
+export function releaseSessionLock(cwd: string, sessionId: string): void {
+  const lockFile = getSessionLockFile(cwd, sessionId);
+  if (readLockInfo(lockFile)?.pid === process.pid) {
+    fs.rmSync(lockFile, { force: true });
+  }
+}
+
+/**
+ * Run fn while holding the session lock, waiting for any other holder.
+ * Not reentrant: fn must not take the same session's lock again.
+ */
+export async function withSessionLock<T>(
+  cwd: string,
+  sessionId: string,
+  fn: () => T | Promise<T>,
+  options: SessionLockOptions = {},
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const log = options.log || noopLog;
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquireSessionLock(cwd, sessionId, log)) {
+    if (Date.now() >= deadline) {
+      throw new SessionLockTimeoutError(sessionId, timeoutMs);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    releaseSessionLock(cwd, sessionId);
+  }
+}
@@ -13,9 +13,14 @@
  *   - session_id: Current session ID
  *   - cwd: Current working directory
  *   - hook_event_name: "SessionStart"
+ *   - source: "startup", "resume", "clear" or "compact"
+ *
+ * After compaction (source "compact") the hook only prints Sub's
+ * pre-compaction notes (saved by precompact_flush.ts) to stdout, which
+ * Claude Code adds to the fresh context.
  *
  * Exit Codes:
- *   0 - Success
+ *   0 - Success, or Letta unavailable (see circuit_breaker.ts)
  *   1 - Non-blocking error
  *
  * Log file: $TMPDIR/letta-claude-sync-$UID/session_start.log
@@ -27,55 +32,31 @@ import * as path from 'path';
 import { getAgentId } from './agent_config.js';
 import {
   cleanLettaFromClaudeMd,
-  createConversation,
   fetchAgent,
   getMode,
+  getOrCreateConversation,
   getTempStateDir,
   getSdkToolsMode,
   expandPath,
+  saveSyncState,
+  SyncState,
 } from './conversation_utils.js';
-import { buildLettaApiUrl } from './letta_api_url.js';
+import { getDaemonStatus, isDaemonEnabled } from './daemon_client.js';
+import { createLettaClient, isLettaUnavailable, setHookTimeBudget } from './letta_client.js';
+import { restoreArchivedSession } from './session_archive.js';
+import { getCompactNotesFile } from './session_updates.js';
 
 // Configuration
 const TEMP_STATE_DIR = getTempStateDir();
 const LOG_FILE = path.join(TEMP_STATE_DIR, 'session_start.log');
+// Keep in sync with the SessionStart timeout in hooks.json
+const HOOK_TIMEOUT_MS = 5000;
 
 interface HookInput {
   session_id: string;
   cwd: string;
   hook_event_name?: string;
-}
-
-interface ConversationEntry {
-  conversationId: string;
-  agentId: string;
-}
-
-// Support both old format (string) and new format (object) for backward compatibility
-interface ConversationsMap {
-  [sessionId: string]: string | ConversationEntry;
-}
-
-interface Conversation {
-  id: string;
-  agent_id: string;
-  created_at?: string;
-}
-
-// Durable storage in .letta directory
-// If LETTA_HOME is set, use that as the base instead of cwd
-function getDurableStateDir(cwd: string): string {
-  const raw = process.env.LETTA_HOME || cwd;
-  const base = process.env.LETTA_HOME ? expandPath(raw) : raw;
-  return path.join(base, '.letta', 'claude');
-}
-
-function getConversationsFile(cwd: string): string {
-  return path.join(getDurableStateDir(cwd), 'conversations.json');
-}
-
-function getSyncStateFile(cwd: string, sessionId: string): string {
-  return path.join(getDurableStateDir(cwd), `session-${sessionId}.json`);
+  source?: 'startup' | 'resume' | 'clear' | 'compact';
 }
 
 /**
@@ -87,13 +68,6 @@ function ensureLogDir(): void {
   }
 }
 
-function ensureDurableStateDir(cwd: string): void {
-  const dir = getDurableStateDir(cwd);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-}
-
 /**
  * Log message to file
  */
@@ -128,43 +102,6 @@ async function readHookInput(): Promise<HookInput> {
   });
 }
 
-/**
- * Load conversations mapping
- */
-function loadConversationsMap(cwd: string): ConversationsMap {
-  const filePath = getConversationsFile(cwd);
-  if (fs.existsSync(filePath)) {
-    try {
-      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-    } catch (e) {
-      log(`Failed to load conversations map: ${e}`);
-    }
-  }
-  return {};
-}
-
-/**
- * Save conversations mapping
- */
-function saveConversationsMap(cwd: string, map: ConversationsMap): void {
-  ensureDurableStateDir(cwd);
-  fs.writeFileSync(getConversationsFile(cwd), JSON.stringify(map, null, 2), 'utf-8');
-}
-
-/**
- * Save session state
- */
-function saveSessionState(cwd: string, sessionId: string, conversationId: string): void {
-  ensureDurableStateDir(cwd);
-  const state = {
-    sessionId,
-    conversationId,
-    lastProcessedIndex: -1,
-    startedAt: new Date().toISOString(),
-  };
-  fs.writeFileSync(getSyncStateFile(cwd, sessionId), JSON.stringify(state, null, 2), 'utf-8');
-}
-
 /**
  * Send session start message to Letta
  */
@@ -174,8 +111,6 @@ async function sendSessionStartMessage(
   sessionId: string,
   cwd: string
 ): Promise<void> {
-  const url = buildLettaApiUrl(`/conversations/${conversationId}/messages`);
-
   const projectName = path.basename(cwd);
   const timestamp = new Date().toISOString();
 
@@ -203,33 +138,33 @@ ${sdkToolsMode !== 'off' ? `Use your tools to explore the codebase at ${cwd} whe
 
   log(`Sending session start message to conversation ${conversationId}`);
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      messages: [{ role: 'user', content: message }],
-    }),
-  });
+  await createLettaClient(apiKey).sendConversationMessage(conversationId, message);
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to send message: ${response.status} ${errorText}`);
+  log(`Session start message sent successfully`);
+}
+
+/**
+ * Print Sub's pre-compaction notes so they land in the compacted context
+ */
+function injectCompactNotes(cwd: string, sessionId: string): void {
+  const notesFile = getCompactNotesFile(cwd, sessionId);
+  if (!fs.existsSync(notesFile)) {
+    log('No pre-compaction notes to inject');
+    return;
   }
 
-  // Consume stream minimally
-  const reader = response.body?.getReader();
-  if (reader) {
-    try {
-      await reader.read();
-    } finally {
-      reader.cancel();
-    }
+  const notes = fs.readFileSync(notesFile, 'utf-8').trim();
+  fs.unlinkSync(notesFile);
+  if (!notes) {
+    return;
   }
 
-  log(`Session start message sent successfully`);
+  console.log(`Your context was just compacted. Before that, your Subconscious agent saw the full transcript and wrote these notes on what the summary may have dropped:
+
+<letta_message from="Subconscious" type="compact_notes">
+${notes}
+</letta_message>`);
+  log(`Injected pre-compaction notes (${notes.length} chars)`);
 }
 
 /**
@@ -254,6 +189,26 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  setHookTimeBudget(HOOK_TIMEOUT_MS);
+
+  // Read hook input before any output: after compaction the banner and
+  // session start message are skipped
+  log('Reading hook input from stdin...');
+  let hookInput: HookInput;
+  try {
+    hookInput = await readHookInput();
+  } catch (error) {
+    log(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  log(`Hook input: session_id=${hookInput.session_id}, cwd=${hookInput.cwd}, source=${hookInput.source}`);
+
+  if (hookInput.source === 'compact') {
+    injectCompactNotes(hookInput.cwd, hookInput.session_id);
+    log('Completed successfully');
+    process.exit(0);
+  }
+
   // Try to open TTY for user-visible output (bypasses Claude's capture)
   // Skip on Windows — /dev/tty resolves to C:\dev\tty which doesn't exist
   let tty: fs.WriteStream | null = null;
@@ -306,6 +261,10 @@ async function main(): Promise<void> {
     writeTty(`  Model:      ${modelHandle}\n`);
     writeTty(`  Mode:       ${mode}\n`);
     writeTty(`  SDK Tools:  ${sdkTools}\n`);
+    if (isDaemonEnabled()) {
+      const daemon = await getDaemonStatus(500);
+      writeTty(`  Daemon:     ${daemon ? `running, ${daemon.sessions.length} warm session(s)` : 'starts on first delivery'}\n`);
+    }
     if (process.env.LETTA_BASE_URL) {
       writeTty(`  Server:     ${baseUrl}\n`);
     }
@@ -317,51 +276,18 @@ async function main(): Promise<void> {
     writeTty('  github.com/letta-ai/claude-subconscious\n');
     writeTty('\x1b[0m'); // Reset
     writeTty('\n');
-    // Read hook input
-    log('Reading hook input from stdin...');
-    const hookInput = await readHookInput();
-    log(`Hook input: session_id=${hookInput.session_id}, cwd=${hookInput.cwd}`);
-
-    // Check if conversation already exists for this session
-    const conversationsMap = loadConversationsMap(hookInput.cwd);
-
-    let conversationId: string;
-    const cached = conversationsMap[hookInput.session_id];
-
-    if (cached) {
-      // Parse both old format (string) and new format (object)
-      const entry = typeof cached === 'string'
-        ? { conversationId: cached, agentId: null as string | null }
-        : cached;
-
-      if (entry.agentId && entry.agentId !== agentId) {
-        // Agent ID changed - clear stale entry and create new conversation
-        log(`Agent ID changed (${entry.agentId} -> ${agentId}), clearing stale conversation`);
-        delete conversationsMap[hookInput.session_id];
-        conversationId = await createConversation(apiKey, agentId, log);
-        conversationsMap[hookInput.session_id] = { conversationId, agentId };
-        saveConversationsMap(hookInput.cwd, conversationsMap);
-      } else if (!entry.agentId) {
-        // Old format without agentId - upgrade by recreating
-        log(`Upgrading old format entry (no agentId stored), creating new conversation`);
-        delete conversationsMap[hookInput.session_id];
-        conversationId = await createConversation(apiKey, agentId, log);
-        conversationsMap[hookInput.session_id] = { conversationId, agentId };
-        saveConversationsMap(hookInput.cwd, conversationsMap);
-      } else {
-        // Valid entry with matching agentId - reuse
-        conversationId = entry.conversationId;
-        log(`Reusing existing conversation: ${conversationId}`);
-      }
-    } else {
-      // No existing entry - create new conversation
-      conversationId = await createConversation(apiKey, agentId, log);
-      conversationsMap[hookInput.session_id] = { conversationId, agentId };
-      saveConversationsMap(hookInput.cwd, conversationsMap);
+
+    // A resumed session was archived by the SessionEnd hook; bring back its
+    // conversation mapping so Sub keeps the same thread
+    if (hookInput.source === 'resume') {
+      restoreArchivedSession(hookInput.cwd, hookInput.session_id, log);
     }
 
-    // Save session state
-    saveSessionState(hookInput.cwd, hookInput.session_id, conversationId);
+    // Every start records fresh sync state; the conversation is reused
+    // from conversations.json unless the agent changed
+    const state: SyncState = { lastProcessedIndex: -1, sessionId: hookInput.session_id };
+    const conversationId = await getOrCreateConversation(apiKey, agentId, hookInput.session_id, hookInput.cwd, state, log);
+    saveSyncState(hookInput.cwd, state, log);
 
     // Clean up any existing <letta> section from CLAUDE.md (legacy migration)
     log('Cleaning up any legacy CLAUDE.md content...');
@@ -405,6 +331,16 @@ async function main(): Promise<void> {
     const errorMessage = error instanceof Error ? error.message : String(error);
     log(`ERROR: ${errorMessage}`);
 
+    if (isLettaUnavailable(error)) {
+      // Not worth a red error: the session works without Sub
+      writeTty('\r\x1b[K'); // Clear current line
+      writeTty('\x1b[2m'); // Dim
+      writeTty('  Letta is unavailable, continuing without Subconscious\n');
+      writeTty('\x1b[0m'); // Reset
+      if (tty) tty.end();
+      process.exit(0);
+    }
+
     // Show error to user
     writeTty('\r\x1b[K'); // Clear current line
     writeTty('\x1b[31m'); // Red
@@ -0,0 +1,72 @@
+/**
+ * Tests for session_stats.ts
+ */
+
+import { describe, expect, it } from 'vitest';
+import { computeSessionStats, formatDuration } from './session_stats.js';
+import { TranscriptMessage } from './transcript_utils.js';
+
+function toolUse(name: string, input: Record<string, unknown>, timestamp: string): TranscriptMessage {
+  return {
+    type: 'assistant',
+    timestamp,
+    message: { role: 'assistant', content: [{ type: 'tool_use', name, input }] },
+  };
+}
+
+describe('computeSessionStats', () => {
+  it('counts prompts, tool calls, errors and touched files', () => {
+    const messages: TranscriptMessage[] = [
+      { type: 'user', timestamp: '2026-01-01T10:00:00.000Z', message: { role: 'user', content: 'Fix the parser' } },
+      toolUse('Read', { file_path: '/repo/src/parser.ts' }, '2026-01-01T10:00:05.000Z'),
+      toolUse('Read', { file_path: '/repo/README.md' }, '2026-01-01T10:00:06.000Z'),
+      toolUse('Edit', { file_path: '/repo/src/parser.ts' }, '2026-01-01T10:01:00.000Z'),
+      toolUse('Bash', { command: 'npm test' }, '2026-01-01T10:02:00.000Z'),
+      {
+        type: 'user',
+        timestamp: '2026-01-01T10:02:30.000Z',
+        message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: '1 failed', is_error: true }] },
+      },
+      { type: 'summary', summary: 'Parser work' },
+    ];
+
+    const stats = computeSessionStats(messages);
+
+    expect(stats.userPrompts).toBe(1);
+    expect(stats.toolCalls).toEqual({ Read: 2, Edit: 1, Bash: 1 });
+    expect(stats.toolErrors).toBe(1);
+    expect(stats.filesModified).toEqual(['/repo/src/parser.ts']);
+    expect(stats.filesRead).toEqual(['/repo/README.md']);
+    expect(stats.startedAt).toBe('2026-01-01T10:00:00.000Z');
+    expect(stats.durationMs).toBe(150 * 1000);
+  });
+
+  it('ignores subagent sidechain messages', () => {
+    const messages: TranscriptMessage[] = [
+      { type: 'user', message: { role: 'user', content: 'Review the parser' } },
+      toolUse('Task', { prompt: 'Read the parser' }, '2026-01-01T10:00:01.000Z'),
+      { type: 'user', isSidechain: true, message: { role: 'user', content: 'Read the parser' } },
+      { ...toolUse('Read', { file_path: '/repo/src/parser.ts' }, '2026-01-01T10:00:02.000Z'), isSidechain: true },
+    ];
+
+    const stats = computeSessionStats(messages);
+
+    expect(stats.userPrompts).toBe(1);
+    expect(stats.toolCalls).toEqual({ Task: 1 });
+    expect(stats.filesRead).toEqual([]);
+  });
+
+  it('leaves duration unknown without timestamps', () => {
+    const stats = computeSessionStats([{ type: 'user', content: 'hi' }]);
+    expect(stats.durationMs).toBeNull();
+    expect(stats.userPrompts).toBe(1);
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the two most significant units', () => {
+    expect(formatDuration(45 * 1000)).toBe('45s');
+    expect(formatDuration(12 * 60 * 1000 + 30 * 1000)).toBe('12m 30s');
+    expect(formatDuration(65 * 60 * 1000)).toBe('1h 5m');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Session Statistics
+ *
+ * Derives a short activity summary of a whole Claude Code session from its
+ * transcript: how long it ran, which files were read or changed, and how
+ * often each tool was called. Used by session_end.ts.
+ */
+
+import { extractAllContent, TranscriptMessage } from './transcript_utils.js';
+
+// Tools whose file_path (or notebook_path) input changes a file
+const MODIFYING_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+export interface SessionStats {
+  startedAt: string | null;
+  endedAt: string | null;
+  durationMs: number | null;
+  userPrompts: number;
+  toolCalls: Record<string, number>;
+  toolErrors: number;
+  filesRead: string[];
+  filesModified: string[];
+}
+
+/**
+ * Compute statistics for every message in a transcript
+ */
+export function computeSessionStats(messages: TranscriptMessage[]): SessionStats {
+  const toolCalls: Record<string, number> = {};
+  const filesRead = new Set<string>();
+  const filesModified = new Set<string>();
+  let userPrompts = 0;
+  let toolErrors = 0;
+  let first: number | null = null;
+  let last: number | null = null;
+
+  for (const msg of messages) {
+    const time = msg.timestamp ? Date.parse(msg.timestamp) : NaN;
+    if (!isNaN(time)) {
+      first = first === null ? time : Math.min(first, time);
+      last = last === null ? time : Math.max(last, time);
+    }
+
+    // Subagent threads are the Task tool's work, not the user's session
+    if ((msg.type !== 'user' && msg.type !== 'assistant') || msg.isSidechain) {
+      continue;
+    }
+
+    const extracted = extractAllContent(msg);
+    if (msg.type === 'user') {
+      if (extracted.text && extracted.toolResults.length === 0) {
+        userPrompts++;
+      }
+      toolErrors += extracted.toolResults.filter(r => r.isError).length;
+      continue;
+    }
+
+    for (const toolUse of extracted.toolUses) {
+      toolCalls[toolUse.name] = (toolCalls[toolUse.name] || 0) + 1;
+      const filePath = toolUse.input?.file_path || toolUse.input?.notebook_path;
+      if (typeof filePath !== 'string') continue;
+      if (MODIFYING_TOOLS.has(toolUse.name)) {
+        filesModified.add(filePath);
+      } else if (toolUse.name === 'Read') {
+        filesRead.add(filePath);
+      }
+    }
+  }
+
+  return {
+    startedAt: first === null ? null : new Date(first).toISOString(),
+    endedAt: last === null ? null : new Date(last).toISOString(),
+    durationMs: first === null || last === null ? null : last - first,
+    userPrompts,
+    toolCalls,
+    toolErrors,
+    // A file that was changed doesn't need to be listed as read too
+    filesRead: Array.from(filesRead).filter(f => !filesModified.has(f)).sort(),
+    filesModified: Array.from(filesModified).sort(),
+  };
+}
+
+/**
+ * Format a duration as e.g. "1h 5m", "12m 30s" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
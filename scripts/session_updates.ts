@@ -0,0 +1,175 @@
+/**
+ * Session Update Messages
+ *
+ * Turns the unsent slice of a Claude Code transcript into the XML message
+ * Sub receives: formatting, redaction and the <claude_code_session_update>
+ * envelope. Shared by the Stop, PreCompact and SessionEnd hooks.
+ *
+ * Updates over the token budget arrive as several chunks (see
+ * transcript_packer.ts); each chunk but the last is sent as a numbered part.
+ */
+
+import * as path from 'path';
+import { getImageUploadMode, IMAGE_UPLOAD_MAX_COUNT, ImageUpload, modelSupportsImages, toImageUpload } from './attachments.js';
+import { getDurableStateDir, LogFn, SyncState } from './conversation_utils.js';
+import { createRedactor, describeRedactions, redactEntries } from './redaction.js';
+import { loadSettings } from './settings.js';
+import { getTranscriptTokenBudget, packTranscript } from './transcript_packer.js';
+import { extractAllContent, formatMessagesForLetta, TranscriptCursor, TranscriptSlice } from './transcript_utils.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+const SESSION_UPDATE_INSTRUCTIONS = `You may provide commentary or guidance for Claude Code. Your response will be added to Claude's context window on the next prompt. Use this to:
+- Offer observations about the user's work
+- Provide reminders or context from your memory
+- Suggest approaches or flag potential issues
+- Send async messages/guidance to Claude Code
+
+Write your response as if speaking directly to Claude Code.`;
+
+const PARTIAL_UPDATE_INSTRUCTIONS = `This update was too large for one message and continues in the next one. Take in the transcript and update memory if needed, but keep your reply to a brief acknowledgement; save commentary for Claude Code for the final part.`;
+
+export interface UpdatePart {
+  number: number;
+  total: number;
+}
+
+/**
+ * Where the part of a session's transcript not yet handed to the outbox
+ * starts: the saved cursor, or the queued index when the state has no
+ * matching cursor (saved before cursors existed, or reset by the CLI)
+ */
+export function getUnsentPosition(state: SyncState): TranscriptCursor | number {
+  if (state.transcriptCursor && state.transcriptCursor.index === state.lastQueuedIndex) {
+    return state.transcriptCursor;
+  }
+  return Math.max(state.lastProcessedIndex, state.lastQueuedIndex ?? -1);
+}
+
+/**
+ * Index of the first message a position leaves out
+ */
+export function positionIndex(position: TranscriptCursor | number): number {
+  return typeof position === 'number' ? position : position.index;
+}
+
+/**
+ * Record in the state that a slice has been handed to the outbox
+ */
+export function markSliceQueued(state: SyncState, slice: TranscriptSlice): void {
+  if (slice.rescanned) {
+    // Indices saved before the file was rewritten no longer line up with it
+    state.lastProcessedIndex = Math.min(state.lastProcessedIndex, slice.start.index);
+  }
+  state.lastQueuedIndex = slice.end.index;
+  state.transcriptCursor = slice.end;
+}
+
+/**
+ * Format, redact and pack the messages of a transcript slice. Returns the
+ * XML transcript chunks in order, or null if there is nothing new to send.
+ */
+export function prepareTranscriptUpdate(
+  slice: TranscriptSlice,
+  log: LogFn = noopLog,
+  budgetTokens: number = getTranscriptTokenBudget(),
+): string[] | null {
+  const newMessages = formatMessagesForLetta(slice.messages, -1, log, undefined, slice.start);
+  if (newMessages.length === 0) {
+    return null;
+  }
+
+  // Scrub secrets and personal data before anything leaves the machine
+  const redactor = createRedactor(loadSettings(log).redaction, log);
+  const { entries: safeMessages, summary } = redactEntries(newMessages, redactor);
+  log(`Redaction: ${describeRedactions(summary)}`);
+
+  return packTranscript(safeMessages, budgetTokens, log).chunks;
+}
+
+/**
+ * Images in a slice to send with its update as multimodal content, in
+ * transcript order. Empty unless LETTA_IMAGE_UPLOAD=on and the agent's model
+ * is known to accept images.
+ */
+export function collectImageUploads(
+  slice: TranscriptSlice,
+  modelHandle: string | null,
+  log: LogFn = noopLog,
+): ImageUpload[] {
+  if (getImageUploadMode() !== 'on') {
+    return [];
+  }
+  if (!modelSupportsImages(modelHandle)) {
+    log(`Not uploading images: model ${modelHandle || '(unknown)'} is not known to accept them`);
+    return [];
+  }
+
+  const uploads = slice.messages
+    .flatMap(msg => {
+      const extracted = extractAllContent(msg);
+      return [...extracted.attachments, ...extracted.toolResults.flatMap(r => r.attachments)];
+    })
+    .map(toImageUpload)
+    .filter((upload): upload is ImageUpload => upload !== null);
+  if (uploads.length > IMAGE_UPLOAD_MAX_COUNT) {
+    log(`Uploading the first ${IMAGE_UPLOAD_MAX_COUNT} of ${uploads.length} images`);
+  }
+  return uploads.slice(0, IMAGE_UPLOAD_MAX_COUNT);
+}
+
+/**
+ * Wrap a transcript in the session update envelope. Parts before the last
+ * ask Sub to hold its commentary until the update is complete.
+ */
+export function formatSessionUpdateMessage(sessionId: string, transcript: string, part?: UpdatePart): string {
+  const partial = part !== undefined && part.number < part.total;
+  const partLine = part ? `<part number="${part.number}" of="${part.total}"/>\n` : '';
+  return `<claude_code_session_update>
+<session_id>${sessionId}</session_id>
+${partLine}
+<transcript>
+${transcript}
+</transcript>
+
+<instructions>
+${partial ? PARTIAL_UPDATE_INSTRUCTIONS : SESSION_UPDATE_INSTRUCTIONS}
+</instructions>
+</claude_code_session_update>`;
+}
+
+/**
+ * Build one session update message per transcript chunk, numbering them
+ * when there is more than one
+ */
+export function formatSessionUpdateParts(sessionId: string, chunks: string[]): string[] {
+  if (chunks.length === 1) {
+    return [formatSessionUpdateMessage(sessionId, chunks[0])];
+  }
+  return chunks.map((chunk, i) => formatSessionUpdateMessage(sessionId, chunk, { number: i + 1, total: chunks.length }));
+}
+
+/**
+ * Split packed chunks for a message that wraps the transcript in its own
+ * envelope (PreCompact, SessionEnd): all but the last chunk are sent ahead
+ * as numbered session updates, the last goes in the wrapping message.
+ */
+export function splitFinalChunk(
+  sessionId: string,
+  chunks: string[] | null,
+): { leading: string[]; final: string | null } {
+  if (!chunks) {
+    return { leading: [], final: null };
+  }
+  const leading = chunks.slice(0, -1)
+    .map((chunk, i) => formatSessionUpdateMessage(sessionId, chunk, { number: i + 1, total: chunks.length }));
+  return { leading, final: chunks[chunks.length - 1] };
+}
+
+/**
+ * Get the file where Sub's pre-compaction notes wait for SessionStart
+ */
+export function getCompactNotesFile(cwd: string, sessionId: string): string {
+  return path.join(getDurableStateDir(cwd), `compact-notes-${sessionId}.md`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Plugin Settings
+ *
+ * Optional user settings that don't fit in an environment variable
+ * (rule lists, per-label tables). Loaded from:
+ *   1. LETTA_SETTINGS_FILE, if set
+ *   2. ~/.letta/claude-subconscious/settings.json
+ *
+ * A missing or unreadable file means "all defaults".
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { expandPath, LogFn } from './conversation_utils.js';
+
+const DEFAULT_SETTINGS_FILE = path.join(process.env.HOME || '~', '.letta', 'claude-subconscious', 'settings.json');
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+export interface RedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  replacement?: string;
+}
+
+export interface RedactionSettings {
+  enabled?: boolean;
+  /** Toggle built-in detectors by name, e.g. { "email": false } */
+  detectors?: { [name: string]: boolean };
+  /** Extra user-defined regex rules */
+  rules?: RedactionRule[];
+  /** Literal values that are never redacted */
+  allow?: string[];
+}
+
+export interface ToolFormatterSettings {
+  /** False to leave the tool out of transcripts */
+  send?: boolean;
+  /** Input summary template, e.g. "{owner}/{repo}#{pull_number}" */
+  summary?: string;
+  /** Characters of the tool's result to keep */
+  resultMaxChars?: number;
+  /** Lines of Edit/MultiEdit/Write diff to keep; 0 for none */
+  diffMaxLines?: number;
+}
+
+export interface BlockSettings {
+  /** When the block is shown to Claude in full mode (see block_policy.ts) */
+  inject?: 'never' | 'first-prompt' | 'diffs' | 'always';
+}
+
+export interface PluginSettings {
+  redaction?: RedactionSettings;
+  /** Per-tool transcript formatting, keyed by tool name or `*` pattern */
+  tools?: { [toolName: string]: ToolFormatterSettings };
+  /** Per-block injection, keyed by block label */
+  blocks?: { [label: string]: BlockSettings };
+}
+
+/**
+ * Get settings file path
+ */
+export function getSettingsPath(): string {
+  const override = process.env.LETTA_SETTINGS_FILE;
+  return override ? expandPath(override) : DEFAULT_SETTINGS_FILE;
+}
+
+/**
+ * Load plugin settings
+ */
+export function loadSettings(log: LogFn = noopLog): PluginSettings {
+  const settingsPath = getSettingsPath();
+  if (!fs.existsSync(settingsPath)) {
+    return {};
+  }
+
+  try {
+    const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+    if (settings && typeof settings === 'object' && !Array.isArray(settings)) {
+      return settings;
+    }
+    log(`Ignoring settings file ${settingsPath}: expected a JSON object`);
+  } catch (e) {
+    log(`Failed to load settings from ${settingsPath}: ${e}`);
+  }
+  return {};
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for state_migrations.ts
+ *
+ * Covers upgrading unversioned state files, rewriting them once on load,
+ * and leaving files from newer versions alone.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  getConversationsFile,
+  getSyncStateFile,
+  loadConversationsMap,
+  loadSyncState,
+  lookupConversation,
+} from './conversation_utils.js';
+import {
+  CONVERSATIONS_MAP_VERSION,
+  migrateConfig,
+  migrateConversationsMap,
+  migrateSyncState,
+  SYNC_STATE_VERSION,
+} from './state_migrations.js';
+
+let cwd: string;
+
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+function readJson(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+describe('state migrations', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-test-'));
+    delete process.env.LETTA_HOME;
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('upgrades legacy conversation map entries', () => {
+    const { value, migrated, fromVersion } = migrateConversationsMap({
+      'session-1': 'conv-1',
+      'session-2': { conversationId: 'conv-2', agentId: 'agent-1' },
+      'session-3': 42,
+    });
+
+    expect(migrated).toBe(true);
+    expect(fromVersion).toBe(0);
+    expect(value).toEqual({
+      version: CONVERSATIONS_MAP_VERSION,
+      sessions: {
+        'session-1': { conversationId: 'conv-1', agentId: null },
+        'session-2': { conversationId: 'conv-2', agentId: 'agent-1' },
+      },
+    });
+  });
+
+  it('versions sync state and config without changing their fields', () => {
+    expect(migrateSyncState({ sessionId: 's', lastProcessedIndex: 3 }).value)
+      .toEqual({ version: SYNC_STATE_VERSION, sessionId: 's', lastProcessedIndex: 3 });
+    expect(migrateSyncState({ sessionId: 's' }).value.lastProcessedIndex).toBe(-1);
+    expect(migrateConfig({ agentId: 'agent-1' }).value).toEqual({ version: 1, agentId: 'agent-1' });
+    expect(migrateConfig({ version: 1, agentId: 'agent-1' }).migrated).toBe(false);
+    expect(() => migrateConfig([])).toThrow('Invalid config');
+  });
+
+  it('rewrites old files once when they are loaded', () => {
+    writeJson(getConversationsFile(cwd), { 'session-1': 'conv-1' });
+    writeJson(getSyncStateFile(cwd, 'session-1'), { sessionId: 'session-1', lastProcessedIndex: 5 });
+
+    expect(lookupConversation(cwd, 'session-1')).toBe('conv-1');
+    expect(readJson(getConversationsFile(cwd))).toEqual({
+      version: CONVERSATIONS_MAP_VERSION,
+      sessions: { 'session-1': { conversationId: 'conv-1', agentId: null } },
+    });
+
+    expect(loadSyncState(cwd, 'session-1').lastProcessedIndex).toBe(5);
+    expect(readJson(getSyncStateFile(cwd, 'session-1')).version).toBe(SYNC_STATE_VERSION);
+  });
+
+  it('does not migrate files from a newer version', () => {
+    const future = { version: CONVERSATIONS_MAP_VERSION + 1, sessions: {}, extra: true };
+    writeJson(getConversationsFile(cwd), future);
+
+    const map = loadConversationsMap(cwd);
+    expect(map.version).toBe(CONVERSATIONS_MAP_VERSION + 1);
+    expect(readJson(getConversationsFile(cwd))).toEqual(future);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * State File Migrations
+ *
+ * Every JSON state file carries a `version`. Loaders pass what they read
+ * through the migrate functions here, which upgrade older shapes one version
+ * at a time; the loader then rewrites the file, so an old file is migrated
+ * once instead of every caller branching on its shape.
+ *
+ * Sync state (.letta/claude/session-{id}.json)
+ *   v0  Unversioned
+ *   v1  Adds `version`
+ *
+ * Conversations map (.letta/claude/conversations.json)
+ *   v0  Flat { [sessionId]: conversationId | { conversationId, agentId } }
+ *   v1  { version, sessions: { [sessionId]: { conversationId, agentId } } };
+ *       bare conversation IDs from v0 get agentId null
+ *
+ * Config (~/.letta/claude-subconscious/config.json)
+ *   v0  Unversioned
+ *   v1  Adds `version`
+ *
+ * Files written by a newer version are used as-is rather than migrated.
+ */
+
+import { Config } from './agent_config.js';
+import { ConversationEntry, ConversationsMap, SyncState } from './conversation_utils.js';
+
+export const SYNC_STATE_VERSION = 1;
+export const CONVERSATIONS_MAP_VERSION = 1;
+export const CONFIG_VERSION = 1;
+
+type RawState = Record<string, unknown>;
+
+// steps[n] upgrades a version n file to version n + 1
+type MigrationSteps = Array<(raw: RawState) => RawState>;
+
+export interface MigrationResult<T> {
+  value: T;
+  /** Whether the file was older and should be rewritten */
+  migrated: boolean;
+  fromVersion: number;
+}
+
+const SYNC_STATE_STEPS: MigrationSteps = [
+  (raw) => ({
+    ...raw,
+    lastProcessedIndex: typeof raw.lastProcessedIndex === 'number' ? raw.lastProcessedIndex : -1,
+  }),
+];
+
+const CONVERSATIONS_MAP_STEPS: MigrationSteps = [
+  (raw) => {
+    const sessions: Record<string, ConversationEntry> = {};
+    for (const [sessionId, value] of Object.entries(raw)) {
+      const entry = normalizeConversationEntry(value);
+      if (entry) {
+        sessions[sessionId] = entry;
+      }
+    }
+    return { sessions };
+  },
+];
+
+const CONFIG_STEPS: MigrationSteps = [
+  (raw) => raw,
+];
+
+function migrate<T>(raw: unknown, steps: MigrationSteps, currentVersion: number, kind: string): MigrationResult<T> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid ${kind}: expected a JSON object`);
+  }
+
+  let value = raw as RawState;
+  const fromVersion = typeof value.version === 'number' ? value.version : 0;
+  for (let version = fromVersion; version < currentVersion; version++) {
+    value = { ...steps[version](value), version: version + 1 };
+  }
+  return { value: value as T, migrated: fromVersion < currentVersion, fromVersion };
+}
+
+/**
+ * Accept a conversation mapping in either the legacy (bare conversation ID)
+ * or current form. Returns null for anything else.
+ */
+export function normalizeConversationEntry(value: unknown): ConversationEntry | null {
+  if (typeof value === 'string') {
+    return { conversationId: value, agentId: null };
+  }
+  if (value && typeof value === 'object' && typeof (value as ConversationEntry).conversationId === 'string') {
+    const { conversationId, agentId } = value as ConversationEntry;
+    return { conversationId, agentId: typeof agentId === 'string' ? agentId : null };
+  }
+  return null;
+}
+
+/**
+ * Upgrade a parsed session-{id}.json to the current version
+ */
+export function migrateSyncState(raw: unknown): MigrationResult<SyncState> {
+  return migrate<SyncState>(raw, SYNC_STATE_STEPS, SYNC_STATE_VERSION, 'sync state');
+}
+
+/**
+ * Upgrade a parsed conversations.json to the current version
+ */
+export function migrateConversationsMap(raw: unknown): MigrationResult<ConversationsMap> {
+  return migrate<ConversationsMap>(raw, CONVERSATIONS_MAP_STEPS, CONVERSATIONS_MAP_VERSION, 'conversations map');
+}
+
+/**
+ * Upgrade a parsed config.json to the current version
+ */
+export function migrateConfig(raw: unknown): MigrationResult<Config> {
+  return migrate<Config>(raw, CONFIG_STEPS, CONFIG_VERSION, 'config');
+}
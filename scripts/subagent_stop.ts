@@ -0,0 +1,113 @@
+#!/usr/bin/env npx tsx
+/**
+ * SubagentStop Hook Script
+ *
+ * Records where Claude Code saved a finished subagent's transcript, so the
+ * Stop, PreCompact and SessionEnd hooks can send the subagent's work to Sub
+ * as a summarised thread under the Task call that started it. Recent Claude
+ * Code versions keep subagent transcripts in their own files rather than as
+ * sidechain lines in the session transcript, and only this hook is told
+ * where they are. Nothing is sent from here.
+ *
+ * Hook Input (via stdin):
+ *   - session_id, transcript_path, cwd
+ *   - agent_id, agent_transcript_path (recent Claude Code versions)
+ *
+ * Exit Codes:
+ *   0 - Always (never blocks Claude Code)
+ *
+ * Log file: $TMPDIR/letta-claude-sync-$UID/subagent_stop.log
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getMode, getTempStateDir, loadSyncState, saveSyncState } from './conversation_utils.js';
+import { withSessionLock } from './session_lock.js';
+
+// Configuration
+const TEMP_STATE_DIR = getTempStateDir();
+const LOG_FILE = path.join(TEMP_STATE_DIR, 'subagent_stop.log');
+
+interface HookInput {
+  session_id: string;
+  transcript_path?: string;
+  cwd: string;
+  hook_event_name?: string;
+  agent_id?: string;
+  agent_transcript_path?: string;
+}
+
+/**
+ * Log message to file
+ */
+function log(message: string): void {
+  if (!fs.existsSync(TEMP_STATE_DIR)) {
+    fs.mkdirSync(TEMP_STATE_DIR, { recursive: true });
+  }
+  const timestamp = new Date().toISOString();
+  fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
+}
+
+/**
+ * Read hook input from stdin
+ */
+async function readHookInput(): Promise<HookInput> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('readable', () => {
+      let chunk;
+      while ((chunk = process.stdin.read()) !== null) {
+        data += chunk;
+      }
+    });
+    process.stdin.on('end', () => {
+      try {
+        resolve(JSON.parse(data));
+      } catch (e) {
+        reject(new Error(`Failed to parse hook input: ${e}`));
+      }
+    });
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  if (getMode() === 'off') {
+    process.exit(0);
+  }
+
+  try {
+    const hookInput = await readHookInput();
+    const { cwd, session_id: sessionId, agent_transcript_path: agentTranscript } = hookInput;
+    if (!cwd || !sessionId) {
+      process.exit(0);
+    }
+
+    // Older Claude Code versions write sidechains into the session
+    // transcript, where readTranscript finds them without help
+    if (!agentTranscript) {
+      log(`Subagent ${hookInput.agent_id || '(unknown)'} stopped in session ${sessionId}, no separate transcript`);
+      process.exit(0);
+    }
+
+    await withSessionLock(cwd, sessionId, () => {
+      const state = loadSyncState(cwd, sessionId, log);
+      const known = state.subagentTranscripts ?? [];
+      if (!known.includes(agentTranscript)) {
+        state.subagentTranscripts = [...known, agentTranscript];
+        saveSyncState(cwd, state, log);
+      }
+    }, { log });
+    log(`Recorded subagent ${hookInput.agent_id || '(unknown)'} transcript for session ${sessionId}: ${agentTranscript}`);
+
+  } catch (error) {
+    log(`ERROR: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  process.exit(0);
+}
+
+main();
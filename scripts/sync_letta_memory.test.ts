@@ -0,0 +1,151 @@
+/**
+ * Tests for sync_letta_memory.ts
+ *
+ * Drives the UserPromptSubmit hook logic end-to-end against the fake Letta
+ * server.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAgent, FakeConversation, FakeLettaServer } from './fake_letta_server.js';
+import { setLettaTransport, setRequestPolicy } from './letta_client.js';
+import { loadSyncState, saveSyncState } from './conversation_utils.js';
+import { syncMemory } from './sync_letta_memory.js';
+
+let cwd: string;
+let server: FakeLettaServer;
+let agent: FakeAgent;
+let conversation: FakeConversation;
+
+describe('sync_letta_memory', () => {
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-test-'));
+    server = new FakeLettaServer();
+    agent = server.addAgent({
+      blocks: [
+        { label: 'user_preferences', value: 'Prefers small commits', description: 'What the user likes' },
+        { label: 'guidance', value: '' },
+      ],
+    });
+    conversation = server.addConversation(agent.id);
+    saveSyncState(cwd, { sessionId: 's1', conversationId: conversation.id, lastProcessedIndex: -1 });
+    setLettaTransport(server.fetch);
+    setRequestPolicy({ retryBaseDelayMs: 0 });
+    // Keep circuit breaker state out of the real temp dir
+    vi.stubEnv('TMPDIR', cwd);
+    vi.stubEnv('LETTA_AGENT_ID', agent.id);
+    vi.stubEnv('LETTA_HOME', '');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setLettaTransport(null);
+    setRequestPolicy(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('injects all blocks on the first prompt in full mode', async () => {
+    const output = await syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+
+    expect(output).toContain('<letta_memory_blocks>');
+    expect(output).toContain('Prefers small commits');
+    expect(loadSyncState(cwd, 's1').lastBlockValues).toEqual({
+      user_preferences: 'Prefers small commits',
+      guidance: '',
+    });
+  });
+
+  it('injects only the blocks relevant to the prompt when over budget', async () => {
+    vi.stubEnv('LETTA_MEMORY_TOKENS', '10');
+    agent.blocks[1].value = 'Run the migration tests before pushing';
+
+    const output = await syncMemory('test-key', 'full', { session_id: 's1', cwd, prompt: 'add a migration' }, cwd);
+
+    expect(output).toContain('Run the migration tests');
+    expect(output).not.toContain('Prefers small commits');
+    expect(output).toContain('<omitted_memory_blocks>');
+    expect(output).toContain('user_preferences: What the user likes');
+  });
+
+  it('leaves blocks to the first prompt when run at SessionStart', async () => {
+    vi.stubEnv('LETTA_MEMORY_TOKENS', '10');
+    agent.blocks[1].value = 'Run the migration tests before pushing';
+    server.addAssistantMessage(conversation.id, 'Welcome back');
+
+    const start = await syncMemory('test-key', 'full', { session_id: 's1', cwd, hook_event_name: 'SessionStart' }, cwd);
+    expect(start).toContain('Welcome back');
+    expect(start).not.toContain('<letta_memory_blocks>');
+    expect(loadSyncState(cwd, 's1').lastBlockValues).toBeUndefined();
+
+    const output = await syncMemory('test-key', 'full', { session_id: 's1', cwd, hook_event_name: 'UserPromptSubmit', prompt: 'add a migration' }, cwd);
+    expect(output).toContain('<letta_memory_blocks>');
+    expect(output).toContain('Run the migration tests');
+    expect(output).not.toContain('Prefers small commits');
+    expect(output).not.toContain('Welcome back');
+  });
+
+  it('keeps state other hooks save while it is fetching', async () => {
+    server.delay(/^\/conversations\/[^/]+\/messages$/, 50, { method: 'GET' });
+
+    const pending = syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    // The outbox worker delivers a slice meanwhile
+    saveSyncState(cwd, { ...loadSyncState(cwd, 's1'), lastProcessedIndex: 12 });
+    await pending;
+
+    expect(loadSyncState(cwd, 's1')).toMatchObject({
+      lastProcessedIndex: 12,
+      lastBlockValues: { user_preferences: 'Prefers small commits', guidance: '' },
+    });
+  });
+
+  it('only injects messages in whisper mode, once each', async () => {
+    server.addAssistantMessage(conversation.id, 'Remember the migration');
+
+    const first = await syncMemory('test-key', 'whisper', { session_id: 's1', cwd }, cwd);
+    expect(first).toContain('Remember the migration');
+    expect(first).toContain('<instruction>');
+    expect(first).not.toContain('<letta_memory_blocks>');
+
+    const second = await syncMemory('test-key', 'whisper', { session_id: 's1', cwd }, cwd);
+    expect(second).not.toContain('Remember the migration');
+  });
+
+  it('shows block diffs on later prompts in full mode', async () => {
+    const steps = ['Run the linter', 'Run the unit tests', 'Open a draft PR', 'Ask for review'];
+    agent.blocks[1].value = steps.join('\n');
+    await syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+    agent.blocks[1].value = [...steps.slice(0, 3), 'Check the CI logs', steps[3]].join('\n');
+
+    const output = await syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+
+    expect(output).toContain('<letta_memory_update>');
+    expect(output).toContain('<guidance status="modified">\n  Open a draft PR\n+ Check the CI logs\n  Ask for review\n</guidance>');
+    expect(output).not.toContain('<letta_memory_blocks>');
+  });
+
+  it('follows the block injection policy from the settings file', async () => {
+    const settingsPath = path.join(cwd, 'settings.json');
+    fs.writeFileSync(settingsPath, JSON.stringify({
+      blocks: { user_preferences: { inject: 'never' }, guidance: { inject: 'diffs' } },
+    }));
+    vi.stubEnv('LETTA_SETTINGS_FILE', settingsPath);
+    agent.blocks.push({ label: 'core_directives', value: 'Watch for repeated mistakes' });
+    agent.blocks[1].value = 'Run the linter';
+
+    const first = await syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+    expect(first).toContain('Watch for repeated mistakes');
+    expect(first).not.toContain('Prefers small commits');
+    expect(first).not.toContain('Run the linter');
+
+    agent.blocks[0].value = 'Prefers squashed commits';
+    agent.blocks[1].value = 'Run the linter and tests';
+    const second = await syncMemory('test-key', 'full', { session_id: 's1', cwd }, cwd);
+    expect(second).toContain('Run the linter and tests');
+    expect(second).not.toContain('squashed');
+  });
+});
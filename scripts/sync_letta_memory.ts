@@ -12,7 +12,7 @@
  *   LETTA_DEBUG - Set to "1" to enable debug logging to stderr
  * 
  * Exit Codes:
- *   0 - Success
+ *   0 - Success, or Letta unavailable (nothing injected)
  *   1 - Non-blocking error (logged to stderr)
  *   2 - Blocking error (prevents prompt processing)
  */
@@ -21,7 +21,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import { getAgentId } from './agent_config.js';
-import { buildLettaApiUrl } from './letta_api_url.js';
+import { formatBlockChange } from './block_diff.js';
+import { BlockPolicy, loadBlockPolicy } from './block_policy.js';
+import { selectRelevantBlocks } from './block_relevance.js';
+import { fetchAgentCached } from './letta_cache.js';
+import { createLettaClient, isLettaUnavailable, setHookTimeBudget } from './letta_client.js';
+import { fetchNewMessages, MessageInfo } from './message_sync.js';
+import { withSessionLock } from './session_lock.js';
+import { readRecentToolFiles } from './transcript_utils.js';
 import {
   loadSyncState,
   saveSyncState,
@@ -30,16 +37,20 @@ import {
   SyncState,
   Agent,
   MemoryBlock,
-  fetchAgent,
-  escapeXmlContent,
   formatAllBlocksForStdout,
   cleanLettaFromClaudeMd,
   getMode,
   getTempStateDir,
+  isMainModule,
+  LettaMode,
 } from './conversation_utils.js';
 
 // Configuration
 const DEBUG = process.env.LETTA_DEBUG === '1';
+// Keep in sync with the UserPromptSubmit/SessionStart timeouts in hooks.json
+const HOOK_TIMEOUT_MS = 10000;
+// Leave time to finish before the hook is killed
+const LOCK_TIMEOUT_MS = 3000;
 
 function debug(...args: unknown[]): void {
   if (DEBUG) {
@@ -47,23 +58,10 @@ function debug(...args: unknown[]): void {
   }
 }
 
-interface LettaMessage {
-  id: string;
-  message_type: string;
-  content?: string;
-  text?: string;
-  date?: string;
-}
-
-interface MessageInfo {
-  id: string;
-  text: string;
-  date: string | null;
-}
-
-interface HookInput {
+export interface HookInput {
   session_id: string;
   cwd: string;
+  hook_event_name?: string;  // "SessionStart" or "UserPromptSubmit"
   prompt?: string;  // User's prompt text (available on UserPromptSubmit)
   transcript_path?: string;  // Path to transcript JSONL
 }
@@ -122,147 +120,27 @@ function detectChangedBlocks(
 }
 
 /**
- * Compute a simple line-based diff between two strings
- */
-function computeDiff(oldValue: string, newValue: string): { added: string[], removed: string[] } {
-  const oldLines = oldValue.split('\n').map(l => l.trim()).filter(l => l);
-  const newLines = newValue.split('\n').map(l => l.trim()).filter(l => l);
-  
-  const oldSet = new Set(oldLines);
-  const newSet = new Set(newLines);
-  
-  const added = newLines.filter(line => !oldSet.has(line));
-  const removed = oldLines.filter(line => !newSet.has(line));
-  
-  return { added, removed };
-}
-
-/**
- * Format changed blocks for stdout injection with diffs
+ * Format changed blocks for stdout injection with diffs, skipping blocks
+ * whose changes the injection policy doesn't show
  */
 function formatChangedBlocksForStdout(
   changedBlocks: MemoryBlock[],
-  lastBlockValues: { [label: string]: string } | null
+  lastBlockValues: { [label: string]: string } | null,
+  policy: BlockPolicy
 ): string {
-  if (changedBlocks.length === 0) {
+  const shown = changedBlocks.filter(block => policy.onChange(block.label));
+  if (shown.length === 0) {
     return '';
   }
   
-  const formatted = changedBlocks.map(block => {
-    const previousValue = lastBlockValues?.[block.label];
-    
-    // New block - show full content
-    if (previousValue === undefined) {
-      const escapedContent = escapeXmlContent(block.value || '');
-      return `<${block.label} status="new">\n${escapedContent}\n</${block.label}>`;
-    }
-    
-    // Existing block - show diff
-    const diff = computeDiff(previousValue, block.value || '');
-    
-    if (diff.added.length === 0 && diff.removed.length === 0) {
-      // Whitespace-only change, show full content
-      const escapedContent = escapeXmlContent(block.value || '');
-      return `<${block.label} status="modified">\n${escapedContent}\n</${block.label}>`;
-    }
-    
-    const diffLines: string[] = [];
-    for (const line of diff.removed) {
-      diffLines.push(`- ${escapeXmlContent(line)}`);
-    }
-    for (const line of diff.added) {
-      diffLines.push(`+ ${escapeXmlContent(line)}`);
-    }
-    
-    return `<${block.label} status="modified">\n${diffLines.join('\n')}\n</${block.label}>`;
-  }).join('\n');
+  const formatted = shown.map(block => formatBlockChange(block, lastBlockValues?.[block.label])).join('\n');
   
   return `<letta_memory_update>
-<!-- Memory blocks updated since last prompt (showing diff) -->
+<!-- Memory blocks updated since last prompt (showing diff: - removed, + added, ~ [-old-]{+new+} words) -->
 ${formatted}
 </letta_memory_update>`;
 }
 
-/**
- * Fetch all assistant messages from the conversation history since last seen
- */
-async function fetchAssistantMessages(
-  apiKey: string, 
-  conversationId: string | null,
-  lastSeenMessageId: string | null
-): Promise<{ messages: MessageInfo[], lastMessageId: string | null }> {
-  if (!conversationId) {
-    // No conversation yet, return empty
-    return { messages: [], lastMessageId: null };
-  }
-
-  // Use a high limit because Letta returns multiple entries per logical message
-  // (hidden_reasoning + assistant_message pairs), so limit=50 may not reach newest messages
-  const url = buildLettaApiUrl(`/conversations/${conversationId}/messages`, {
-    limit: 300,
-  });
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    // Don't fail if we can't fetch messages, just return empty
-    return { messages: [], lastMessageId: lastSeenMessageId };
-  }
-
-  const allMessages: LettaMessage[] = await response.json();
-
-  // Filter to assistant messages only, then sort by date descending (newest first)
-  // The API does NOT guarantee newest-first ordering — newer messages can appear at the end
-  const assistantMessages = allMessages
-    .filter(msg => msg.message_type === 'assistant_message')
-    .sort((a, b) => {
-      const da = a.date ? new Date(a.date).getTime() : 0;
-      const db = b.date ? new Date(b.date).getTime() : 0;
-      return db - da; // newest first
-    });
-
-  // Find the index of the last seen message
-  // Since messages are newest-first, new messages are BEFORE lastSeenIndex (indices 0 to lastSeenIndex-1)
-  let endIndex = assistantMessages.length; // Default: return all messages
-  if (lastSeenMessageId) {
-    const lastSeenIndex = assistantMessages.findIndex(msg => msg.id === lastSeenMessageId);
-    if (lastSeenIndex !== -1) {
-      // Only return messages newer than the last seen one (before it in the array)
-      endIndex = lastSeenIndex;
-    }
-  }
-  debug(`endIndex=${endIndex}, will return messages from index 0 to ${endIndex - 1}`);
-
-  // Get new messages (from 0 to endIndex, which are the newest messages)
-  const newMessages: MessageInfo[] = [];
-  for (let i = 0; i < endIndex; i++) {
-    const msg = assistantMessages[i];
-    const text = msg.content || msg.text;
-    if (text && typeof text === 'string') {
-      newMessages.push({
-        id: msg.id,
-        text,
-        date: msg.date || null,
-      });
-    }
-  }
-  debug(`Returning ${newMessages.length} new messages`);
-
-  // Get the last message ID for tracking (the NEWEST message, which is first in the array)
-  const lastMessageId = assistantMessages.length > 0
-    ? assistantMessages[0].id
-    : lastSeenMessageId;
-  debug(`Setting lastMessageId=${lastMessageId}`);
-
-  return { messages: newMessages, lastMessageId };
-}
-
 /**
  * Format assistant messages for stdout injection
  */
@@ -285,6 +163,112 @@ ${msg.text}
   return formattedMessages.join('\n\n');
 }
 
+/**
+ * Fetch memory and new messages from Sub and build the text injected
+ * before the user's prompt. Saves sync state for the session.
+ */
+export async function syncMemory(
+  apiKey: string,
+  mode: LettaMode,
+  hookInput: HookInput | null,
+  projectDir: string,
+): Promise<string> {
+  // Get agent ID (from env, saved config, or auto-import)
+  const agentId = await getAgentId(apiKey);
+  const cwd = hookInput?.cwd || projectDir;
+  const sessionId = hookInput?.session_id;
+
+  // Load state using shared utility
+  let state: SyncState | null = null;
+  if (sessionId) {
+    state = loadSyncState(cwd, sessionId);
+  }
+  
+  // Recover conversationId from conversations.json if state doesn't have it
+  let conversationId = state?.conversationId || null;
+  if (!conversationId && sessionId) {
+    conversationId = lookupConversation(cwd, sessionId);
+  }
+  const lastBlockValues = state?.lastBlockValues || null;
+  const lastSeenMessageId = state?.lastSeenMessageId || null;
+
+  // Fetch agent data and messages in parallel. Always revalidate (cheap
+  // with an ETag); this refreshes the cache for PreToolUse.
+  const client = createLettaClient(apiKey);
+  const [agent, messagesResult] = await Promise.all([
+    fetchAgentCached(client, agentId, 0, debug),
+    fetchNewMessages(client, conversationId, lastSeenMessageId, 0, debug),
+  ]);
+  
+  const { messages: newMessages, lastMessageId } = messagesResult;
+
+  // Detect which blocks have changed since last sync
+  const changedBlocks = detectChangedBlocks(agent.blocks || [], lastBlockValues);
+  
+  // Clean up any existing <letta> section from CLAUDE.md (legacy migration)
+  cleanLettaFromClaudeMd(cwd);
+  
+  // The SessionStart run has no prompt to rank blocks against, so a new
+  // session's blocks wait for the first prompt
+  const deferBlocks = mode === 'full' && !lastBlockValues && hookInput?.hook_event_name === 'SessionStart';
+
+  const outputs: string[] = [];
+  
+  if (mode === 'full' && !deferBlocks) {
+    // Full mode: inject memory blocks + messages
+    const isFirstPrompt = !lastBlockValues;
+    const policy = loadBlockPolicy(debug);
+    
+    if (isFirstPrompt) {
+      // Only the sections relevant to the prompt and the files in use, from
+      // the blocks the policy shows so the budget isn't spent on the rest
+      const blocks = (agent.blocks || []).filter(block => policy.onFirstPrompt(block.label));
+      const selection = selectRelevantBlocks(blocks, {
+        prompt: hookInput?.prompt,
+        files: hookInput?.transcript_path ? readRecentToolFiles(hookInput.transcript_path) : [],
+      });
+      debug(`Injecting ${selection.blocks.length} blocks (${selection.partial.length} cut down), omitting ${selection.omitted.length}`);
+      outputs.push(formatAllBlocksForStdout({ ...agent, blocks: selection.blocks }, conversationId, selection, policy));
+    } else {
+      const changedBlocksOutput = formatChangedBlocksForStdout(changedBlocks, lastBlockValues, policy);
+      if (changedBlocksOutput) {
+        outputs.push(changedBlocksOutput);
+      }
+    }
+  }
+  
+  // Both modes: inject messages from Sub
+  const messageOutput = formatMessagesForStdout(agent, newMessages);
+  outputs.push(messageOutput);
+  
+  // Add instruction to acknowledge messages if there are any
+  if (newMessages.length > 0) {
+    const agentName = agent.name || 'Subconscious';
+    outputs.push(`<instruction>Your Subconscious (${agentName}) sent you a message above. Briefly acknowledge what ${agentName} said - just a short note like "Sub notes: [key point]" so the user knows.</instruction>`);
+  }
+  
+  // Save block values and the last message seen. Re-read under the lock:
+  // the Stop hook and outbox worker may have updated other fields while
+  // this hook was fetching.
+  if (sessionId) {
+    await withSessionLock(cwd, sessionId, () => {
+      const current = loadSyncState(cwd, sessionId);
+      if (!deferBlocks) {
+        current.lastBlockValues = {};
+        for (const block of agent.blocks || []) {
+          current.lastBlockValues[block.label] = block.value;
+        }
+      }
+      if (lastMessageId) {
+        current.lastSeenMessageId = lastMessageId;
+      }
+      saveSyncState(cwd, current);
+    }, { timeoutMs: LOCK_TIMEOUT_MS, log: debug });
+  }
+
+  return outputs.join('\n\n');
+}
+
 /**
  * Main function
  */
@@ -305,95 +289,23 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  setHookTimeBudget(HOOK_TIMEOUT_MS);
+
   try {
-    // Get agent ID (from env, saved config, or auto-import)
-    const agentId = await getAgentId(apiKey);
     // Read hook input to get session ID for conversation lookup
     const hookInput = await readHookInput();
-    const cwd = hookInput?.cwd || projectDir;
-    const sessionId = hookInput?.session_id;
-    
-    // Load state using shared utility
-    let state: SyncState | null = null;
-    if (sessionId) {
-      state = loadSyncState(cwd, sessionId);
-    }
-    
-    // Recover conversationId from conversations.json if state doesn't have it
-    let conversationId = state?.conversationId || null;
-    if (!conversationId && sessionId) {
-      conversationId = lookupConversation(cwd, sessionId);
-      // Update state so we don't have to look it up again
-      if (conversationId && state) {
-        state.conversationId = conversationId;
-      }
-    }
-    const lastBlockValues = state?.lastBlockValues || null;
-    const lastSeenMessageId = state?.lastSeenMessageId || null;
 
-    // Fetch agent data and messages in parallel
-    const [agent, messagesResult] = await Promise.all([
-      fetchAgent(apiKey, agentId),
-      fetchAssistantMessages(apiKey, conversationId, lastSeenMessageId),
-    ]);
-    
-    const { messages: newMessages, lastMessageId } = messagesResult;
-
-    // Detect which blocks have changed since last sync
-    const changedBlocks = detectChangedBlocks(agent.blocks || [], lastBlockValues);
-    
-    // Clean up any existing <letta> section from CLAUDE.md (legacy migration)
-    cleanLettaFromClaudeMd(cwd);
-    
-    // Update state with block values and last seen message ID
-    if (state) {
-      state.lastBlockValues = {};
-      for (const block of agent.blocks || []) {
-        state.lastBlockValues[block.label] = block.value;
-      }
-      // Track the last message we've seen
-      if (lastMessageId) {
-        state.lastSeenMessageId = lastMessageId;
-      }
-    }
-    
     // Output to stdout - this gets injected before the user's prompt
     // (UserPromptSubmit hooks add stdout to context)
-    const outputs: string[] = [];
-    
-    if (mode === 'full') {
-      // Full mode: inject memory blocks + messages
-      const isFirstPrompt = !lastBlockValues;
-      
-      if (isFirstPrompt) {
-        outputs.push(formatAllBlocksForStdout(agent, conversationId));
-      } else {
-        const changedBlocksOutput = formatChangedBlocksForStdout(changedBlocks, lastBlockValues);
-        if (changedBlocksOutput) {
-          outputs.push(changedBlocksOutput);
-        }
-      }
-    }
-    
-    // Both modes: inject messages from Sub
-    const messageOutput = formatMessagesForStdout(agent, newMessages);
-    outputs.push(messageOutput);
-    
-    // Add instruction to acknowledge messages if there are any
-    if (newMessages.length > 0) {
-      const agentName = agent.name || 'Subconscious';
-      outputs.push(`<instruction>Your Subconscious (${agentName}) sent you a message above. Briefly acknowledge what ${agentName} said - just a short note like "Sub notes: [key point]" so the user knows.</instruction>`);
-    }
-    
-    console.log(outputs.join('\n\n'));
-    
-    // Save state
-    if (state && sessionId) {
-      saveSyncState(cwd, state);
-    }
+    console.log(await syncMemory(apiKey, mode, hookInput, projectDir));
     
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
+    if (isLettaUnavailable(error)) {
+      // Don't hold up or fail the prompt; the next one will catch up
+      debug(`Skipping sync: ${errorMessage}`);
+      process.exit(0);
+    }
     console.error(`Error syncing Letta memory: ${errorMessage}`);
     // Exit with code 1 for non-blocking error
     // Change to exit(2) if you want to block prompt processing on sync failures
@@ -402,4 +314,6 @@ async function main(): Promise<void> {
 }
 
 // Run main function
-main();
+if (isMainModule(import.meta.url)) {
+  main();
+}
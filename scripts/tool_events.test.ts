@@ -0,0 +1,132 @@
+/**
+ * Tests for tool_events.ts
+ *
+ * Covers tool response summarisation, failure detection, the flush policy,
+ * and atomic buffer hand-off between concurrent PostToolUse hooks.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  appendToolEvent,
+  createToolEvent,
+  formatToolActivityMessage,
+  looksLikeFailure,
+  readToolEvents,
+  shouldFlush,
+  summarizeToolResponse,
+  takeToolEvents,
+  ToolEvent,
+} from './tool_events.js';
+
+function event(overrides: Partial<ToolEvent> = {}): ToolEvent {
+  return {
+    timestamp: new Date().toISOString(),
+    toolName: 'Read',
+    input: 'src/index.ts',
+    result: '',
+    isError: false,
+    ...overrides,
+  };
+}
+
+describe('summarizeToolResponse', () => {
+  it('should keep the tail of long Bash output', () => {
+    const stdout = 'x'.repeat(1000) + '\nTests: 2 failed, 10 passed';
+    const summary = summarizeToolResponse('Bash', { stdout, stderr: '' });
+    expect(summary.startsWith('[truncated] ...')).toBe(true);
+    expect(summary.endsWith('Tests: 2 failed, 10 passed')).toBe(true);
+  });
+
+  it('should summarise Read and Edit responses', () => {
+    expect(summarizeToolResponse('Read', { file: { filePath: '/a.ts', numLines: 42 } })).toBe('42 lines from /a.ts');
+    expect(summarizeToolResponse('Edit', { filePath: '/a.ts', oldString: 'a', newString: 'b' })).toBe('Updated /a.ts');
+  });
+
+  it('should fall back to truncated JSON', () => {
+    expect(summarizeToolResponse('mcp__x__y', { ok: true })).toBe('{"ok":true}');
+  });
+});
+
+describe('createToolEvent', () => {
+  it('should mark PostToolUseFailure events as errors', () => {
+    const e = createToolEvent({
+      hook_event_name: 'PostToolUseFailure',
+      tool_name: 'Bash',
+      tool_input: { command: 'npm test' },
+      error: 'Exit code 1',
+    });
+    expect(e).toMatchObject({ toolName: 'Bash', input: 'npm test', result: 'Exit code 1', isError: true });
+  });
+
+  it('should flag successful calls whose output reports failures', () => {
+    const e = createToolEvent({
+      hook_event_name: 'PostToolUse',
+      tool_name: 'Bash',
+      tool_input: { command: 'npx vitest run' },
+      tool_response: { stdout: ' Tests  1 failed | 4 passed (5)', stderr: '' },
+    });
+    expect(e.isError).toBe(true);
+  });
+});
+
+describe('looksLikeFailure', () => {
+  it('should recognise common failure output', () => {
+    expect(looksLikeFailure('3 failed, 1 passed')).toBe(true);
+    expect(looksLikeFailure('src/a.ts(1,1): error TS2304: Cannot find name')).toBe(true);
+    expect(looksLikeFailure('Traceback (most recent call last):')).toBe(true);
+    expect(looksLikeFailure('All 12 tests passed')).toBe(false);
+  });
+});
+
+describe('shouldFlush', () => {
+  const policy = { batchSize: 3, intervalMs: 60_000 };
+
+  it('should not flush an empty or small fresh buffer', () => {
+    expect(shouldFlush([], policy)).toBe(false);
+    expect(shouldFlush([event()], policy)).toBe(false);
+  });
+
+  it('should flush on errors, full batches, and old events', () => {
+    expect(shouldFlush([event({ isError: true })], policy)).toBe(true);
+    expect(shouldFlush([event(), event(), event()], policy)).toBe(true);
+    const old = new Date(Date.now() - 61_000).toISOString();
+    expect(shouldFlush([event({ timestamp: old })], policy)).toBe(true);
+  });
+});
+
+describe('event buffer', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'tool-events-test-'));
+    delete process.env.LETTA_HOME;
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should hand the buffer to exactly one taker', () => {
+    appendToolEvent(cwd, 's1', event({ input: 'a.ts' }));
+    appendToolEvent(cwd, 's1', event({ input: 'b.ts' }));
+
+    expect(readToolEvents(cwd, 's1')).toHaveLength(2);
+    expect(takeToolEvents(cwd, 's1').map(e => e.input)).toEqual(['a.ts', 'b.ts']);
+    expect(takeToolEvents(cwd, 's1')).toEqual([]);
+    expect(readToolEvents(cwd, 's1')).toEqual([]);
+  });
+});
+
+describe('formatToolActivityMessage', () => {
+  it('should escape tool output and mark errors', () => {
+    const message = formatToolActivityMessage('s1', [
+      event({ toolName: 'Bash', input: 'npm test', result: 'expected <div>', isError: true }),
+    ]);
+    expect(message).toContain('<tool_event name="Bash" status="error"');
+    expect(message).toContain('result: expected &lt;div&gt;');
+    expect(message).toContain('<session_id>s1</session_id>');
+  });
+});
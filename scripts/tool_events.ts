@@ -0,0 +1,219 @@
+/**
+ * Tool Event Buffer
+ *
+ * Compact per-session buffer of tool outcomes recorded by the PostToolUse
+ * hook. Events accumulate in {durable state dir}/tool-events-{session}.jsonl
+ * and are flushed to the outbox in batches, so Sub can react mid-turn
+ * (e.g. to a failing test run) instead of waiting for the Stop hook.
+ *
+ * The Stop hook discards the buffer: the full transcript it sends already
+ * covers every buffered event.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDurableStateDir, escapeXmlAttribute, escapeXmlContent } from './conversation_utils.js';
+import { createToolFormatterRegistry, ToolFormatterRegistry, truncate } from './tool_formatters.js';
+
+// Result excerpts are much shorter than in full transcripts: this is a live feed
+const EVENT_RESULT_MAX_CHARS = 400;
+
+export interface ToolEvent {
+  timestamp: string;
+  toolName: string;
+  toolUseId?: string;
+  input: string;
+  result: string;
+  isError: boolean;
+}
+
+export interface FlushPolicy {
+  /** Flush once this many events are buffered */
+  batchSize: number;
+  /** Flush once the oldest buffered event is this old */
+  intervalMs: number;
+}
+
+/**
+ * Get the flush policy from LETTA_TOOL_STREAM_BATCH / LETTA_TOOL_STREAM_INTERVAL
+ */
+export function getFlushPolicy(): FlushPolicy {
+  const batch = parseInt(process.env.LETTA_TOOL_STREAM_BATCH || '', 10);
+  const interval = parseInt(process.env.LETTA_TOOL_STREAM_INTERVAL || '', 10);
+  return {
+    batchSize: batch > 0 ? batch : 10,
+    intervalMs: (interval > 0 ? interval : 60) * 1000,
+  };
+}
+
+/**
+ * Check whether tool streaming is enabled (LETTA_TOOL_STREAM=off disables it)
+ */
+export function isToolStreamEnabled(): boolean {
+  return process.env.LETTA_TOOL_STREAM?.toLowerCase() !== 'off';
+}
+
+/**
+ * Get tool event buffer file path for a session
+ */
+export function getToolEventsFile(cwd: string, sessionId: string): string {
+  return path.join(getDurableStateDir(cwd), `tool-events-${sessionId}.jsonl`);
+}
+
+/**
+ * Heuristic for successful-looking tool calls whose output reports a failure
+ * (test runners, compilers, stack traces)
+ */
+export function looksLikeFailure(output: string): boolean {
+  return /\b\d+ (?:failed|failing|errors?)\b|\bFAIL(?:ED)?\b|\bTraceback \(most recent call last\)|\berror TS\d+|\bnpm ERR!/.test(output);
+}
+
+/**
+ * Reduce a PostToolUse tool_response to a short excerpt
+ */
+export function summarizeToolResponse(toolName: string, response: unknown): string {
+  if (response === undefined || response === null) {
+    return '';
+  }
+  if (typeof response === 'string') {
+    return truncate(response, EVENT_RESULT_MAX_CHARS);
+  }
+
+  const r = response as Record<string, any>;
+  if (toolName === 'Bash' && (typeof r.stdout === 'string' || typeof r.stderr === 'string')) {
+    // The end of the output is where test summaries and errors live
+    const output = [r.stdout, r.stderr].filter(Boolean).join('\n').trim();
+    return output.length > EVENT_RESULT_MAX_CHARS
+      ? `[truncated] ...${output.slice(-EVENT_RESULT_MAX_CHARS)}`
+      : output;
+  }
+  if (toolName === 'Read' && r.file?.filePath) {
+    return `${r.file.numLines ?? '?'} lines from ${r.file.filePath}`;
+  }
+  if ((toolName === 'Edit' || toolName === 'Write') && r.filePath) {
+    return `Updated ${r.filePath}`;
+  }
+  return truncate(JSON.stringify(response), EVENT_RESULT_MAX_CHARS);
+}
+
+/**
+ * Build a tool event from PostToolUse / PostToolUseFailure hook input
+ */
+export function createToolEvent(input: {
+  hook_event_name?: string;
+  tool_name: string;
+  tool_input?: unknown;
+  tool_response?: unknown;
+  tool_use_id?: string;
+  error?: string;
+}, formatters: ToolFormatterRegistry = createToolFormatterRegistry()): ToolEvent {
+  const failed = input.hook_event_name === 'PostToolUseFailure';
+  const result = failed
+    ? truncate(input.error || 'Tool call failed', EVENT_RESULT_MAX_CHARS)
+    : summarizeToolResponse(input.tool_name, input.tool_response);
+  const interrupted = (input.tool_response as any)?.interrupted === true;
+
+  return {
+    timestamp: new Date().toISOString(),
+    toolName: input.tool_name,
+    toolUseId: input.tool_use_id,
+    input: formatters.get(input.tool_name).summarizeInput(input.tool_input),
+    result,
+    isError: failed || interrupted || looksLikeFailure(result),
+  };
+}
+
+/**
+ * Append an event to the session buffer
+ */
+export function appendToolEvent(cwd: string, sessionId: string, event: ToolEvent): void {
+  const filePath = getToolEventsFile(cwd, sessionId);
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.appendFileSync(filePath, JSON.stringify(event) + '\n', 'utf-8');
+}
+
+/**
+ * Read buffered events without removing them
+ */
+export function readToolEvents(cwd: string, sessionId: string): ToolEvent[] {
+  return parseEvents(getToolEventsFile(cwd, sessionId));
+}
+
+function parseEvents(filePath: string): ToolEvent[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const events: ToolEvent[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Partially written line from a concurrent append; skip it
+    }
+  }
+  return events;
+}
+
+/**
+ * Atomically take every buffered event. Concurrent hooks racing to flush
+ * the same buffer get an empty list instead of duplicates.
+ */
+export function takeToolEvents(cwd: string, sessionId: string): ToolEvent[] {
+  const filePath = getToolEventsFile(cwd, sessionId);
+  const claimedPath = `${filePath}.${process.pid}.flushing`;
+  try {
+    fs.renameSync(filePath, claimedPath);
+  } catch {
+    return [];
+  }
+  const events = parseEvents(claimedPath);
+  fs.unlinkSync(claimedPath);
+  return events;
+}
+
+/**
+ * Discard the buffer (the Stop hook's transcript supersedes it)
+ */
+export function clearToolEvents(cwd: string, sessionId: string): void {
+  takeToolEvents(cwd, sessionId);
+}
+
+/**
+ * Decide whether the buffer should be flushed now
+ */
+export function shouldFlush(events: ToolEvent[], policy: FlushPolicy, now: number = Date.now()): boolean {
+  if (events.length === 0) return false;
+  if (events.some(e => e.isError)) return true;
+  if (events.length >= policy.batchSize) return true;
+  return now - new Date(events[0].timestamp).getTime() >= policy.intervalMs;
+}
+
+/**
+ * Format buffered events as a message for the agent
+ */
+export function formatToolActivityMessage(sessionId: string, events: ToolEvent[]): string {
+  const formattedEvents = events.map(event => {
+    const status = event.isError ? 'error' : 'ok';
+    const lines = [`input: ${escapeXmlContent(event.input)}`];
+    if (event.result) {
+      lines.push(`result: ${escapeXmlContent(event.result)}`);
+    }
+    return `<tool_event name="${escapeXmlAttribute(event.toolName)}" status="${status}" timestamp="${event.timestamp}">\n${lines.join('\n')}\n</tool_event>`;
+  }).join('\n');
+
+  return `<claude_code_tool_activity>
+<session_id>${sessionId}</session_id>
+
+<events>
+${formattedEvents}
+</events>
+
+<instructions>
+These are live tool results from Claude Code's current turn; the full transcript follows when the turn ends. If something is going wrong (a failing test run, a repeated error, edits to the wrong file), reply with brief guidance: it is injected before Claude's next tool call. Otherwise a short acknowledgement is enough.
+</instructions>
+</claude_code_tool_activity>`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for tool_formatters.ts
+ *
+ * Covers the built-in summaries, the generic fallback for MCP tools,
+ * user overrides and their precedence, and how formatters shape transcripts.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createToolFormatterRegistry, TOOL_RESULT_MAX_CHARS } from './tool_formatters.js';
+import { formatMessagesForLetta, TranscriptMessage } from './transcript_utils.js';
+
+function toolTurn(name: string, input: any, result: string): TranscriptMessage[] {
+  return [
+    {
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', id: `toolu_${name}`, name, input }] },
+    },
+    {
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: `toolu_${name}`, content: result }] },
+    },
+  ];
+}
+
+describe('built-in formatters', () => {
+  const formatters = createToolFormatterRegistry();
+  const summarize = (name: string, input: any) => formatters.get(name).summarizeInput(input);
+
+  it('summarises multi-step and notebook edits', () => {
+    expect(summarize('MultiEdit', { file_path: '/a.ts', edits: [{}, {}, {}] })).toBe('/a.ts (3 edits)');
+    expect(summarize('NotebookEdit', { notebook_path: '/n.ipynb', cell_id: 'c4', edit_mode: 'insert' }))
+      .toBe('/n.ipynb (insert cell c4)');
+  });
+
+  it('summarises todo progress', () => {
+    const todos = [
+      { content: 'Write tests', status: 'completed' },
+      { content: 'Fix the parser', status: 'in_progress' },
+      { content: 'Update docs', status: 'pending' },
+    ];
+    expect(summarize('TodoWrite', { todos })).toBe('1/3 done, now: Fix the parser');
+  });
+
+  it('summarises MCP and unknown tools as key=value pairs', () => {
+    expect(summarize('mcp__github__get_pull_request', { owner: 'letta-ai', pull_number: 12, body: { nested: 1 } }))
+      .toBe('owner="letta-ai" pull_number=12');
+    expect(formatters.get('mcp__github__get_pull_request')).toMatchObject({ send: true, resultMaxChars: TOOL_RESULT_MAX_CHARS });
+  });
+});
+
+describe('user overrides', () => {
+  it('applies templates, patterns and exact names in order of precedence', () => {
+    const formatters = createToolFormatterRegistry({
+      'mcp__github__*': { summary: '{owner}/{repo}#{pull_number}', resultMaxChars: 200 },
+      'mcp__github__search_code': { summary: 'search {q}' },
+      Bash: { resultMaxChars: 4000 },
+    });
+
+    expect(formatters.get('mcp__github__get_pull_request').summarizeInput({ owner: 'o', repo: 'r', pull_number: 7 }))
+      .toBe('o/r#7');
+    expect(formatters.get('mcp__github__get_pull_request').resultMaxChars).toBe(200);
+    expect(formatters.get('mcp__github__search_code')).toMatchObject({ resultMaxChars: TOOL_RESULT_MAX_CHARS });
+    expect(formatters.get('mcp__github__search_code').summarizeInput({ q: 'TODO' })).toBe('search TODO');
+    // Built-in summary is kept when only the result length is overridden
+    expect(formatters.get('Bash')).toMatchObject({ resultMaxChars: 4000 });
+    expect(formatters.get('Bash').summarizeInput({ command: 'npm test' })).toBe('npm test');
+  });
+
+  it('ignores malformed entries', () => {
+    const logs: string[] = [];
+    const formatters = createToolFormatterRegistry({ Bash: 'loud' as any }, (msg) => logs.push(msg));
+    expect(formatters.get('Bash').send).toBe(true);
+    expect(logs[0]).toContain('Ignoring tool formatter settings for Bash');
+  });
+});
+
+describe('formatMessagesForLetta with formatters', () => {
+  it('labels results with their tool and truncates to the tool limit', () => {
+    const formatters = createToolFormatterRegistry({ Grep: { resultMaxChars: 10 } });
+    const entries = formatMessagesForLetta(toolTurn('Grep', { pattern: 'TODO', path: 'src' }, 'y'.repeat(50)), -1, undefined, formatters);
+
+    expect(entries.map(e => [e.toolName, e.text])).toEqual([
+      ['Grep', 'TODO in src'],
+      ['Grep', `${'y'.repeat(10)}... [truncated]`],
+    ]);
+  });
+
+  it('leaves out calls and results of tools with send disabled', () => {
+    const formatters = createToolFormatterRegistry({ TodoWrite: { send: false } });
+    const messages = [
+      ...toolTurn('TodoWrite', { todos: [] }, 'Todos updated'),
+      ...toolTurn('Read', { file_path: '/a.ts' }, 'contents'),
+    ];
+
+    const entries = formatMessagesForLetta(messages, -1, undefined, formatters);
+
+    expect(entries.map(e => e.toolName)).toEqual(['Read', 'Read']);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tool Formatters
+ *
+ * Registry that decides how each Claude Code tool appears in what Sub
+ * receives: the one-line input summary, the diff of file edits, how much of
+ * the result is kept, and whether the tool is sent at all. Built-in formatters cover Claude Code's
+ * own tools; MCP tools (mcp__<server>__<tool>) and anything else get a
+ * compact key=value summary.
+ *
+ * Users can override or add formatters in settings.json. Keys are tool names
+ * or patterns with `*`; `summary` is a template over the tool input:
+ *
+ *   {
+ *     "tools": {
+ *       "TodoWrite": { "send": false },
+ *       "Bash": { "resultMaxChars": 4000 },
+ *       "Write": { "diffMaxLines": 0 },
+ *       "mcp__github__*": { "summary": "{owner}/{repo}#{pull_number}", "resultMaxChars": 500 }
+ *     }
+ *   }
+ *
+ * Exact names win over patterns; settings win over built-ins.
+ */
+
+import { LogFn } from './conversation_utils.js';
+import { DIFF_MAX_LINES, formatEditDiff } from './edit_diffs.js';
+import { loadSettings, ToolFormatterSettings } from './settings.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+/**
+ * Maximum characters of a tool result included in a transcript
+ */
+export const TOOL_RESULT_MAX_CHARS = 1500;
+
+// Longest input summary for tools without a dedicated formatter
+const SUMMARY_MAX_CHARS = 100;
+
+export interface ToolFormatter {
+  /** One-line summary of a call's input */
+  summarizeInput(input: any): string;
+  /** Lines shown under the summary (the diff of an edit), or '' */
+  formatDetails(input: any): string;
+  /** Characters of the tool's result kept in transcripts */
+  resultMaxChars: number;
+  /** False to leave the tool's calls and results out entirely */
+  send: boolean;
+}
+
+type InputSummarizer = (input: any) => string;
+
+export interface ToolFormatterRegistry {
+  get(toolName: string): ToolFormatter;
+}
+
+/**
+ * Truncate text to a maximum length
+ */
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength) + '... [truncated]';
+}
+
+function field(name: string): InputSummarizer {
+  return (input) => (input?.[name] ? String(input[name]) : '');
+}
+
+const BUILT_IN_SUMMARIZERS: Record<string, InputSummarizer> = {
+  Read: field('file_path'),
+  Edit: (input) => {
+    if (!input?.file_path) return '';
+    return input.replace_all ? `${input.file_path} (all occurrences)` : input.file_path;
+  },
+  Write: field('file_path'),
+  MultiEdit: (input) => {
+    const count = Array.isArray(input?.edits) ? input.edits.length : 0;
+    return input?.file_path ? `${input.file_path} (${count} edit${count === 1 ? '' : 's'})` : '';
+  },
+  NotebookEdit: (input) => {
+    if (!input?.notebook_path) return '';
+    const mode = input.edit_mode && input.edit_mode !== 'replace' ? `${input.edit_mode} ` : '';
+    return input.cell_id ? `${input.notebook_path} (${mode}cell ${input.cell_id})` : input.notebook_path;
+  },
+  Bash: (input) => (input?.command ? truncate(input.command, SUMMARY_MAX_CHARS) : ''),
+  Glob: field('pattern'),
+  Grep: (input) => {
+    if (!input?.pattern) return '';
+    return input.path ? `${input.pattern} in ${input.path}` : input.pattern;
+  },
+  WebFetch: field('url'),
+  WebSearch: field('query'),
+  Task: field('description'),
+  TodoWrite: (input) => {
+    const todos: Array<{ status?: string; content?: string }> = Array.isArray(input?.todos) ? input.todos : [];
+    const done = todos.filter(t => t.status === 'completed').length;
+    const active = todos.find(t => t.status === 'in_progress');
+    const progress = `${done}/${todos.length} done`;
+    return truncate(active?.content ? `${progress}, now: ${active.content}` : progress, SUMMARY_MAX_CHARS);
+  },
+  AskUserQuestion: (input) => {
+    // Summarize questions being asked
+    const questions = input?.questions;
+    if (Array.isArray(questions) && questions.length > 0) {
+      return truncate(questions.map((q: any) => q.question || q.header || '').join('; '), SUMMARY_MAX_CHARS);
+    }
+    return '';
+  },
+  ExitPlanMode: () => 'Exiting plan mode',
+};
+
+/**
+ * Summarize arbitrary input as key=value pairs of its scalar fields
+ */
+function summarizeGeneric(input: any): string {
+  if (input === undefined || input === null) return '';
+  if (typeof input !== 'object') return truncate(String(input), SUMMARY_MAX_CHARS);
+
+  const pairs = Object.entries(input)
+    .filter(([, value]) => value !== null && ['string', 'number', 'boolean'].includes(typeof value))
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? JSON.stringify(value) : value}`);
+  return truncate(pairs.length > 0 ? pairs.join(' ') : JSON.stringify(input), SUMMARY_MAX_CHARS);
+}
+
+/**
+ * Fill {field} and {nested.field} placeholders from the tool input
+ */
+function renderTemplate(template: string, input: any): string {
+  const rendered = template.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+    const value = path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), input);
+    return value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+  return truncate(rendered.trim(), SUMMARY_MAX_CHARS);
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Build a registry from the built-ins and optional user overrides
+ */
+export function createToolFormatterRegistry(
+  overrides: { [toolName: string]: ToolFormatterSettings } = {},
+  log: LogFn = noopLog,
+): ToolFormatterRegistry {
+  const exact = new Map<string, ToolFormatterSettings>();
+  const patterns: Array<{ regex: RegExp; settings: ToolFormatterSettings }> = [];
+  for (const [key, settings] of Object.entries(overrides)) {
+    if (!settings || typeof settings !== 'object') {
+      log(`Ignoring tool formatter settings for ${key}: expected an object`);
+    } else if (key.includes('*')) {
+      patterns.push({ regex: patternToRegex(key), settings });
+    } else {
+      exact.set(key, settings);
+    }
+  }
+
+  const cache = new Map<string, ToolFormatter>();
+
+  return {
+    get(toolName: string): ToolFormatter {
+      const cached = cache.get(toolName);
+      if (cached) return cached;
+
+      const settings = exact.get(toolName) || patterns.find(p => p.regex.test(toolName))?.settings || {};
+      const builtIn = BUILT_IN_SUMMARIZERS[toolName] || summarizeGeneric;
+      const diffMaxLines = typeof settings.diffMaxLines === 'number' ? settings.diffMaxLines : DIFF_MAX_LINES;
+
+      const formatter: ToolFormatter = {
+        summarizeInput: typeof settings.summary === 'string'
+          ? (input) => renderTemplate(settings.summary as string, input)
+          : (input) => (input ? builtIn(input) : ''),
+        formatDetails: (input) => formatEditDiff(toolName, input, diffMaxLines),
+        resultMaxChars: typeof settings.resultMaxChars === 'number' && settings.resultMaxChars >= 0
+          ? settings.resultMaxChars
+          : TOOL_RESULT_MAX_CHARS,
+        send: settings.send !== false,
+      };
+      cache.set(toolName, formatter);
+      return formatter;
+    },
+  };
+}
+
+/**
+ * Build the registry from the user's settings file
+ */
+export function loadToolFormatters(log: LogFn = noopLog): ToolFormatterRegistry {
+  return createToolFormatterRegistry(loadSettings(log).tools, log);
+}
+
+/**
+ * Summarize a tool call's input in one short line
+ */
+export function summarizeToolInput(
+  toolName: string,
+  input: any,
+  formatters: ToolFormatterRegistry = createToolFormatterRegistry(),
+): string {
+  return formatters.get(toolName).summarizeInput(input);
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for transcript_packer.ts
+ *
+ * Covers the token budget, shedding order for oversized updates, chunking,
+ * and how chunks become numbered session update parts.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatSessionUpdateParts, splitFinalChunk } from './session_updates.js';
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  estimateTokens,
+  getTranscriptTokenBudget,
+  packTranscript,
+} from './transcript_packer.js';
+import { formatAsXmlTranscript, TranscriptEntry } from './transcript_utils.js';
+
+function toolResult(toolName: string, chars: number, isError = false): TranscriptEntry {
+  return {
+    role: 'system',
+    text: 'x'.repeat(chars),
+    kind: isError ? 'tool_error' : 'tool_result',
+    toolName,
+  };
+}
+
+describe('transcript packer', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('derives the budget from the context window unless configured', () => {
+    expect(getTranscriptTokenBudget()).toBe(DEFAULT_CONTEXT_WINDOW / 4);
+    expect(getTranscriptTokenBudget(200000)).toBe(50000);
+    expect(getTranscriptTokenBudget(100)).toBe(1000);
+
+    vi.stubEnv('LETTA_TRANSCRIPT_TOKENS', '3000');
+    expect(getTranscriptTokenBudget(200000)).toBe(3000);
+  });
+
+  it('leaves updates within budget untouched', () => {
+    const entries: TranscriptEntry[] = [
+      { role: 'user', text: 'fix the build', kind: 'user' },
+      toolResult('Read', 200),
+    ];
+
+    const packed = packTranscript(entries, 1000);
+
+    expect(packed.chunks).toEqual([formatAsXmlTranscript(entries)]);
+    expect(packed.shortened).toBe(0);
+  });
+
+  it('sheds read-only tool output before other output, keeping user text and errors', () => {
+    const userText = 'u'.repeat(2000);
+    const entries: TranscriptEntry[] = [
+      { role: 'user', text: userText, kind: 'user' },
+      toolResult('Bash', 1500),
+      toolResult('Read', 1500),
+      toolResult('Bash', 1500, true),
+    ];
+
+    // Dropping the Read output alone brings it under budget
+    const packed = packTranscript(entries, 1500);
+
+    expect(packed.chunks).toHaveLength(1);
+    expect(packed.shortened).toBe(1);
+    const [chunk] = packed.chunks;
+    expect(chunk).toContain(userText);
+    expect(chunk).toContain('<tool_result name="Read">\n[1500 chars omitted to fit the update budget]');
+    expect(chunk).toContain(`<tool_result name="Bash">\n${'x'.repeat(1500)}`);
+    expect(chunk).toContain(`<tool_result name="Bash" is_error="true">\n${'x'.repeat(1500)}`);
+  });
+
+  it('splits what still does not fit into ordered chunks', () => {
+    const entries: TranscriptEntry[] = Array.from({ length: 6 }, (_, i) => ({
+      role: 'user',
+      text: `prompt ${i} ${'p'.repeat(1900)}`,
+      kind: 'user',
+    }));
+
+    const packed = packTranscript(entries, 1000);
+
+    expect(packed.chunks).toHaveLength(3);
+    for (const chunk of packed.chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(1000);
+    }
+    const order = packed.chunks.join('\n').match(/prompt \d/g);
+    expect(order).toEqual(['prompt 0', 'prompt 1', 'prompt 2', 'prompt 3', 'prompt 4', 'prompt 5']);
+  });
+
+  it('numbers multi-part updates and holds commentary until the last part', () => {
+    expect(formatSessionUpdateParts('s1', ['only'])[0]).not.toContain('<part');
+
+    const parts = formatSessionUpdateParts('s1', ['one', 'two']);
+    expect(parts[0]).toContain('<part number="1" of="2"/>');
+    expect(parts[0]).toContain('continues in the next one');
+    expect(parts[1]).toContain('<part number="2" of="2"/>');
+    expect(parts[1]).not.toContain('continues in the next one');
+
+    expect(splitFinalChunk('s1', ['one', 'two', 'three'])).toMatchObject({ final: 'three' });
+    expect(splitFinalChunk('s1', ['one', 'two', 'three']).leading).toHaveLength(2);
+    expect(splitFinalChunk('s1', null)).toEqual({ leading: [], final: null });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Transcript Packer
+ *
+ * Keeps each session update Sub receives within a token budget. A turn with
+ * hundreds of tool calls would otherwise arrive as one message bigger than
+ * Sub's context window can take alongside its memory.
+ *
+ * When the formatted transcript is over budget, the least useful content is
+ * shed first: output of read-only tools (Sub can re-read those files with its
+ * own tools), then other tool output, edit diffs, subagent threads and
+ * thinking. User text, assistant replies, tool call lines and errors are
+ * never shortened. Whatever is still over budget is split into ordered
+ * chunks, sent as numbered parts.
+ *
+ * The budget is a share of the agent's context window, or
+ * LETTA_TRANSCRIPT_TOKENS when set.
+ */
+
+import { formatAsXmlTranscript, LogFn, TranscriptEntry } from './transcript_utils.js';
+
+// Default no-op logger
+const noopLog: LogFn = () => {};
+
+export const DEFAULT_CONTEXT_WINDOW = 32000;
+// Share of the context window one update may use; the rest holds Sub's
+// system prompt, memory blocks and conversation history
+const CONTEXT_WINDOW_SHARE = 0.25;
+const MIN_BUDGET_TOKENS = 1000;
+// Rough average for English text and code
+const CHARS_PER_TOKEN = 4;
+
+// Results Sub can cheaply reproduce itself, shed first
+const READ_ONLY_TOOLS = new Set(['Read', 'Glob', 'Grep', 'LS', 'NotebookRead', 'WebFetch', 'WebSearch']);
+
+export interface PackedTranscript {
+  /** XML transcript chunks, in order */
+  chunks: string[];
+  /** Entries whose content was omitted to fit the budget */
+  shortened: number;
+  /** Estimated tokens before packing */
+  estimatedTokens: number;
+}
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the per-update token budget from LETTA_TRANSCRIPT_TOKENS, or a share
+ * of the agent's context window
+ */
+export function getTranscriptTokenBudget(contextWindow?: number): number {
+  const configured = parseInt(process.env.LETTA_TRANSCRIPT_TOKENS || '', 10);
+  if (configured > 0) {
+    return Math.max(configured, MIN_BUDGET_TOKENS);
+  }
+  const window = contextWindow && contextWindow > 0 ? contextWindow : DEFAULT_CONTEXT_WINDOW;
+  return Math.max(Math.floor(window * CONTEXT_WINDOW_SHARE), MIN_BUDGET_TOKENS);
+}
+
+/**
+ * Shedding order for an entry; null if it must be kept intact
+ */
+function shedTier(entry: TranscriptEntry): number | null {
+  if (entry.kind === 'tool_result') {
+    return entry.toolName && READ_ONLY_TOOLS.has(entry.toolName) ? 0 : 1;
+  }
+  if (entry.kind === 'thinking' || entry.kind === 'subagent') {
+    return 1;
+  }
+  if (entry.kind === 'tool_use' && entry.text.includes('\n')) {
+    // An edit diff; shortening keeps the call line
+    return 1;
+  }
+  return null;
+}
+
+/**
+ * Drop an entry's content. Tool results are named by their element and lose
+ * all of it; other entries keep their first line (e.g. the call line above
+ * an edit diff).
+ */
+function shorten(entry: TranscriptEntry): TranscriptEntry {
+  if (entry.kind === 'tool_result') {
+    return { ...entry, text: `[${entry.text.length} chars omitted to fit the update budget]` };
+  }
+  const newline = entry.text.indexOf('\n');
+  const header = newline === -1 ? entry.text.slice(0, 80) : entry.text.slice(0, newline);
+  const omitted = newline === -1 ? entry.text.length - header.length : entry.text.length - newline - 1;
+  return { ...entry, text: `${header}\n[${omitted} chars omitted to fit the update budget]` };
+}
+
+function entryTokens(entry: TranscriptEntry): number {
+  return estimateTokens(formatAsXmlTranscript([entry])) + 1;
+}
+
+/**
+ * Fit formatted transcript entries into chunks of at most budgetTokens.
+ * An entry that is over budget on its own gets a chunk to itself.
+ */
+export function packTranscript(
+  entries: TranscriptEntry[],
+  budgetTokens: number,
+  log: LogFn = noopLog,
+): PackedTranscript {
+  const packed = [...entries];
+  const sizes = packed.map(entryTokens);
+  const estimatedTokens = sizes.reduce((sum, n) => sum + n, 0);
+  let total = estimatedTokens;
+  let shortened = 0;
+
+  // Shed low-value content, oldest first within each tier
+  for (const tier of [0, 1]) {
+    for (let i = 0; i < packed.length && total > budgetTokens; i++) {
+      if (shedTier(packed[i]) !== tier) continue;
+      const smaller = shorten(packed[i]);
+      const size = entryTokens(smaller);
+      if (size >= sizes[i]) continue;
+      total -= sizes[i] - size;
+      packed[i] = smaller;
+      sizes[i] = size;
+      shortened++;
+    }
+  }
+
+  const groups: TranscriptEntry[][] = [];
+  let current: TranscriptEntry[] = [];
+  let currentTokens = 0;
+  for (let i = 0; i < packed.length; i++) {
+    if (current.length > 0 && currentTokens + sizes[i] > budgetTokens) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(packed[i]);
+    currentTokens += sizes[i];
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  if (shortened > 0 || groups.length > 1) {
+    log(`Packed transcript: ~${estimatedTokens} tokens, budget ${budgetTokens}, ${shortened} entries shortened, ${groups.length} chunk(s)`);
+  }
+  return { chunks: groups.map(formatAsXmlTranscript), shortened, estimatedTokens };
+}
@@ -0,0 +1,278 @@
+/**
+ * Tests for transcript_utils.ts
+ *
+ * Covers pairing tool results with their calls, turn numbering, the
+ * elements and attributes of the XML transcript schema, subagent threads,
+ * and incremental reads from a saved cursor.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createToolFormatterRegistry } from './tool_formatters.js';
+import {
+  formatAsXmlTranscript,
+  formatMessagesForLetta,
+  readTranscript,
+  readRecentToolFiles,
+  readTranscriptSince,
+  TranscriptMessage,
+} from './transcript_utils.js';
+
+const formatters = createToolFormatterRegistry();
+
+function toolCalls(...calls: Array<[id: string, name: string, input: any]>): TranscriptMessage {
+  return {
+    type: 'assistant',
+    message: { role: 'assistant', content: calls.map(([id, name, input]) => ({ type: 'tool_use', id, name, input })) },
+  };
+}
+
+function toolResult(id: string, content: string, isError = false): TranscriptMessage {
+  return {
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content, is_error: isError }] },
+  };
+}
+
+describe('tool call pairing', () => {
+  it('pairs parallel calls with results that arrive out of order', () => {
+    const entries = formatMessagesForLetta([
+      toolCalls(['toolu_a', 'Read', { file_path: '/a.ts' }], ['toolu_b', 'Bash', { command: 'npm test' }]),
+      toolResult('toolu_b', 'Tests failed', true),
+      toolResult('toolu_a', 'contents'),
+    ], -1, undefined, formatters);
+
+    expect(entries.map(e => [e.kind, e.toolName, e.toolUseId])).toEqual([
+      ['tool_use', 'Read', 'toolu_a'],
+      ['tool_use', 'Bash', 'toolu_b'],
+      ['tool_error', 'Bash', 'toolu_b'],
+      ['tool_result', 'Read', 'toolu_a'],
+    ]);
+  });
+
+  it('names results whose call was in an earlier slice', () => {
+    const messages = [
+      toolCalls(['toolu_a', 'Grep', { pattern: 'TODO' }]),
+      toolResult('toolu_a', 'src/a.ts:3'),
+    ];
+
+    const entries = formatMessagesForLetta(messages, 0, undefined, formatters);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ text: 'src/a.ts:3', kind: 'tool_result', toolName: 'Grep', toolUseId: 'toolu_a' });
+  });
+
+  it('links calls and results in the XML transcript', () => {
+    const entries = formatMessagesForLetta([
+      toolCalls(['toolu_a', 'Bash', { command: 'ls <dir>' }]),
+      toolResult('toolu_a', 'No such file', true),
+      toolResult('toolu_gone', 'orphan'),
+    ], -1, undefined, formatters);
+
+    expect(formatAsXmlTranscript(entries)).toBe([
+      '<tool_call id="toolu_a" name="Bash">\nls &lt;dir&gt;\n</tool_call>',
+      '<tool_result tool_use_id="toolu_a" name="Bash" is_error="true">\nNo such file\n</tool_result>',
+      '<tool_result tool_use_id="toolu_gone" name="unknown">\norphan\n</tool_result>',
+    ].join('\n'));
+  });
+});
+
+describe('transcript schema', () => {
+  it('numbers turns from the start of the session and keeps message metadata', () => {
+    const messages: TranscriptMessage[] = [
+      { type: 'user', message: { role: 'user', content: 'first prompt' }, uuid: 'u1', timestamp: '2026-01-01T10:00:00Z' },
+      { type: 'assistant', message: { role: 'assistant', content: 'done' }, uuid: 'a1', timestamp: '2026-01-01T10:00:05Z' },
+      { type: 'user', message: { role: 'user', content: 'second prompt' }, uuid: 'u2', timestamp: '2026-01-01T10:01:00Z' },
+      {
+        type: 'assistant',
+        message: { role: 'assistant', content: [{ type: 'thinking', thinking: 'Look at <main>' }, { type: 'text', text: 'On it' }] },
+        uuid: 'a2',
+        timestamp: '2026-01-01T10:01:02Z',
+        isSidechain: true,
+      },
+    ];
+
+    const xml = formatAsXmlTranscript(formatMessagesForLetta(messages, 1, undefined, formatters));
+
+    expect(xml).toBe([
+      '<message role="user" turn="2" timestamp="2026-01-01T10:01:00Z" uuid="u2">\nsecond prompt\n</message>',
+      '<thinking turn="2" timestamp="2026-01-01T10:01:02Z" uuid="a2" sidechain="true">\nLook at &lt;main&gt;\n</thinking>',
+      '<message role="claude_code" turn="2" timestamp="2026-01-01T10:01:02Z" uuid="a2" sidechain="true">\nOn it\n</message>',
+    ].join('\n'));
+  });
+
+  it('formats session summaries as their own element', () => {
+    const xml = formatAsXmlTranscript(formatMessagesForLetta([{ type: 'summary', summary: 'Fixed the build' }], -1, undefined, formatters));
+
+    expect(xml).toBe('<summary>\nFixed the build\n</summary>');
+  });
+});
+
+describe('subagent threads', () => {
+  let dir: string;
+
+  function writeJsonl(name: string, messages: TranscriptMessage[]): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, messages.map(m => JSON.stringify(m)).join('\n') + '\n');
+    return file;
+  }
+
+  function taskCall(id: string, prompt: string): TranscriptMessage {
+    return toolCalls([id, 'Task', { description: `Run ${id}`, prompt }]);
+  }
+
+  function sidechain(uuid: string, parentUuid: string | null, message: TranscriptMessage['message'], agentId?: string): TranscriptMessage {
+    return { type: message?.role === 'user' ? 'user' : 'assistant', message, uuid, parentUuid, isSidechain: true, agentId };
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-utils-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('nests inline sidechains under the Task call with the same prompt', async () => {
+    const transcript = writeJsonl('session.jsonl', [
+      taskCall('toolu_task', 'Find the TODOs'),
+      sidechain('s1', null, { role: 'user', content: 'Find the TODOs' }),
+      sidechain('s2', 's1', { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_g', name: 'Grep', input: { pattern: 'TODO' } }] }),
+      sidechain('s3', 's2', { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_g', content: 'rg: bad flag\nusage', is_error: true }] }),
+      sidechain('s4', 's3', { role: 'assistant', content: 'Found 3 TODOs in src/a.ts' }),
+      toolResult('toolu_task', 'Found 3 TODOs in src/a.ts'),
+    ]);
+
+    const messages = await readTranscript(transcript);
+    const entries = formatMessagesForLetta(messages, -1, undefined, formatters);
+
+    // Sidechain messages stay in place, so indices are unchanged
+    expect(messages).toHaveLength(6);
+    expect(entries.map(e => e.kind)).toEqual(['tool_use', 'subagent', 'tool_result']);
+    expect(entries[1]).toMatchObject({ toolUseId: 'toolu_task', toolName: 'Task' });
+    expect(entries[1].text).toBe([
+      '1 tool call, 1 failed',
+      '[Grep] TODO',
+      '[Error: Grep] rg: bad flag',
+      'Found 3 TODOs in src/a.ts',
+    ].join('\n'));
+  });
+
+  it('reads separate subagent transcripts and matches them by agent id', async () => {
+    const result = toolResult('toolu_task', 'Done');
+    result.toolUseResult = { agentId: 'agent-7' };
+    const transcript = writeJsonl('session.jsonl', [taskCall('toolu_task', 'Same prompt'), result]);
+    const agentTranscript = writeJsonl('agent-7.jsonl', [
+      sidechain('a1', null, { role: 'user', content: 'A different prompt' }, 'agent-7'),
+      sidechain('a2', 'a1', { role: 'assistant', content: 'Done' }, 'agent-7'),
+    ]);
+
+    const messages = await readTranscript(transcript, undefined, [agentTranscript, path.join(dir, 'missing.jsonl')]);
+    const xml = formatAsXmlTranscript(formatMessagesForLetta(messages, -1, undefined, formatters));
+
+    expect(xml).toContain('<subagent tool_use_id="toolu_task" agent_id="agent-7">\n0 tool calls, 0 failed\nDone\n</subagent>');
+  });
+
+  it('leaves unmatched sidechains inline and marked', async () => {
+    const transcript = writeJsonl('session.jsonl', [
+      sidechain('s1', null, { role: 'assistant', content: 'orphaned work' }),
+    ]);
+
+    const entries = formatMessagesForLetta(await readTranscript(transcript), -1, undefined, formatters);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ text: 'orphaned work', sidechain: true });
+  });
+});
+
+describe('readTranscriptSince', () => {
+  let dir: string;
+  let transcript: string;
+
+  function prompt(uuid: string, text: string): TranscriptMessage {
+    return { type: 'user', message: { role: 'user', content: text }, uuid };
+  }
+
+  function append(...messages: TranscriptMessage[]): void {
+    fs.appendFileSync(transcript, messages.map(m => JSON.stringify(m) + '\n').join(''));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-cursor-test-'));
+    transcript = path.join(dir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('resumes from the saved cursor with turn and tool context', async () => {
+    append(prompt('u1', 'first'), toolCalls(['toolu_a', 'Bash', { command: 'npm test' }]));
+    const first = await readTranscriptSince(transcript, -1);
+    expect(first.end).toMatchObject({ index: 1, turns: 1, toolNames: { toolu_a: 'Bash' } });
+
+    append(toolResult('toolu_a', 'ok'), prompt('u2', 'second'));
+    const second = await readTranscriptSince(transcript, first.end);
+
+    expect(second.rescanned).toBe(false);
+    expect(second.start.index).toBe(1);
+    expect(second.end).toMatchObject({ index: 3, uuid: 'u2', turns: 2, toolNames: {} });
+    const entries = formatMessagesForLetta(second.messages, -1, undefined, formatters, second.start);
+    expect(entries.map(e => [e.kind, e.toolName, e.turn])).toEqual([
+      ['tool_result', 'Bash', 1],
+      ['user', undefined, 2],
+    ]);
+  });
+
+  it('leaves a partly written last line for the next read', async () => {
+    append(prompt('u1', 'first'));
+    fs.appendFileSync(transcript, '{"type":"user","message":{"role":"user","con');
+
+    const slice = await readTranscriptSince(transcript, -1);
+
+    expect(slice.messages).toHaveLength(1);
+    expect(slice.end.offset).toBe(JSON.stringify(prompt('u1', 'first')).length + 1);
+  });
+
+  it('finds its place again after the file is rewritten', async () => {
+    append(prompt('u1', 'first'), prompt('u2', 'second'));
+    const { end } = await readTranscriptSince(transcript, -1);
+
+    // Rewritten with an extra line in front: same uuid, different offset
+    fs.writeFileSync(transcript, '');
+    append({ type: 'summary', summary: 'Earlier work' }, prompt('u1', 'first'), prompt('u2', 'second'), prompt('u3', 'third'));
+    const resumed = await readTranscriptSince(transcript, end);
+    expect(resumed.rescanned).toBe(true);
+    expect(resumed.messages.map(m => m.uuid)).toEqual(['u3']);
+    expect(resumed.start.index).toBe(2);
+
+    // Truncated below the cursor, with the message gone: start over
+    fs.writeFileSync(transcript, '');
+    append(prompt('u9', 'new'));
+    const restarted = await readTranscriptSince(transcript, resumed.end);
+    expect(restarted.rescanned).toBe(true);
+    expect(restarted.messages.map(m => m.uuid)).toEqual(['u9']);
+  });
+
+  it('lists the files recent tool calls touched, newest first', () => {
+    append(
+      toolCalls(['t1', 'Read', { file_path: '/a.ts' }], ['t2', 'Grep', { pattern: 'x', path: 'src' }]),
+      toolCalls(['t3', 'Edit', { file_path: '/b.ts' }], ['t4', 'Read', { file_path: '/a.ts' }]),
+    );
+
+    expect(readRecentToolFiles(transcript)).toEqual(['/a.ts', '/b.ts', 'src']);
+    expect(readRecentToolFiles(transcript, 1)).toEqual(['/a.ts']);
+    expect(readRecentToolFiles(path.join(dir, 'missing.jsonl'))).toEqual([]);
+  });
+
+  it('starts after a message index for state saved without a cursor', async () => {
+    append(prompt('u1', 'first'), prompt('u2', 'second'), prompt('u3', 'third'));
+
+    const slice = await readTranscriptSince(transcript, 1);
+
+    expect(slice.messages.map(m => m.uuid)).toEqual(['u3']);
+    expect(slice.start).toMatchObject({ index: 1, uuid: 'u2', turns: 2 });
+  });
+});
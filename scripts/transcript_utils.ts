@@ -2,11 +2,41 @@
  * Transcript Utilities
  *
  * Shared utilities for reading and formatting Claude Code transcripts.
- * Used by send_messages_to_letta.ts.
+ * Used by send_messages_to_letta.ts and posttool_stream.ts.
+ *
+ * Transcript schema (the contents of <transcript> in session updates):
+ *
+ *   <summary>                          Claude Code's summary after compaction
+ *   <message role="user">              A prompt; starts a new turn
+ *   <message role="claude_code">       Claude's reply text
+ *   <thinking>                         Claude's reasoning, truncated
+ *   <tool_call id name>                One-line input summary, plus a diff for
+ *                                      file edits
+ *   <tool_result tool_use_id name>     Tool output, truncated; is_error="true"
+ *                                      on failures
+ *   <subagent tool_use_id agent_id>    Summary of the subagent thread a Task
+ *                                      call ran, just before the Task's result
+ *   <attachment type media_type>       A pasted or returned image or document:
+ *                                      width, height, size and file when known,
+ *                                      with its title as text; tool_use_id and
+ *                                      name when a tool returned it
+ *
+ * Every element also carries, when known:
+ *   turn        Prompt number within the session (1 = first prompt), stable
+ *               across updates
+ *   timestamp   When Claude Code recorded the message (ISO 8601)
+ *   uuid        The transcript message's uuid, for citing a specific moment
+ *   sidechain   "true" for subagent work that couldn't be matched to its
+ *               Task call
  */
 
 import * as fs from 'fs';
 import * as readline from 'readline';
+import { Attachment, describeAttachment } from './attachments.js';
+import { escapeXmlAttribute, escapeXmlContent } from './conversation_utils.js';
+import { loadToolFormatters, ToolFormatterRegistry, truncate } from './tool_formatters.js';
+
+export { summarizeToolInput, truncate, TOOL_RESULT_MAX_CHARS } from './tool_formatters.js';
 
 // Types for transcript parsing
 export interface ContentBlock {
@@ -17,8 +47,10 @@ export interface ContentBlock {
   id?: string;          // tool_use_id
   input?: any;          // tool input
   tool_use_id?: string; // for tool_result
-  content?: string;     // tool result content
+  content?: string | ContentBlock[]; // tool result content
   is_error?: boolean;   // tool error flag
+  source?: any;         // image / document data
+  title?: string;       // document title
 }
 
 export interface TranscriptMessage {
@@ -34,6 +66,13 @@ export interface TranscriptMessage {
   tool_result?: any;
   timestamp?: string;
   uuid?: string;
+  parentUuid?: string | null;
+  isSidechain?: boolean;
+  agentId?: string;
+  /** Claude Code's structured tool result, e.g. { agentId } for Task */
+  toolUseResult?: any;
+  /** Subagent threads whose Task result is in this message (see readTranscript) */
+  subagentThreads?: SubagentThread[];
   // Summary message fields
   summary?: string;
   // System message fields
@@ -45,11 +84,88 @@ export interface TranscriptMessage {
   };
 }
 
+export interface SubagentThread {
+  /** The Task tool_use that started the subagent */
+  toolUseId: string;
+  agentId?: string;
+  messages: TranscriptMessage[];
+}
+
 export interface ExtractedContent {
   text: string | null;
   thinking: string | null;
-  toolUses: Array<{ name: string; input: any }>;
-  toolResults: Array<{ toolName: string; content: string; isError: boolean }>;
+  toolUses: Array<{ id?: string; name: string; input: any }>;
+  toolResults: Array<{ toolUseId: string | null; content: string; isError: boolean; attachments: Attachment[] }>;
+  attachments: Attachment[];
+}
+
+/**
+ * What a formatted transcript entry holds, used to decide what to shed when
+ * an update is over its token budget (see transcript_packer.ts)
+ */
+export type TranscriptEntryKind =
+  | 'summary'
+  | 'user'
+  | 'assistant'
+  | 'thinking'
+  | 'tool_use'
+  | 'tool_result'
+  | 'tool_error'
+  | 'subagent'
+  | 'attachment';
+
+export interface TranscriptEntry {
+  role: string;
+  text: string;
+  kind?: TranscriptEntryKind;
+  toolName?: string;
+  /** Links a tool call to its result */
+  toolUseId?: string;
+  agentId?: string;
+  /** Image or document metadata, without its content */
+  attachment?: Attachment;
+  /** Prompt number within the session, 0 before the first prompt */
+  turn?: number;
+  timestamp?: string;
+  uuid?: string;
+  sidechain?: boolean;
+}
+
+/**
+ * What formatting a slice needs to know about the messages before it
+ */
+export interface TranscriptContext {
+  /** User prompts so far, for turn numbering */
+  turns: number;
+  /** Tool calls still waiting for their result: tool_use id -> tool name */
+  toolNames: Record<string, string>;
+}
+
+/**
+ * A position in a transcript file, saved in sync state so the next hook
+ * reads only what was appended since
+ */
+export interface TranscriptCursor extends TranscriptContext {
+  /** Byte offset just past the last message read */
+  offset: number;
+  /** Byte offset where that message's line starts */
+  lineOffset: number;
+  /** Index of that message (-1 before the first) */
+  index: number;
+  /** That message's uuid, checked to detect a rewritten file */
+  uuid?: string;
+}
+
+export const TRANSCRIPT_START: TranscriptCursor = { offset: 0, lineOffset: 0, index: -1, turns: 0, toolNames: {} };
+
+export interface TranscriptSlice {
+  /** Messages after start, in order */
+  messages: TranscriptMessage[];
+  start: TranscriptCursor;
+  /** Position after the last complete message */
+  end: TranscriptCursor;
+  /** The saved position didn't match the file and it was rescanned */
+  rescanned: boolean;
 }
 
 export type LogFn = (message: string) => void;
@@ -57,10 +173,213 @@ export type LogFn = (message: string) => void;
 // Default no-op logger
 const noopLog: LogFn = () => {};
 
+// Tool that runs a subagent
+const SUBAGENT_TOOL = 'Task';
+// Steps listed in a subagent summary before the rest are counted
+const SUBAGENT_MAX_STEPS = 30;
+const SUBAGENT_STEP_MAX_CHARS = 200;
+const SUBAGENT_REPLY_MAX_CHARS = 1000;
+// How far back to look for the files recent tool calls touched
+const RECENT_FILES_LIMIT = 20;
+const RECENT_FILES_MAX_BYTES = 256 * 1024;
+
+interface TranscriptLine {
+  message: TranscriptMessage;
+  offset: number;
+  end: number;
+}
+
+/**
+ * Parse the complete lines of a JSONL file from a byte offset. A trailing
+ * line without a newline is only taken if it parses, since Claude Code may
+ * still be writing it.
+ */
+function readLinesFrom(transcriptPath: string, offset: number, log: LogFn): TranscriptLine[] {
+  const fd = fs.openSync(transcriptPath, 'r');
+  let data: Buffer;
+  try {
+    data = Buffer.alloc(Math.max(fs.fstatSync(fd).size - offset, 0));
+    fs.readSync(fd, data, 0, data.length, offset);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const lines: TranscriptLine[] = [];
+
+  let start = 0;
+  while (start < data.length) {
+    const newline = data.indexOf(0x0a, start);
+    const end = newline === -1 ? data.length : newline + 1;
+    const text = data.subarray(start, newline === -1 ? data.length : newline).toString('utf-8');
+    if (text.trim()) {
+      try {
+        lines.push({ message: JSON.parse(text), offset: offset + start, end: offset + end });
+      } catch (e) {
+        if (newline === -1) break;
+        log(`Failed to parse transcript line: ${e}`);
+      }
+    }
+    start = end;
+  }
+
+  return lines;
+}
+
+/**
+ * Files the latest tool calls read or changed (file_path, notebook_path or
+ * path inputs), most recent first. Only the end of the transcript is read.
+ */
+export function readRecentToolFiles(
+  transcriptPath: string,
+  limit: number = RECENT_FILES_LIMIT,
+  maxBytes: number = RECENT_FILES_MAX_BYTES,
+): string[] {
+  if (!fs.existsSync(transcriptPath)) {
+    return [];
+  }
+  // The first line read is usually cut off; it fails to parse and is skipped
+  const lines = readLinesFrom(transcriptPath, Math.max(fs.statSync(transcriptPath).size - maxBytes, 0), noopLog);
+
+  const files: string[] = [];
+  for (const { message } of lines.reverse()) {
+    for (const toolUse of extractAllContent(message).toolUses.reverse()) {
+      const file = toolUse.input?.file_path ?? toolUse.input?.notebook_path ?? toolUse.input?.path;
+      if (typeof file === 'string' && !files.includes(file)) {
+        files.push(file);
+        if (files.length >= limit) return files;
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Whether the message a cursor points at is still where the cursor says
+ */
+function cursorMatches(transcriptPath: string, cursor: TranscriptCursor): boolean {
+  if (cursor.offset === 0) return true;
+  if (fs.statSync(transcriptPath).size < cursor.offset) return false;
+
+  const fd = fs.openSync(transcriptPath, 'r');
+  try {
+    const line = Buffer.alloc(cursor.offset - cursor.lineOffset);
+    fs.readSync(fd, line, 0, line.length, cursor.lineOffset);
+    const message: TranscriptMessage = JSON.parse(line.toString('utf-8'));
+    return cursor.uuid === undefined || message.uuid === cursor.uuid;
+  } catch {
+    return false;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
 /**
- * Read transcript JSONL file and parse messages
+ * Carry formatting context past some messages
  */
-export async function readTranscript(transcriptPath: string, log: LogFn = noopLog): Promise<TranscriptMessage[]> {
+export function advanceContext(context: TranscriptContext, messages: TranscriptMessage[]): TranscriptContext {
+  const toolNames = { ...context.toolNames };
+  for (const msg of messages) {
+    const extracted = extractAllContent(msg);
+    for (const toolUse of extracted.toolUses) {
+      if (toolUse.id) toolNames[toolUse.id] = toolUse.name;
+    }
+    for (const toolResult of extracted.toolResults) {
+      if (toolResult.toolUseId) delete toolNames[toolResult.toolUseId];
+    }
+  }
+  return { turns: context.turns + messages.filter(isUserPrompt).length, toolNames };
+}
+
+function cursorAfter(start: TranscriptCursor, lines: TranscriptLine[]): TranscriptCursor {
+  const last = lines[lines.length - 1];
+  if (!last) return start;
+  return {
+    ...advanceContext(start, lines.map(l => l.message)),
+    offset: last.end,
+    lineOffset: last.offset,
+    index: start.index + lines.length,
+    uuid: last.message.uuid,
+  };
+}
+
+/**
+ * Read the messages after a position: a cursor saved by an earlier read, or
+ * a message index (a full read, for state saved before cursors existed).
+ * A cursor is only trusted if the message it points at still has the same
+ * uuid; otherwise the file was truncated or rewritten, and it is rescanned
+ * to find that message again, starting over if it is gone.
+ *
+ * Subagent threads are attached to the Task calls in the slice, as in
+ * readTranscript.
+ */
+export async function readTranscriptSince(
+  transcriptPath: string,
+  from: TranscriptCursor | number,
+  log: LogFn = noopLog,
+  subagentTranscripts: string[] = [],
+): Promise<TranscriptSlice> {
+  if (!fs.existsSync(transcriptPath)) {
+    log(`Transcript file not found: ${transcriptPath}`);
+    const start = typeof from === 'number' ? TRANSCRIPT_START : from;
+    return { messages: [], start, end: start, rescanned: false };
+  }
+
+  let start: TranscriptCursor;
+  let lines: TranscriptLine[];
+  let rescanned = false;
+
+  if (typeof from !== 'number' && cursorMatches(transcriptPath, from)) {
+    start = from;
+    lines = readLinesFrom(transcriptPath, from.offset, log);
+  } else {
+    const all = readLinesFrom(transcriptPath, 0, log);
+    let index = typeof from === 'number' ? Math.min(from, all.length - 1) : -1;
+    if (typeof from !== 'number') {
+      rescanned = true;
+      index = from.uuid === undefined ? -1 : all.map(l => l.message.uuid).lastIndexOf(from.uuid);
+      log(index === -1
+        ? `Transcript was rewritten and message ${from.uuid ?? `#${from.index}`} is gone, reading it from the start`
+        : `Transcript was rewritten, resuming after message ${from.uuid} (now #${index})`);
+    }
+    start = cursorAfter(TRANSCRIPT_START, all.slice(0, index + 1));
+    lines = all.slice(index + 1);
+  }
+
+  const messages = lines.map(l => l.message);
+  await attachSidechains(messages, subagentTranscripts, log);
+  return { messages, start, end: cursorAfter(start, lines), rescanned };
+}
+
+/**
+ * Read a whole transcript and attach subagent threads to the Task calls that
+ * ran them. Sidechain lines in the transcript and separate subagent
+ * transcripts (recorded by the SubagentStop hook) are both read. Sidechain
+ * messages stay in the returned array, so indices into it are unaffected.
+ */
+export async function readTranscript(
+  transcriptPath: string,
+  log: LogFn = noopLog,
+  subagentTranscripts: string[] = [],
+): Promise<TranscriptMessage[]> {
+  return (await readTranscriptSince(transcriptPath, -1, log, subagentTranscripts)).messages;
+}
+
+async function attachSidechains(messages: TranscriptMessage[], subagentTranscripts: string[], log: LogFn): Promise<void> {
+  const threads = groupSidechains(messages.filter(m => m.isSidechain));
+  for (const file of subagentTranscripts) {
+    for (const thread of groupSidechains(await readJsonlMessages(file, log))) {
+      // A subagent already found inline needn't be read twice
+      if (!thread.agentId || !threads.some(t => t.agentId === thread.agentId)) {
+        threads.push(thread);
+      }
+    }
+  }
+  if (threads.length > 0) {
+    attachSubagentThreads(messages, threads, log);
+  }
+}
+
+async function readJsonlMessages(transcriptPath: string, log: LogFn): Promise<TranscriptMessage[]> {
   if (!fs.existsSync(transcriptPath)) {
     log(`Transcript file not found: ${transcriptPath}`);
     return [];
@@ -86,6 +405,80 @@ export async function readTranscript(transcriptPath: string, log: LogFn = noopLo
   return messages;
 }
 
+/**
+ * Split sidechain messages into one thread per subagent: by agentId when
+ * Claude Code recorded one, otherwise by following parentUuid links
+ */
+function groupSidechains(messages: TranscriptMessage[]): Array<Omit<SubagentThread, 'toolUseId'>> {
+  const threads = new Map<string, Omit<SubagentThread, 'toolUseId'>>();
+  const threadOfUuid = new Map<string, string>();
+
+  for (const msg of messages) {
+    const key = msg.agentId
+      || (msg.parentUuid && threadOfUuid.get(msg.parentUuid))
+      || msg.uuid
+      || `thread-${threads.size}`;
+    if (msg.uuid) {
+      threadOfUuid.set(msg.uuid, key);
+    }
+    let thread = threads.get(key);
+    if (!thread) {
+      thread = { agentId: msg.agentId, messages: [] };
+      threads.set(key, thread);
+    }
+    thread.messages.push(msg);
+  }
+
+  return [...threads.values()];
+}
+
+/**
+ * Match each thread to the Task call that started it (by the agentId in the
+ * Task's result, else by the subagent's first prompt) and attach it to the
+ * message holding that Task's result
+ */
+function attachSubagentThreads(
+  messages: TranscriptMessage[],
+  threads: Array<Omit<SubagentThread, 'toolUseId'>>,
+  log: LogFn,
+): void {
+  const taskPrompts = new Map<string, string>();
+  const resultMessages = new Map<string, TranscriptMessage>();
+  const taskOfAgent = new Map<string, string>();
+
+  for (const msg of messages) {
+    if (msg.isSidechain) continue;
+    const extracted = extractAllContent(msg);
+    for (const toolUse of extracted.toolUses) {
+      if (toolUse.name === SUBAGENT_TOOL && toolUse.id) {
+        taskPrompts.set(toolUse.id, typeof toolUse.input?.prompt === 'string' ? toolUse.input.prompt : '');
+      }
+    }
+    for (const toolResult of extracted.toolResults) {
+      if (toolResult.toolUseId && taskPrompts.has(toolResult.toolUseId)) {
+        resultMessages.set(toolResult.toolUseId, msg);
+        if (typeof msg.toolUseResult?.agentId === 'string') {
+          taskOfAgent.set(msg.toolUseResult.agentId, toolResult.toolUseId);
+        }
+      }
+    }
+  }
+
+  const claimed = new Set<string>();
+  for (const thread of threads) {
+    const firstPrompt = extractAllContent(thread.messages.find(m => m.type === 'user') ?? { type: 'user' }).text;
+    const toolUseId = (thread.agentId && taskOfAgent.get(thread.agentId))
+      || [...taskPrompts].find(([id, taskPrompt]) => !claimed.has(id) && taskPrompt !== '' && taskPrompt === firstPrompt)?.[0];
+    const resultMessage = toolUseId ? resultMessages.get(toolUseId) : undefined;
+    if (!toolUseId || !resultMessage || claimed.has(toolUseId)) {
+      log(`Could not match subagent thread ${thread.agentId || thread.messages[0]?.uuid || ''} to a finished Task call`);
+      continue;
+    }
+    claimed.add(toolUseId);
+    resultMessage.subagentThreads = [...(resultMessage.subagentThreads ?? []), { ...thread, toolUseId }];
+  }
+}
+
 /**
  * Extract different content types from a message
  */
@@ -95,6 +488,7 @@ export function extractAllContent(msg: TranscriptMessage): ExtractedContent {
     thinking: null,
     toolUses: [],
     toolResults: [],
+    attachments: [],
   };
 
   const content = msg.message?.content ?? msg.content;
@@ -115,18 +509,41 @@ export function extractAllContent(msg: TranscriptMessage): ExtractedContent {
         thinkingParts.push(block.thinking);
       } else if (block.type === 'tool_use' && block.name) {
         result.toolUses.push({
+          id: block.id,
           name: block.name,
           input: block.input,
         });
       } else if (block.type === 'tool_result') {
-        const resultContent = typeof block.content === 'string'
-          ? block.content
-          : JSON.stringify(block.content);
+        const attachments: Attachment[] = [];
+        let resultContent: string;
+        if (typeof block.content === 'string') {
+          resultContent = block.content;
+        } else if (Array.isArray(block.content)) {
+          // Text parts are the output; images (e.g. from Read) are described
+          const resultText: string[] = [];
+          for (const part of block.content) {
+            const attachment = describeAttachment(part);
+            if (attachment) {
+              attachments.push(attachment);
+            } else if (part.type === 'text' && part.text) {
+              resultText.push(part.text);
+            }
+          }
+          resultContent = resultText.join('\n');
+        } else {
+          resultContent = JSON.stringify(block.content);
+        }
         result.toolResults.push({
-          toolName: block.tool_use_id || 'unknown',
+          toolUseId: block.tool_use_id || null,
           content: resultContent,
           isError: block.is_error || false,
+          attachments,
         });
+      } else {
+        const attachment = describeAttachment(block);
+        if (attachment) {
+          result.attachments.push(attachment);
+        }
       }
     }
 
@@ -142,23 +559,97 @@ export function extractAllContent(msg: TranscriptMessage): ExtractedContent {
 }
 
 /**
- * Truncate text to a maximum length
+ * Map tool_use ids to tool names across the whole transcript, so a result is
+ * named even when its call was in an earlier, already-sent slice
+ */
+function collectToolNames(messages: TranscriptMessage[]): Map<string, string> {
+  const toolNames = new Map<string, string>();
+  for (const msg of messages) {
+    if (msg.type !== 'assistant') continue;
+    for (const toolUse of extractAllContent(msg).toolUses) {
+      if (toolUse.id) {
+        toolNames.set(toolUse.id, toolUse.name);
+      }
+    }
+  }
+  return toolNames;
+}
+
+/**
+ * Whether a message is a prompt from the user, which starts a new turn
  */
-export function truncate(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-  return text.substring(0, maxLength) + '... [truncated]';
+function isUserPrompt(msg: TranscriptMessage): boolean {
+  return msg.type === 'user' && !msg.isSidechain && extractAllContent(msg).text !== null;
 }
 
 /**
- * Format messages for Letta with rich context
+ * Summarise a subagent's thread: a header line with counts, then its tool
+ * calls, failures and replies in order, ending with its final reply
+ */
+function summarizeSubagentThread(thread: SubagentThread, formatters: ToolFormatterRegistry): string {
+  const toolNames = collectToolNames(thread.messages);
+  const steps: string[] = [];
+  let toolCalls = 0;
+  let failures = 0;
+  let finalReply: string | null = null;
+
+  for (const msg of thread.messages) {
+    const extracted = extractAllContent(msg);
+    if (msg.type === 'assistant') {
+      for (const toolUse of extracted.toolUses) {
+        toolCalls++;
+        const formatter = formatters.get(toolUse.name);
+        if (formatter.send) {
+          steps.push(truncate(`[${toolUse.name}] ${formatter.summarizeInput(toolUse.input)}`.trim(), SUBAGENT_STEP_MAX_CHARS));
+        }
+      }
+      if (extracted.text) {
+        if (finalReply !== null) {
+          steps.push(truncate(finalReply, SUBAGENT_STEP_MAX_CHARS));
+        }
+        finalReply = extracted.text;
+      }
+    } else if (msg.type === 'user') {
+      for (const toolResult of extracted.toolResults.filter(r => r.isError)) {
+        failures++;
+        const toolName = (toolResult.toolUseId && toolNames.get(toolResult.toolUseId)) || 'unknown';
+        const firstLine = toolResult.content.split('\n').find(line => line.trim()) ?? '';
+        steps.push(truncate(`[Error: ${toolName}] ${firstLine}`.trim(), SUBAGENT_STEP_MAX_CHARS));
+      }
+    }
+  }
+
+  const lines = [`${toolCalls} tool call${toolCalls === 1 ? '' : 's'}, ${failures} failed`];
+  lines.push(...steps.slice(0, SUBAGENT_MAX_STEPS));
+  if (steps.length > SUBAGENT_MAX_STEPS) {
+    lines.push(`[${steps.length - SUBAGENT_MAX_STEPS} more steps]`);
+  }
+  if (finalReply !== null) {
+    lines.push(truncate(finalReply, SUBAGENT_REPLY_MAX_CHARS));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format messages for Letta with rich context. Tools are summarised, trimmed
+ * or left out according to the tool formatter registry.
  */
 export function formatMessagesForLetta(
   messages: TranscriptMessage[],
   startIndex: number,
-  log: LogFn = noopLog
-): Array<{role: string, text: string}> {
-  const formatted: Array<{role: string, text: string}> = [];
-  const toolNameMap: Map<string, string> = new Map(); // tool_use_id -> tool_name
+  log: LogFn = noopLog,
+  formatters: ToolFormatterRegistry = loadToolFormatters(log),
+  context: TranscriptContext = TRANSCRIPT_START,
+): TranscriptEntry[] {
+  const formatted: TranscriptEntry[] = [];
+  const toolNameMap = new Map([...Object.entries(context.toolNames), ...collectToolNames(messages)]);
+  // Paths read by tool calls, to name the files images came from
+  const toolFiles = new Map<string, string>();
+  // Sidechain messages shown nested under their Task call instead
+  const threaded = new Set(messages.flatMap(m => m.subagentThreads ?? []).flatMap(t => t.messages));
+
+  // Turns are numbered from the start of the session, not of this slice
+  let turn = context.turns + messages.slice(0, Math.max(startIndex + 1, 0)).filter(isUserPrompt).length;
 
   log(`Formatting messages from index ${startIndex + 1} to ${messages.length - 1}`);
 
@@ -167,12 +658,23 @@ export function formatMessagesForLetta(
 
     log(`  Message ${i}: type=${msg.type}`);
 
+    if (threaded.has(msg)) {
+      continue;
+    }
+
+    if (isUserPrompt(msg)) {
+      turn++;
+    }
+    const meta: Partial<TranscriptEntry> = {
+      turn,
+      timestamp: msg.timestamp,
+      uuid: msg.uuid,
+      ...(msg.isSidechain ? { sidechain: true } : {}),
+    };
+
     // Handle summary messages
     if (msg.type === 'summary' && msg.summary) {
-      formatted.push({
-        role: 'system',
-        text: `[Session Summary]: ${msg.summary}`,
-      });
+      formatted.push({ role: 'system', text: msg.summary, kind: 'summary', ...meta });
       log(`    -> Added summary`);
       continue;
     }
@@ -188,20 +690,51 @@ export function formatMessagesForLetta(
 
       // User text input
       if (extracted.text) {
-        formatted.push({ role: 'user', text: extracted.text });
+        formatted.push({ role: 'user', text: extracted.text, kind: 'user', ...meta });
         log(`    -> Added user message (${extracted.text.length} chars)`);
       }
 
+      // Pasted images and attached documents
+      for (const attachment of extracted.attachments) {
+        formatted.push(attachmentEntry(attachment, 'user', meta));
+        log(`    -> Added ${attachment.type} attachment (${attachment.mediaType || 'unknown type'})`);
+      }
+
       // Tool results (these come in user messages)
       for (const toolResult of extracted.toolResults) {
-        const toolName = toolNameMap.get(toolResult.toolName) || toolResult.toolName;
-        const prefix = toolResult.isError ? '[Tool Error' : '[Tool Result';
-        const truncatedContent = truncate(toolResult.content, 1500);
+        const toolUseId = toolResult.toolUseId || undefined;
+        const toolName = (toolUseId && toolNameMap.get(toolUseId)) || 'unknown';
+        const formatter = formatters.get(toolName);
+        if (!formatter.send) {
+          continue;
+        }
+        const thread = msg.subagentThreads?.find(t => t.toolUseId === toolUseId);
+        if (thread) {
+          formatted.push({
+            role: 'assistant',
+            text: summarizeSubagentThread(thread, formatters),
+            kind: 'subagent',
+            toolName,
+            toolUseId,
+            agentId: thread.agentId,
+            ...meta,
+          });
+          log(`    -> Added subagent thread for ${toolUseId} (${thread.messages.length} messages)`);
+        }
         formatted.push({
           role: 'system',
-          text: `${prefix}: ${toolName}]\n${truncatedContent}`,
+          text: truncate(toolResult.content, formatter.resultMaxChars),
+          kind: toolResult.isError ? 'tool_error' : 'tool_result',
+          toolName,
+          toolUseId,
+          ...meta,
         });
         log(`    -> Added tool result for ${toolName} (error: ${toolResult.isError})`);
+        for (const attachment of toolResult.attachments) {
+          const file = attachment.file ?? (toolUseId && toolFiles.get(toolUseId));
+          formatted.push(attachmentEntry({ ...attachment, ...(file ? { file } : {}) }, 'system', { toolName, toolUseId, ...meta }));
+          log(`    -> Added ${attachment.type} attachment from ${toolName}`);
+        }
       }
     }
 
@@ -209,70 +742,40 @@ export function formatMessagesForLetta(
     else if (msg.type === 'assistant') {
       const extracted = extractAllContent(msg);
 
-      // Track tool names for later result mapping
-      for (const toolUse of extracted.toolUses) {
-        if (toolUse.input?.id) {
-          toolNameMap.set(toolUse.input.id, toolUse.name);
-        }
-      }
-
       // Assistant thinking (summarized)
       if (extracted.thinking) {
         const truncatedThinking = truncate(extracted.thinking, 500);
-        formatted.push({
-          role: 'assistant',
-          text: `[Thinking]: ${truncatedThinking}`,
-        });
+        formatted.push({ role: 'assistant', text: truncatedThinking, kind: 'thinking', ...meta });
         log(`    -> Added thinking (${extracted.thinking.length} chars, truncated to 500)`);
       }
 
       // Tool calls
       for (const toolUse of extracted.toolUses) {
-        // Format tool input concisely
-        let inputSummary = '';
-        if (toolUse.input) {
-          if (toolUse.name === 'Read' && toolUse.input.file_path) {
-            inputSummary = toolUse.input.file_path;
-          } else if (toolUse.name === 'Edit' && toolUse.input.file_path) {
-            inputSummary = toolUse.input.file_path;
-          } else if (toolUse.name === 'Write' && toolUse.input.file_path) {
-            inputSummary = toolUse.input.file_path;
-          } else if (toolUse.name === 'Bash' && toolUse.input.command) {
-            inputSummary = truncate(toolUse.input.command, 100);
-          } else if (toolUse.name === 'Glob' && toolUse.input.pattern) {
-            inputSummary = toolUse.input.pattern;
-          } else if (toolUse.name === 'Grep' && toolUse.input.pattern) {
-            inputSummary = toolUse.input.pattern;
-          } else if (toolUse.name === 'WebFetch' && toolUse.input.url) {
-            inputSummary = toolUse.input.url;
-          } else if (toolUse.name === 'WebSearch' && toolUse.input.query) {
-            inputSummary = toolUse.input.query;
-          } else if (toolUse.name === 'Task' && toolUse.input.description) {
-            inputSummary = toolUse.input.description;
-          } else if (toolUse.name === 'AskUserQuestion' && toolUse.input.questions) {
-            // Summarize questions being asked
-            const questions = toolUse.input.questions;
-            if (Array.isArray(questions) && questions.length > 0) {
-              inputSummary = questions.map((q: any) => q.question || q.header || '').join('; ');
-              inputSummary = truncate(inputSummary, 100);
-            }
-          } else if (toolUse.name === 'ExitPlanMode') {
-            inputSummary = 'Exiting plan mode';
-          } else {
-            inputSummary = truncate(JSON.stringify(toolUse.input), 100);
-          }
+        if (toolUse.id && typeof toolUse.input?.file_path === 'string') {
+          toolFiles.set(toolUse.id, toolUse.input.file_path);
+        }
+        const formatter = formatters.get(toolUse.name);
+        if (!formatter.send) {
+          log(`    -> Skipped tool use: ${toolUse.name} (send disabled)`);
+          continue;
         }
+        const inputSummary = formatter.summarizeInput(toolUse.input);
+        const details = formatter.formatDetails(toolUse.input);
 
         formatted.push({
           role: 'assistant',
-          text: `[Tool: ${toolUse.name}] ${inputSummary}`,
+          text: details ? `${inputSummary}\n${details}` : inputSummary,
+          kind: 'tool_use',
+          toolName: toolUse.name,
+          toolUseId: toolUse.id,
+          ...meta,
         });
         log(`    -> Added tool use: ${toolUse.name}`);
       }
 
       // Assistant text response
       if (extracted.text) {
-        formatted.push({ role: 'assistant', text: extracted.text });
+        formatted.push({ role: 'assistant', text: extracted.text, kind: 'assistant', ...meta });
         log(`    -> Added assistant text (${extracted.text.length} chars)`);
       }
     }
@@ -283,13 +786,80 @@ export function formatMessagesForLetta(
 }
 
 /**
- * Format messages as XML transcript entries for Letta API
+ * Transcript entry for an image or document; its content stays behind
+ */
+function attachmentEntry(attachment: Attachment, role: string, meta: Partial<TranscriptEntry>): TranscriptEntry {
+  const { data, ...described } = attachment;
+  return { role, text: described.description ?? '', kind: 'attachment', attachment: described, ...meta };
+}
+
+function attribute(name: string, value: string): string {
+  return `${name}="${escapeXmlAttribute(value)}"`;
+}
+
+/**
+ * Element-specific attributes, then turn, timestamp, uuid and sidechain
+ */
+function entryAttributes(entry: TranscriptEntry): string {
+  const attributes: string[] = [];
+
+  if (entry.kind === 'tool_use') {
+    if (entry.toolUseId) attributes.push(attribute('id', entry.toolUseId));
+    attributes.push(attribute('name', entry.toolName || 'unknown'));
+  } else if (entry.kind === 'tool_result' || entry.kind === 'tool_error') {
+    if (entry.toolUseId) attributes.push(attribute('tool_use_id', entry.toolUseId));
+    attributes.push(attribute('name', entry.toolName || 'unknown'));
+    if (entry.kind === 'tool_error') attributes.push('is_error="true"');
+  } else if (entry.kind === 'subagent') {
+    if (entry.toolUseId) attributes.push(attribute('tool_use_id', entry.toolUseId));
+    if (entry.agentId) attributes.push(attribute('agent_id', entry.agentId));
+  } else if (entry.kind === 'attachment') {
+    const attachment = entry.attachment;
+    attributes.push(attribute('type', attachment?.type || 'unknown'));
+    if (attachment?.mediaType) attributes.push(attribute('media_type', attachment.mediaType));
+    if (attachment?.width && attachment.height) {
+      attributes.push(attribute('width', String(attachment.width)), attribute('height', String(attachment.height)));
+    }
+    if (attachment?.bytes !== undefined) attributes.push(attribute('size', String(attachment.bytes)));
+    if (attachment?.file) attributes.push(attribute('file', attachment.file));
+    if (entry.toolUseId) attributes.push(attribute('tool_use_id', entry.toolUseId));
+    if (entry.toolName) attributes.push(attribute('name', entry.toolName));
+  } else if (entry.kind !== 'summary' && entry.kind !== 'thinking') {
+    const role = entry.role === 'user' ? 'user' : entry.role === 'assistant' ? 'claude_code' : 'system';
+    attributes.push(attribute('role', role));
+  }
+
+  if (entry.turn) attributes.push(attribute('turn', String(entry.turn)));
+  if (entry.timestamp) attributes.push(attribute('timestamp', entry.timestamp));
+  if (entry.uuid) attributes.push(attribute('uuid', entry.uuid));
+  if (entry.sidechain) attributes.push('sidechain="true"');
+
+  return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+const ELEMENT_NAMES: Record<TranscriptEntryKind, string> = {
+  summary: 'summary',
+  user: 'message',
+  assistant: 'message',
+  thinking: 'thinking',
+  tool_use: 'tool_call',
+  tool_result: 'tool_result',
+  tool_error: 'tool_result',
+  subagent: 'subagent',
+  attachment: 'attachment',
+};
+
+function formatXmlEntry(entry: TranscriptEntry): string {
+  const element = entry.kind ? ELEMENT_NAMES[entry.kind] : 'message';
+  const attributes = entryAttributes(entry);
+  const escaped = escapeXmlContent(entry.text);
+  return escaped ? `<${element}${attributes}>\n${escaped}\n</${element}>` : `<${element}${attributes}/>`;
+}
+
+/**
+ * Format transcript entries as XML for the Letta API, following the schema
+ * at the top of this file
  */
-export function formatAsXmlTranscript(messages: Array<{role: string, text: string}>): string {
-  return messages.map(m => {
-    const role = m.role === 'user' ? 'user' : m.role === 'assistant' ? 'claude_code' : 'system';
-    // Escape XML special chars in text
-    const escaped = m.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-    return `<message role="${role}">\n${escaped}\n</message>`;
-  }).join('\n');
+export function formatAsXmlTranscript(messages: TranscriptEntry[]): string {
+  return messages.map(formatXmlEntry).join('\n');
 }